@@ -0,0 +1,80 @@
+// src/app/api-types.ts
+// İstemci tarafında API cevaplarının şekilleri: { ok: true, data } / { ok: false, error } zarfı ve
+// ana sayfa panellerinin kullandığı data tipleri (JSON'da tarihler ISO string olarak gelir).
+
+export function isOkResponse(v: unknown): v is { ok: true; data: unknown } {
+    if (typeof v !== "object" || v === null) return false;
+    const o = v as Record<string, unknown>;
+    return o.ok === true && "data" in o;
+}
+
+export function isErrResponse(v: unknown): v is { ok: false; error: string } {
+    if (typeof v !== "object" || v === null) return false;
+    const o = v as Record<string, unknown>;
+    return o.ok === false && typeof o.error === "string";
+}
+
+// lib/summaries.ts summarySelect + toApiSummary
+export type SummaryData = {
+    id: string;
+    createdAt: string;
+    source: string; // "pdf", "pdf+image", "url"...
+    title: string;
+    summary: string;
+    keywords: string[];
+    pdfName: string | null;
+    sourceUrl: string | null;
+    imageCount: number | null;
+    templateKey: string | null;
+    templateVersion: number | null;
+    ocrPages: Array<{ page: number; confidence: number; chars: number }> | null;
+    editedAt: string | null;
+    workspaceId: string | null;
+    cached?: boolean; // özetleme cevabında: önbellekten mi geldi
+};
+
+// GET /api/search
+export type SearchData = { items: SummaryData[]; nextCursor: string | null };
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "canceled";
+
+// POST /api/summarize
+export type SummarizeData = { cached: true; summary: SummaryData } | { cached?: undefined; jobId: string; status: JobStatus };
+
+// GET /api/jobs/[id]
+export type JobData = {
+    id: string;
+    status: JobStatus;
+    progress: string | null;
+    progressDone: number;
+    progressTotal: number;
+    error: string | null;
+    createdAt: string;
+    updatedAt: string;
+    summary: SummaryData | null;
+};
+
+// /api/summarize/stream event'leri
+export type StreamProgress = { step: string; done: number; total: number };
+
+// GET /api/templates
+export type TemplatesData = {
+    builtin: Array<{ key: string; name: string; version: number; sections: string[]; lengthRule: string | null }>;
+    custom: Array<{
+        id: string;
+        name: string;
+        instructions: string | null;
+        sections: string[];
+        lengthRule: string | null;
+        version: number;
+        updatedAt: string;
+    }>;
+};
+
+// GET /api/summary/[id]/pages
+export type SourcePagesData = { from: number; to: number; pages: Array<{ page: number; text: string }> };
+
+export type ChatMessage = { id: string; role: "user" | "assistant"; content: string };
+
+// POST /api/summary/[id]/chat
+export type ChatAnswerData = { question: ChatMessage; answer: ChatMessage };
@@ -0,0 +1,37 @@
+// src/app/api/attachments/[id]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { AttachmentError, isInlineSafe, readAttachment } from "@/lib/attachments";
+import { contentDisposition } from "@/lib/export";
+import { errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+/**
+ * Orijinal dosyayı indir. ?inline=1 sadece PDF ve görsellerde tarayıcıda açar;
+ * HTML gibi türler her zaman indirilir ve sandbox CSP ile sunulur.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    try {
+        const file = await readAttachment(id, userId);
+        const inline = new URL(req.url).searchParams.get("inline") === "1" && isInlineSafe(file.contentType);
+        return new Response(new Uint8Array(file.body), {
+            headers: {
+                "Content-Type": file.contentType,
+                "Content-Length": String(file.body.length),
+                "Content-Disposition": contentDisposition(file.name, inline ? "inline" : "attachment"),
+                // Chrome'un PDF görüntüleyicisi sandbox CSP altında açılmıyor; PDF betik çalıştıramaz zaten.
+                ...(file.contentType === "application/pdf" ? {} : { "Content-Security-Policy": "sandbox" }),
+                "X-Content-Type-Options": "nosniff",
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (e: unknown) {
+        const status = e instanceof AttachmentError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,36 @@
+// src/app/api/export/route.ts
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { BULK_EXPORT_FORMATS, contentDisposition, exportHistoryZip, isExportFormat } from "@/lib/export";
+import { errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Tüm geçmiş tek zip: GET ?format=md|pdf|docx|json (varsayılan md)&workspace=personal|<id>
+export async function GET(req: Request) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const searchParams = new URL(req.url).searchParams;
+    const format = searchParams.get("format") ?? "md";
+    if (!isExportFormat(format) || !BULK_EXPORT_FORMATS.includes(format)) {
+        return NextResponse.json(
+            { ok: false, error: `Geçersiz biçim. İzin verilenler: ${BULK_EXPORT_FORMATS.join(", ")}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const zip = await exportHistoryZip(userId, format, searchParams.get("workspace"));
+        const filename = `ozetler-${new Date().toISOString().slice(0, 10)}-${format}.zip`;
+        return new Response(new Uint8Array(zip), {
+            headers: {
+                "Content-Type": "application/zip",
+                "Content-Disposition": contentDisposition(filename),
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+// src/app/api/flashcards/[id]/review/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { reviewFlashcard } from "@/lib/study/flashcards";
+import { isReviewGrade, REVIEW_GRADES } from "@/lib/study/srs";
+import { isRecord } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Kart tekrarı: { grade: "again" | "hard" | "good" | "easy" } -> sonraki tekrar zamanı
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const body: unknown = await req.json().catch(() => null);
+    if (!isRecord(body) || !isReviewGrade(body.grade)) {
+        return NextResponse.json({ ok: false, error: `grade şunlardan biri olmalı: ${REVIEW_GRADES.join(", ")}` }, { status: 400 });
+    }
+
+    const data = await reviewFlashcard(id, userId, body.grade);
+    if (!data) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    return NextResponse.json({ ok: true, data });
+}
@@ -0,0 +1,22 @@
+// src/app/api/folders/[id]/summaries/[summaryId]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { OrganizeError, removeFromFolder } from "@/lib/organize";
+import { errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Özeti klasörden çıkar (özet silinmez)
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string; summaryId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, summaryId } = await params;
+    try {
+        await removeFromFolder(userId, id, summaryId);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
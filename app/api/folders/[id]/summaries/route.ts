@@ -0,0 +1,27 @@
+// src/app/api/folders/[id]/summaries/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { addToFolder, OrganizeError } from "@/lib/organize";
+import { errorMessage, isRecord } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Özeti klasöre ekle (sürükle-bırak): { summaryId }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const body: unknown = await req.json().catch(() => null);
+    if (!isRecord(body) || typeof body.summaryId !== "string" || !body.summaryId) {
+        return NextResponse.json({ ok: false, error: "summaryId gerekli." }, { status: 400 });
+    }
+
+    try {
+        await addToFolder(userId, id, body.summaryId);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -2,15 +2,22 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { organizeFilterWhere } from "@/lib/organize";
+import { summaryAccessWhere, workspaceFilterWhere } from "@/lib/workspaces";
 
 export const runtime = "nodejs";
 
-export async function GET() {
+// Kişisel özetler + üyesi olunan çalışma alanlarındakiler. ?workspace=personal|<id>, ?folder=<id>, ?tag=<id> ile daraltılır.
+export async function GET(req: Request) {
     const { userId } = await auth(); // ✅ bazı sürümlerde Promise
     if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
 
+    const searchParams = new URL(req.url).searchParams;
+    const workspace = searchParams.get("workspace");
+    const organize = organizeFilterWhere(userId, searchParams.get("folder"), searchParams.get("tag"));
+
     const items = await prisma.summary.findMany({
-        where: { userId },
+        where: { AND: [summaryAccessWhere(userId), workspaceFilterWhere(workspace), organize] },
         orderBy: { createdAt: "desc" },
         select: {
             id: true,
@@ -20,10 +27,15 @@ export async function GET() {
             summary: true,
             keywords: true,
             pdfName: true,
+            sourceUrl: true,
             imageCount: true,
+            templateKey: true,
+            templateVersion: true,
+            ocrPages: true,
+            workspaceId: true,
         },
         take: 50,
     });
 
     return NextResponse.json({ ok: true, data: items });
-}
\ No newline at end of file
+}
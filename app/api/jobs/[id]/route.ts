@@ -0,0 +1,55 @@
+// src/app/api/jobs/[id]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { cancelSummaryJob, failStaleSummaryJob } from "@/lib/jobs";
+import { summarySelect, toApiSummary } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    await failStaleSummaryJob(id, userId);
+
+    const job = await prisma.summaryJob.findFirst({
+        where: { id, userId },
+        select: {
+            id: true,
+            status: true,
+            progress: true,
+            progressDone: true,
+            progressTotal: true,
+            error: true,
+            createdAt: true,
+            updatedAt: true,
+            summary: { select: summarySelect },
+        },
+    });
+
+    if (!job) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    return NextResponse.json({
+        ok: true,
+        data: { ...job, summary: job.summary ? toApiSummary(job.summary) : null },
+    });
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    if (await cancelSummaryJob(id, userId)) {
+        return NextResponse.json({ ok: true, data: { id, status: "canceled" } });
+    }
+
+    const exists = await prisma.summaryJob.count({ where: { id, userId } });
+    if (exists === 0) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    return NextResponse.json({ ok: false, error: "İş zaten bitmiş, iptal edilemez." }, { status: 409 });
+}
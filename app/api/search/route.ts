@@ -0,0 +1,27 @@
+// src/app/api/search/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { errorMessage } from "@/lib/summaries";
+import { parseSearchParams, searchSummaries } from "@/lib/search";
+
+export const runtime = "nodejs";
+
+/**
+ * Geçmişte arama + sayfalama. Sonraki sayfa için dönen nextCursor aynı filtrelerle gönderilir.
+ * GET ?q=&keyword=&source=&from=&to=&cursor=&limit=
+ */
+export async function GET(req: Request) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const parsed = parseSearchParams(new URL(req.url).searchParams);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    try {
+        const data = await searchSummaries(userId, parsed.query);
+        return NextResponse.json({ ok: true, data });
+    } catch (e: unknown) {
+        console.error("Search error:", e);
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
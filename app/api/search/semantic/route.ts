@@ -0,0 +1,43 @@
+// src/app/api/search/semantic/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { semanticSearch } from "@/lib/embeddings/retrieval";
+import { errorMessage } from "@/lib/summaries";
+import { checkQuota } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * Anlam bazlı arama: kullanıcının tüm özetlerinin kaynak parçaları arasında en yakın olanlar.
+ * GET ?q=&limit=
+ */
+export async function GET(req: Request) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const params = new URL(req.url).searchParams;
+    const q = params.get("q")?.trim();
+    if (!q) return NextResponse.json({ ok: false, error: "q gerekli." }, { status: 400 });
+    if (q.length > 2000) return NextResponse.json({ ok: false, error: "Sorgu çok uzun." }, { status: 400 });
+
+    const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+    const k = Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const quota = await checkQuota(userId);
+    if (!quota.ok) {
+        return NextResponse.json(
+            { ok: false, error: quota.error, quota: quota.exceeded },
+            { status: 429, headers: { "Retry-After": quota.retryAfter } }
+        );
+    }
+
+    try {
+        return NextResponse.json({ ok: true, data: await semanticSearch(userId, q, k) });
+    } catch (e: unknown) {
+        console.error("Semantic search error:", e);
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
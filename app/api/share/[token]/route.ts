@@ -0,0 +1,38 @@
+// src/app/api/share/[token]/route.ts
+import { NextResponse } from "next/server";
+import { openShare, ShareError } from "@/lib/share";
+import { errorMessage, isRecord } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Herkese açık (oturum gerekmez; middleware'de public). Paylaşım token'ı tek yetki.
+async function respond(token: string, password: string | null) {
+    try {
+        return NextResponse.json({ ok: true, data: await openShare(token, password) }, { headers: { "Cache-Control": "no-store" } });
+    } catch (e: unknown) {
+        if (e instanceof ShareError) {
+            return NextResponse.json(
+                { ok: false, error: e.message, passwordRequired: e.passwordRequired },
+                { status: e.status, headers: e.retryAfter ? { "Retry-After": e.retryAfter } : undefined }
+            );
+        }
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
+
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+    return respond(token, null);
+}
+
+// Parolalı paylaşım: { password } (parola URL'de taşınmasın diye POST)
+export async function POST(req: Request, { params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+
+    const body: unknown = await req.json().catch(() => null);
+    if (!isRecord(body) || typeof body.password !== "string") {
+        return NextResponse.json({ ok: false, error: "password gerekli." }, { status: 400 });
+    }
+
+    return respond(token, body.password);
+}
@@ -1,18 +1,11 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { normalizeKeywordsFromJson } from "@/lib/summaries";
+import { organizeFilterWhere } from "@/lib/organize";
+import { summaryAccessWhere, workspaceFilterWhere } from "@/lib/workspaces";
 
-type SummaryRow = {
-    id: string;
-    createdAt: Date;
-    source: string;
-    title: string;
-    summary: string;
-    keywords: string;
-    inputText: string | null;
-};
-
-export async function GET() {
+export async function GET(req: Request) {
     const authResult = await auth();
     const userId = authResult.userId;
 
@@ -20,8 +13,12 @@ export async function GET() {
         return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const rows = (await prisma.summary.findMany({
-        where: { userId },
+    const searchParams = new URL(req.url).searchParams;
+    const workspace = searchParams.get("workspace");
+    const organize = organizeFilterWhere(userId, searchParams.get("folder"), searchParams.get("tag"));
+
+    const rows = await prisma.summary.findMany({
+        where: { AND: [summaryAccessWhere(userId), workspaceFilterWhere(workspace), organize] },
         orderBy: { createdAt: "desc" },
         take: 30,
         select: {
@@ -32,14 +29,16 @@ export async function GET() {
             summary: true,
             keywords: true,
             inputText: true,
+            workspaceId: true,
         },
-    })) as SummaryRow[];
+    });
 
     return NextResponse.json({
         ok: true,
-        data: rows.map((r: SummaryRow) => ({
+        // keywords Json kolonu; zaten dizi olarak gelir (JSON.parse gerekmez)
+        data: rows.map((r) => ({
             ...r,
-            keywords: JSON.parse(r.keywords),
+            keywords: normalizeKeywordsFromJson(r.keywords),
         })),
     });
 }
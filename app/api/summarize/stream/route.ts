@@ -0,0 +1,88 @@
+// src/app/api/summarize/stream/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ensureUserRow, errorMessage } from "@/lib/summaries";
+import { runSummarize } from "@/lib/summarize/pipeline";
+import { findCachedForInput } from "@/lib/summarize/cache";
+import { readSummarizeForm } from "@/lib/summarize/request";
+import { checkQuota } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Server-Sent Events ile özet:
+ *   event: progress -> {step, done, total}
+ *   event: token    -> {delta}  (final özet metni)
+ *   event: done     -> kaydedilen Summary (cache'ten geldiyse tek event, cached: true)
+ *   event: error    -> {error}
+ */
+export async function POST(req: Request) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+        }
+
+        await ensureUserRow(userId);
+
+        const read = await readSummarizeForm(req, userId);
+        if (!read.ok) {
+            return NextResponse.json(
+                { ok: false, error: read.error, quota: read.quota },
+                { status: read.status, headers: read.retryAfter ? { "Retry-After": read.retryAfter } : undefined }
+            );
+        }
+
+        // Kota stream açılmadan kontrol edilir ki istemci 429'u normal JSON hata olarak alsın
+        const cached = read.force ? null : await findCachedForInput(read.input);
+        if (!cached) {
+            const quota = await checkQuota(userId);
+            if (!quota.ok) {
+                return NextResponse.json(
+                    { ok: false, error: quota.error, quota: quota.exceeded },
+                    { status: 429, headers: { "Retry-After": quota.retryAfter } }
+                );
+            }
+        }
+
+        const encoder = new TextEncoder();
+
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (event: string, data: unknown) => {
+                    if (req.signal.aborted) throw new Error("İstemci bağlantıyı kapattı.");
+                    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                };
+
+                try {
+                    if (cached) return send("done", cached);
+
+                    const saved = await runSummarize(read.input, {
+                        onProgress: (p) => send("progress", p),
+                        onToken: (delta) => send("token", { delta }),
+                    });
+                    send("done", saved);
+                } catch (e) {
+                    if (!req.signal.aborted) {
+                        console.error("Summarize stream error:", e);
+                        send("error", { error: errorMessage(e) });
+                    }
+                } finally {
+                    try {
+                        controller.close();
+                    } catch {} // istemci iptal ettiyse stream zaten kapalı
+                }
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                "Content-Type": "text/event-stream; charset=utf-8",
+                "Cache-Control": "no-cache, no-transform",
+                Connection: "keep-alive",
+            },
+        });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
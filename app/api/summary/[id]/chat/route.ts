@@ -0,0 +1,92 @@
+// src/app/api/summary/[id]/chat/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { UsageOperation } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSummaryProvider, isProviderName } from "@/lib/ai";
+import { askDocument, listMessages, MAX_QUESTION_CHARS } from "@/lib/chat";
+import { errorMessage, isRecord } from "@/lib/summaries";
+import { checkQuota, recordUsage } from "@/lib/usage";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Sohbet geçmişi (eskiden yeniye)
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    return NextResponse.json({ ok: true, data: await listMessages(id, userId) });
+}
+
+/**
+ * Belgeye soru sor: { message, provider? }
+ * Cevap, özetin kayıtlı kaynak metninden soruya en yakın parçalara dayanır ve "[s. N]" atıfları taşır.
+ * Özeti görebilen herkes (viewer dahil) kendi sohbetinde soru sorabilir.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const body: unknown = await req.json().catch(() => null);
+    if (!isRecord(body)) return NextResponse.json({ ok: false, error: "Geçersiz JSON." }, { status: 400 });
+
+    const message = typeof body.message === "string" ? body.message.trim() : "";
+    if (!message) return NextResponse.json({ ok: false, error: "Soru boş olamaz." }, { status: 400 });
+    if (message.length > MAX_QUESTION_CHARS) {
+        return NextResponse.json({ ok: false, error: `Soru çok uzun (en fazla ${MAX_QUESTION_CHARS} karakter).` }, { status: 400 });
+    }
+    if (body.provider !== undefined && !isProviderName(body.provider)) {
+        return NextResponse.json({ ok: false, error: `Bilinmeyen sağlayıcı: ${String(body.provider)}` }, { status: 400 });
+    }
+
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    const summary = await prisma.summary.findUnique({
+        where: { id },
+        select: { id: true, inputText: true, pageMap: true },
+    });
+    if (!summary) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    if (!summary.inputText?.trim()) {
+        return NextResponse.json({ ok: false, error: "Bu özetin kayıtlı kaynak metni yok; soru sorulamaz." }, { status: 409 });
+    }
+
+    const quota = await checkQuota(userId);
+    if (!quota.ok) {
+        return NextResponse.json(
+            { ok: false, error: quota.error, quota: quota.exceeded },
+            { status: 429, headers: { "Retry-After": quota.retryAfter } }
+        );
+    }
+
+    try {
+        const provider = getSummaryProvider(
+            isProviderName(body.provider) ? body.provider : null,
+            recordUsage({ userId, operation: UsageOperation.chat, summaryId: id })
+        );
+        const data = await askDocument(provider, summary, userId, message);
+        return NextResponse.json({ ok: true, data });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
+
+// Kullanıcının kendi sohbetini temizle (diğer üyelerin sohbetine dokunmaz)
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    await prisma.summaryMessage.deleteMany({ where: { summaryId: id, userId } });
+    return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,41 @@
+// src/app/api/summary/[id]/export/route.ts
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { contentDisposition, EXPORT_FORMATS, ExportError, exportSelect, exportSummary, isExportFormat } from "@/lib/export";
+import { errorMessage } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// GET ?format=md|pdf|docx|json|anki -> dosya indirme (anki: kart varsa)
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const format = new URL(req.url).searchParams.get("format") ?? "md";
+    if (!isExportFormat(format)) {
+        return NextResponse.json({ ok: false, error: `Geçersiz biçim. İzin verilenler: ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+    }
+
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    const row = await prisma.summary.findUnique({ where: { id }, select: exportSelect });
+    if (!row) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    try {
+        const file = await exportSummary(row, format);
+        return new Response(new Uint8Array(file.body), {
+            headers: {
+                "Content-Type": file.contentType,
+                "Content-Disposition": contentDisposition(file.filename),
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (e: unknown) {
+        const status = e instanceof ExportError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,39 @@
+// src/app/api/summary/[id]/highlights/[highlightId]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { deleteHighlight, HighlightError, parseHighlightPatch, updateHighlight } from "@/lib/highlights";
+import { errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Not veya rengi değiştir: { note?, color? } — boş not silinir
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string; highlightId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, highlightId } = await params;
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseHighlightPatch(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    try {
+        return NextResponse.json({ ok: true, data: await updateHighlight(userId, id, highlightId, parsed.patch) });
+    } catch (e: unknown) {
+        const status = e instanceof HighlightError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string; highlightId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, highlightId } = await params;
+    try {
+        await deleteHighlight(userId, id, highlightId);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof HighlightError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
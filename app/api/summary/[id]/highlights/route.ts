@@ -0,0 +1,41 @@
+// src/app/api/summary/[id]/highlights/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createHighlight, HighlightError, listHighlights, parseHighlightInput } from "@/lib/highlights";
+import { ensureUserRow, errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Bu kullanıcının özetteki işaretleri ve notları (sayfa sırasıyla)
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    try {
+        return NextResponse.json({ ok: true, data: await listHighlights(userId, id) });
+    } catch (e: unknown) {
+        const status = e instanceof HighlightError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
+
+// İşaret ekle: { page, quote, rects, color?, note? }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseHighlightInput(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    try {
+        await ensureUserRow(userId);
+        const data = await createHighlight(userId, id, parsed.input);
+        return NextResponse.json({ ok: true, data }, { status: 201 });
+    } catch (e: unknown) {
+        const status = e instanceof HighlightError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,42 @@
+// src/app/api/summary/[id]/pages/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { parsePageMap } from "@/lib/summarize/pages";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+/**
+ * Özetteki "[s. 4–6]" atıflarının kaynağını döner: GET ?from=4&to=6
+ * Metin, kayıtlı inputText'ten pageMap konumlarıyla kesilir.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const url = new URL(req.url);
+    const from = Number(url.searchParams.get("from"));
+    const to = Number(url.searchParams.get("to") ?? from);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < from || to - from > 50) {
+        return NextResponse.json({ ok: false, error: "Geçersiz sayfa aralığı." }, { status: 400 });
+    }
+
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    const row = await prisma.summary.findUnique({
+        where: { id },
+        select: { inputText: true, pageMap: true },
+    });
+    if (!row) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const text = row.inputText ?? "";
+    const pages = parsePageMap(row.pageMap)
+        .filter((s) => s.page >= from && s.page <= to)
+        .map((s) => ({ page: s.page, text: text.slice(s.start, s.end) }));
+
+    return NextResponse.json({ ok: true, data: { from, to, pages } });
+}
@@ -0,0 +1,32 @@
+// src/app/api/summary/[id]/passages/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { findSourcePassages } from "@/lib/summarize/passages";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+/**
+ * Bölümün kaynaktaki karşılığı: GET ?section=<bölüm id'si veya başlığı>
+ * -> { section, pages (eşleşen cümlelerin sayfaları), passages: [{ page, text }] }
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const section = new URL(req.url).searchParams.get("section")?.trim();
+    if (!section) return NextResponse.json({ ok: false, error: "section gerekli." }, { status: 400 });
+
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    const row = await prisma.summary.findUnique({ where: { id }, select: { summary: true, inputText: true, pageMap: true } });
+    if (!row) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const data = findSourcePassages(row, section);
+    if (!data) return NextResponse.json({ ok: false, error: `Bölüm bulunamadı: ${section}` }, { status: 404 });
+
+    return NextResponse.json({ ok: true, data });
+}
@@ -0,0 +1,79 @@
+// src/app/api/summary/[id]/quiz/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { UsageOperation } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSummaryProvider, isProviderName } from "@/lib/ai";
+import { createQuiz, DEFAULT_QUIZ_COUNT, isQuizType, listQuizzes, MAX_QUIZ_COUNT, QUIZ_TYPES } from "@/lib/study/quiz";
+import { errorMessage, isRecord } from "@/lib/summaries";
+import { checkQuota, recordUsage } from "@/lib/usage";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Özetin son quizleri (yeni -> eski)
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    return NextResponse.json({ ok: true, data: await listQuizzes(id) });
+}
+
+/**
+ * Quiz üret: { count?, types?, provider? }
+ * types: "multiple_choice" | "true_false" | "open" alt kümesi (varsayılan hepsi).
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) return NextResponse.json({ ok: false, error: "Geçersiz JSON." }, { status: 400 });
+
+    const count = body.count === undefined ? DEFAULT_QUIZ_COUNT : Number(body.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_QUIZ_COUNT) {
+        return NextResponse.json({ ok: false, error: `Soru sayısı 1-${MAX_QUIZ_COUNT} arası olmalı.` }, { status: 400 });
+    }
+
+    const types = body.types === undefined ? QUIZ_TYPES : body.types;
+    if (!Array.isArray(types) || types.length === 0 || !types.every(isQuizType)) {
+        return NextResponse.json({ ok: false, error: `Geçersiz soru türü. İzin verilenler: ${QUIZ_TYPES.join(", ")}` }, { status: 400 });
+    }
+    if (body.provider !== undefined && !isProviderName(body.provider)) {
+        return NextResponse.json({ ok: false, error: `Bilinmeyen sağlayıcı: ${String(body.provider)}` }, { status: 400 });
+    }
+
+    const access = await authorizeSummary(id, userId, "write");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    const summary = await prisma.summary.findUnique({
+        where: { id },
+        select: { id: true, title: true, summary: true, keywords: true, inputText: true, pageMap: true },
+    });
+    if (!summary) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const quota = await checkQuota(userId);
+    if (!quota.ok) {
+        return NextResponse.json(
+            { ok: false, error: quota.error, quota: quota.exceeded },
+            { status: 429, headers: { "Retry-After": quota.retryAfter } }
+        );
+    }
+
+    try {
+        const provider = getSummaryProvider(
+            isProviderName(body.provider) ? body.provider : null,
+            recordUsage({ userId, operation: UsageOperation.quiz, summaryId: id })
+        );
+        const data = await createQuiz(provider, summary, userId, { count, types: [...new Set(types)] });
+        return NextResponse.json({ ok: true, data });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
@@ -0,0 +1,70 @@
+// src/app/api/summary/[id]/refine/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { SummaryRevisionKind, UsageOperation } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSummaryProvider, isProviderName } from "@/lib/ai";
+import { applySummaryChange, RevisionError } from "@/lib/revisions";
+import { parseRefineRequest, refineSummary, RefineError } from "@/lib/summarize/refine";
+import { errorMessage, isRecord } from "@/lib/summaries";
+import { checkQuota, recordUsage } from "@/lib/usage";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+/**
+ * Bölüm yeniden üret / talimatla düzelt: { section?, instruction?, provider? }
+ * Kayıtlı inputText kullanılır; sonuç yeni "refine" revizyonu olur (önceki hâller geçmişte kalır).
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseRefineRequest(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    const provider = isRecord(body) ? body.provider : undefined;
+    if (provider !== undefined && !isProviderName(provider)) {
+        return NextResponse.json({ ok: false, error: `Bilinmeyen sağlayıcı: ${String(provider)}` }, { status: 400 });
+    }
+
+    const access = await authorizeSummary(id, userId, "write");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    const summary = await prisma.summary.findUnique({
+        where: { id },
+        select: {
+            id: true,
+            userId: true,
+            title: true,
+            summary: true,
+            keywords: true,
+            inputText: true,
+            pageMap: true,
+            templateKey: true,
+            templateId: true,
+        },
+    });
+    if (!summary) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const quota = await checkQuota(userId);
+    if (!quota.ok) {
+        return NextResponse.json(
+            { ok: false, error: quota.error, quota: quota.exceeded },
+            { status: 429, headers: { "Retry-After": quota.retryAfter } }
+        );
+    }
+
+    try {
+        const usage = recordUsage({ userId, operation: UsageOperation.refine, summaryId: id });
+        const patch = await refineSummary(getSummaryProvider(isProviderName(provider) ? provider : null, usage), summary, parsed.request);
+        const data = await applySummaryChange(id, userId, patch, SummaryRevisionKind.refine);
+        return NextResponse.json({ ok: true, data });
+    } catch (e: unknown) {
+        const status = e instanceof RefineError || e instanceof RevisionError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,25 @@
+// src/app/api/summary/[id]/revisions/[revisionId]/restore/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { restoreRevision, RevisionError } from "@/lib/revisions";
+import { errorMessage } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Revizyonu geri yükle; geçmiş silinmez, geri yükleme yeni bir "restore" revizyonu olur.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string; revisionId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, revisionId } = await params;
+    const access = await authorizeSummary(id, userId, "write");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    try {
+        return NextResponse.json({ ok: true, data: await restoreRevision(id, userId, revisionId) });
+    } catch (e: unknown) {
+        const status = e instanceof RevisionError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,30 @@
+// src/app/api/summary/[id]/revisions/diff/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { diffRevisions, RevisionError } from "@/lib/revisions";
+import { errorMessage } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// GET ?from=<revizyonId>&to=<revizyonId|current> (to varsayılan: özetin şu anki hâli)
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const sp = new URL(req.url).searchParams;
+    const from = sp.get("from");
+    const to = sp.get("to") || "current";
+    if (!from) return NextResponse.json({ ok: false, error: "from parametresi gerekli." }, { status: 400 });
+
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    try {
+        return NextResponse.json({ ok: true, data: await diffRevisions(id, from, to) });
+    } catch (e: unknown) {
+        const status = e instanceof RevisionError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,19 @@
+// src/app/api/summary/[id]/revisions/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { listRevisions } from "@/lib/revisions";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Revizyonlar (yeni -> eski); hiç düzenlenmemiş özette boş liste
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const access = await authorizeSummary(id, userId, "read");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    return NextResponse.json({ ok: true, data: await listRevisions(id) });
+}
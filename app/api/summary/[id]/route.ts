@@ -1,27 +1,56 @@
+// src/app/api/summary/[id]/route.ts
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
+import { SummaryRevisionKind } from "@prisma/client";
+import { releaseBlobs, storageKeysFor } from "@/lib/attachments";
 import { prisma } from "@/lib/prisma";
+import { applySummaryChange, parseSummaryPatch, RevisionError } from "@/lib/revisions";
+import { errorMessage } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
 
-export async function DELETE(
-    req: Request,
-    { params }: { params: { id: string } }
-) {
-    const { userId } = await auth(); // ✅ await ekledik
+export const runtime = "nodejs";
 
-    if (!userId) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+/**
+ * Özeti düzenle: { title?, summary?, keywords? }
+ * Her değişiklik yazarı ve zamanıyla SummaryRevision olarak saklanır.
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
 
-    const deleted = await prisma.summary.deleteMany({
-        where: {
-            id: params.id,
-            userId: userId,
-        },
-    });
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseSummaryPatch(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
 
-    if (deleted.count === 0) {
-        return NextResponse.json({ error: "Not found" }, { status: 404 });
+    const access = await authorizeSummary(id, userId, "write");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    try {
+        const data = await applySummaryChange(id, userId, parsed.patch, SummaryRevisionKind.edit);
+        return NextResponse.json({ ok: true, data });
+    } catch (e: unknown) {
+        const status = e instanceof RevisionError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
     }
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    // Çalışma alanında: owner her özeti, editor sadece kendi eklediğini silebilir
+    const access = await authorizeSummary(id, userId, "delete");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    const keys = await storageKeysFor([id]);
+    const deleted = await prisma.summary.deleteMany({ where: { id } });
+    if (deleted.count === 0) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    // Başka özete bağlı olmayan orijinaller depodan da silinir.
+    await releaseBlobs(keys);
 
-    return NextResponse.json({ success: true });
-}
\ No newline at end of file
+    return NextResponse.json({ ok: true });
+}
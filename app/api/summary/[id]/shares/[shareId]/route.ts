@@ -0,0 +1,26 @@
+// src/app/api/summary/[id]/shares/[shareId]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revokeShare, ShareError } from "@/lib/share";
+import { errorMessage } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Paylaşımı iptal et; bağlantı hemen 404 döner, görüntülenme sayısı kayıtta kalır.
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string; shareId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, shareId } = await params;
+    const access = await authorizeSummary(id, userId, "write");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    try {
+        await revokeShare(id, shareId);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof ShareError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
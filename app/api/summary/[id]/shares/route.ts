@@ -0,0 +1,44 @@
+// src/app/api/summary/[id]/shares/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createShare, listShares, parseShareOptions } from "@/lib/share";
+import { errorMessage } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Özetin paylaşım bağlantıları (iptal edilenler dahil, yeniden eskiye)
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const access = await authorizeSummary(id, userId, "write");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    return NextResponse.json({ ok: true, data: await listShares(id) });
+}
+
+/**
+ * Yeni paylaşım bağlantısı: { expiresInDays?, password? }
+ * Bağlantı /s/<token> adresinde salt okunur açılır.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseShareOptions(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    const access = await authorizeSummary(id, userId, "write");
+    if (!access.ok) return NextResponse.json({ ok: false, error: access.error }, { status: access.status });
+
+    try {
+        return NextResponse.json({ ok: true, data: await createShare(id, userId, parsed.options) }, { status: 201 });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
@@ -0,0 +1,22 @@
+// src/app/api/summary/[id]/tags/[tagId]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { OrganizeError, untagSummary } from "@/lib/organize";
+import { errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Etiketi özetten kaldır (etiket silinmez)
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string; tagId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, tagId } = await params;
+    try {
+        await untagSummary(userId, id, tagId);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
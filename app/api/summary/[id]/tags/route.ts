@@ -0,0 +1,40 @@
+// src/app/api/summary/[id]/tags/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { listSummaryTags, OrganizeError, parseName, tagSummary } from "@/lib/organize";
+import { ensureUserRow, errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Özetteki (bu kullanıcının) etiketleri
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    try {
+        return NextResponse.json({ ok: true, data: await listSummaryTags(userId, id) });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
+
+// Etiket ekle: { name } — etiket yoksa oluşturulur (anahtar kelimeden tek tıkla)
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseName(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    try {
+        await ensureUserRow(userId);
+        return NextResponse.json({ ok: true, data: await tagSummary(userId, id, parsed.name) });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
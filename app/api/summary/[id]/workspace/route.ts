@@ -0,0 +1,27 @@
+// src/app/api/summary/[id]/workspace/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { errorMessage, isRecord } from "@/lib/summaries";
+import { moveSummary, WorkspaceError } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Özeti çalışma alanına taşı: { workspaceId } — null kişisel alana geri alır.
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const body: unknown = await req.json().catch(() => null);
+    if (!isRecord(body) || (body.workspaceId !== null && typeof body.workspaceId !== "string")) {
+        return NextResponse.json({ ok: false, error: "workspaceId metin veya null olmalı." }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json({ ok: true, data: await moveSummary(id, userId, body.workspaceId || null) });
+    } catch (e: unknown) {
+        const status = e instanceof WorkspaceError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
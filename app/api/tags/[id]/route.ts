@@ -0,0 +1,40 @@
+// src/app/api/tags/[id]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { deleteTag, OrganizeError, parseName, renameTag } from "@/lib/organize";
+import { errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Yeniden adlandır: { name }
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseName(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    try {
+        return NextResponse.json({ ok: true, data: await renameTag(userId, id, parsed.name) });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
+
+// Etiketi sil; özetlerden de kalkar.
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    try {
+        await deleteTag(userId, id);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
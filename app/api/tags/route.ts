@@ -0,0 +1,33 @@
+// src/app/api/tags/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createTag, listTags, OrganizeError, parseName } from "@/lib/organize";
+import { ensureUserRow, errorMessage } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+// Kullanıcının etiketleri (ada göre, özet sayısıyla)
+export async function GET() {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    return NextResponse.json({ ok: true, data: await listTags(userId) });
+}
+
+// { name }
+export async function POST(req: Request) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseName(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    try {
+        await ensureUserRow(userId);
+        return NextResponse.json({ ok: true, data: await createTag(userId, parsed.name) }, { status: 201 });
+    } catch (e: unknown) {
+        const status = e instanceof OrganizeError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,77 @@
+// src/app/api/templates/[id]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { isRecord } from "@/lib/summaries";
+import { normalizeSections } from "@/lib/summarize/templates";
+
+export const runtime = "nodejs";
+
+// Sadece özeti etkileyen alanlar (bölümler, talimat, uzunluk) değişince version artar; eski özetler
+// hangi sürümle üretildiğini korur. Ad değişikliği sürüm açmaz.
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const body: unknown = await req.json().catch(() => null);
+    if (!isRecord(body)) return NextResponse.json({ ok: false, error: "Geçersiz JSON." }, { status: 400 });
+
+    const data: { name?: string; sections?: string[]; instructions?: string | null; lengthRule?: string | null } = {};
+    if ("name" in body) {
+        const name = typeof body.name === "string" ? body.name.trim().slice(0, 80) : "";
+        if (!name) return NextResponse.json({ ok: false, error: "Şablon adı boş olamaz." }, { status: 400 });
+        data.name = name;
+    }
+    if ("sections" in body) {
+        const sections = normalizeSections(body.sections);
+        if (sections.length === 0) {
+            return NextResponse.json({ ok: false, error: "En az 1 bölüm başlığı gerekli." }, { status: 400 });
+        }
+        data.sections = sections;
+    }
+    if ("instructions" in body) data.instructions = typeof body.instructions === "string" ? body.instructions.slice(0, 2000) : null;
+    if ("lengthRule" in body) data.lengthRule = typeof body.lengthRule === "string" ? body.lengthRule.slice(0, 40) : null;
+
+    if (Object.keys(data).length === 0) {
+        return NextResponse.json(
+            { ok: false, error: "Güncellenecek alan yok (name, sections, instructions, lengthRule)." },
+            { status: 400 }
+        );
+    }
+
+    const current = await prisma.summaryTemplate.findFirst({
+        where: { id, userId },
+        select: { name: true, sections: true, instructions: true, lengthRule: true },
+    });
+    if (!current) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const contentChanged =
+        (data.sections !== undefined &&
+            JSON.stringify(data.sections) !== JSON.stringify(normalizeSections(current.sections))) ||
+        (data.instructions !== undefined && data.instructions !== current.instructions) ||
+        (data.lengthRule !== undefined && data.lengthRule !== current.lengthRule);
+    if (!contentChanged && (data.name === undefined || data.name === current.name)) return NextResponse.json({ ok: true });
+
+    const updated = await prisma.summaryTemplate.updateMany({
+        where: { id, userId },
+        data: contentChanged ? { ...data, version: { increment: 1 } } : data,
+    });
+
+    if (updated.count === 0) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+
+    const deleted = await prisma.summaryTemplate.deleteMany({ where: { id, userId } });
+    if (deleted.count === 0) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    return NextResponse.json({ ok: true });
+}
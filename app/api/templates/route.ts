@@ -0,0 +1,73 @@
+// src/app/api/templates/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { ensureUserRow, isRecord } from "@/lib/summaries";
+import { BUILTIN_TEMPLATES, normalizeSections } from "@/lib/summarize/templates";
+
+export const runtime = "nodejs";
+
+const templateSelect = {
+    id: true,
+    name: true,
+    instructions: true,
+    sections: true,
+    lengthRule: true,
+    version: true,
+    updatedAt: true,
+} as const;
+
+// Yerleşik profiller + kullanıcının kendi şablonları
+export async function GET() {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const custom = await prisma.summaryTemplate.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        select: templateSelect,
+    });
+
+    return NextResponse.json({
+        ok: true,
+        data: {
+            builtin: BUILTIN_TEMPLATES.map((t) => ({
+                key: t.key,
+                name: t.name,
+                version: t.version,
+                sections: t.sections,
+                lengthRule: t.lengthRule,
+            })),
+            custom: custom.map((t) => ({ ...t, sections: normalizeSections(t.sections) })),
+        },
+    });
+}
+
+export async function POST(req: Request) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body: unknown = await req.json().catch(() => null);
+    if (!isRecord(body)) return NextResponse.json({ ok: false, error: "Geçersiz JSON." }, { status: 400 });
+
+    const name = typeof body.name === "string" ? body.name.trim().slice(0, 80) : "";
+    const sections = normalizeSections(body.sections);
+    if (!name || sections.length === 0) {
+        return NextResponse.json({ ok: false, error: "name ve en az 1 bölüm başlığı (sections) gerekli." }, { status: 400 });
+    }
+
+    await ensureUserRow(userId);
+
+    const created = await prisma.summaryTemplate.create({
+        data: {
+            userId,
+            name,
+            sections,
+            instructions: typeof body.instructions === "string" ? body.instructions.slice(0, 2000) : null,
+            lengthRule: typeof body.lengthRule === "string" ? body.lengthRule.slice(0, 40) : null,
+        },
+        select: templateSelect,
+    });
+
+    return NextResponse.json({ ok: true, data: { ...created, sections } }, { status: 201 });
+}
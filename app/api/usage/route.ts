@@ -0,0 +1,20 @@
+// src/app/api/usage/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { errorMessage } from "@/lib/summaries";
+import { getUsageReport } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+// Plan, günlük/aylık tüketim ve limitler, bu ayın model/işlem kırılımı, son 30 gün
+export async function GET() {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const data = await getUsageReport(userId);
+        return NextResponse.json({ ok: true, data });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
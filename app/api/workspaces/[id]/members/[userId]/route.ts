@@ -0,0 +1,39 @@
+// src/app/api/workspaces/[id]/members/[userId]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { errorMessage, isRecord } from "@/lib/summaries";
+import { removeMember, updateMemberRole, WorkspaceError } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Rol değiştir: { role } (sadece owner)
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string; userId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, userId: memberId } = await params;
+    const body: unknown = await req.json().catch(() => null);
+
+    try {
+        const data = await updateMemberRole(id, userId, memberId, isRecord(body) ? body.role : undefined);
+        return NextResponse.json({ ok: true, data });
+    } catch (e: unknown) {
+        const status = e instanceof WorkspaceError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
+
+// Üyeyi çıkar (owner) veya alandan ayrıl (kendi id'si)
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string; userId: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id, userId: memberId } = await params;
+    try {
+        await removeMember(id, userId, memberId);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof WorkspaceError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,36 @@
+// src/app/api/workspaces/[id]/members/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { errorMessage } from "@/lib/summaries";
+import { addMember, listMembers, WorkspaceError } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    try {
+        return NextResponse.json({ ok: true, data: await listMembers(id, userId) });
+    } catch (e: unknown) {
+        const status = e instanceof WorkspaceError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
+
+// Üye ekle: { email, role? } (sadece owner; Clerk'ten gelen alanlarda 409)
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const body: unknown = await req.json().catch(() => null);
+
+    try {
+        return NextResponse.json({ ok: true, data: await addMember(id, userId, body) }, { status: 201 });
+    } catch (e: unknown) {
+        const status = e instanceof WorkspaceError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
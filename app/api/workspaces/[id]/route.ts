@@ -0,0 +1,22 @@
+// src/app/api/workspaces/[id]/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { errorMessage } from "@/lib/summaries";
+import { deleteWorkspace, WorkspaceError } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Sadece owner. Alandaki özetler silinmez, oluşturanların kişisel alanına döner.
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    try {
+        await deleteWorkspace(id, userId);
+        return NextResponse.json({ ok: true });
+    } catch (e: unknown) {
+        const status = e instanceof WorkspaceError ? e.status : 500;
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status });
+    }
+}
@@ -0,0 +1,38 @@
+// src/app/api/workspaces/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ensureUserRow, errorMessage } from "@/lib/summaries";
+import { createWorkspace, listWorkspaces, parseWorkspaceName, syncClerkOrganization } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+// Üyesi olunan çalışma alanları (rolüyle). Aktif Clerk organizasyonu varsa önce eşitlenir.
+export async function GET() {
+    const { userId, orgId, orgRole, orgSlug } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    try {
+        await ensureUserRow(userId);
+        await syncClerkOrganization(userId, { orgId, orgRole, orgSlug });
+        return NextResponse.json({ ok: true, data: await listWorkspaces(userId) });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
+
+// Yeni çalışma alanı: { name } — oluşturan owner olur.
+export async function POST(req: Request) {
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body: unknown = await req.json().catch(() => null);
+    const parsed = parseWorkspaceName(body);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+    try {
+        await ensureUserRow(userId);
+        return NextResponse.json({ ok: true, data: await createWorkspace(userId, parsed.name) }, { status: 201 });
+    } catch (e: unknown) {
+        return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+    }
+}
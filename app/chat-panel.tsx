@@ -0,0 +1,131 @@
+"use client";
+
+// src/app/chat-panel.tsx
+// Belgeyle sohbet: kullanıcının bu özetle yaptığı soru-cevap geçmişi; cevaplardaki sayfa atıfları tıklanabilir.
+import { useEffect, useState } from "react";
+import { isErrResponse, isOkResponse, type ChatAnswerData, type ChatMessage } from "./api-types";
+import { renderWithCitations, type CiteHandler } from "./summary-view";
+
+export function ChatPanel({ summaryId, onCite, onStatus }: { summaryId: string; onCite: CiteHandler; onStatus: (s: string) => void }) {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [input, setInput] = useState<string>("");
+    const [loading, setLoading] = useState<boolean>(false);
+
+    // Seçili özet değişince o belgeyle yapılan sohbeti yükle
+    useEffect(() => {
+        setMessages([]);
+        setInput("");
+
+        let alive = true;
+        (async () => {
+            const res = await fetch(`/api/summary/${summaryId}/chat`);
+            const json: unknown = await res.json().catch(() => null);
+            if (alive && res.ok && isOkResponse(json)) setMessages(json.data as ChatMessage[]);
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, [summaryId]);
+
+    async function send() {
+        const message = input.trim();
+        if (!message || loading) return;
+
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/summary/${summaryId}/chat`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ message }),
+            });
+            const json: unknown = await res.json().catch(() => null);
+            if (!res.ok || !isOkResponse(json)) {
+                onStatus(isErrResponse(json) ? json.error : `Soru gönderilemedi (${res.status}).`);
+                return;
+            }
+            const d = json.data as ChatAnswerData;
+            setMessages((prev) => [...prev, d.question, d.answer]);
+            setInput("");
+        } catch (e) {
+            console.error(e);
+            onStatus("Soru gönderilemedi (ağ hatası).");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function clear() {
+        const r = await fetch(`/api/summary/${summaryId}/chat`, { method: "DELETE" });
+        if (!r.ok) {
+            onStatus(`Sohbet silinemedi (${r.status}).`);
+            return;
+        }
+        setMessages([]);
+    }
+
+    return (
+        <aside
+            style={{
+                width: 340,
+                marginTop: 20,
+                padding: 16,
+                border: "1px solid #eee",
+                borderRadius: 12,
+                display: "flex",
+                flexDirection: "column",
+                gap: 10,
+            }}
+        >
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <strong>Belgeye Sor</strong>
+                {messages.length > 0 && (
+                    <button onClick={clear} style={{ fontSize: 11 }}>
+                        Sohbeti temizle
+                    </button>
+                )}
+            </div>
+
+            <div style={{ display: "flex", flexDirection: "column", gap: 8, maxHeight: 420, overflowY: "auto" }}>
+                {messages.length === 0 ? (
+                    <div style={{ color: "#777", fontSize: 13 }}>Belge hakkında bir soru sorun; cevaplar sayfa atfı içerir.</div>
+                ) : (
+                    messages.map((m) => (
+                        <div
+                            key={m.id}
+                            style={{
+                                alignSelf: m.role === "user" ? "flex-end" : "flex-start",
+                                maxWidth: "90%",
+                                padding: "6px 10px",
+                                borderRadius: 10,
+                                fontSize: 13,
+                                whiteSpace: "pre-wrap",
+                                color: "#000",
+                                background: m.role === "user" ? "#e8f0fe" : "#f4f4f4",
+                            }}
+                        >
+                            {m.role === "assistant" ? renderWithCitations(m.content, onCite) : m.content}
+                        </div>
+                    ))
+                )}
+            </div>
+
+            <textarea
+                value={input}
+                rows={3}
+                placeholder="ör. Yöntem bölümünde hangi veri seti kullanılmış?"
+                disabled={loading}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                        e.preventDefault();
+                        send();
+                    }
+                }}
+                style={{ fontFamily: "inherit" }}
+            />
+            <button onClick={send} disabled={loading || !input.trim()} style={{ padding: "8px 12px" }}>
+                {loading ? "Cevaplanıyor…" : "Sor"}
+            </button>
+        </aside>
+    );
+}
@@ -0,0 +1,5 @@
+// src/app/format.ts
+// Ana sayfa ve panellerinin ortak tarih biçimi.
+export function formatDateTR(ts: number) {
+    return new Date(ts).toLocaleString("tr-TR");
+}
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { ClerkProvider, SignedIn, SignedOut, SignInButton, SignUpButton, UserButton } from "@clerk/nextjs";
 import { Geist, Geist_Mono } from "next/font/google";
+import Link from "next/link";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -36,6 +37,9 @@ export default function RootLayout({ children }: { children: React.ReactNode })
                     </SignedOut>
 
                     <SignedIn>
+                        <Link href="/usage" className="topBtn">
+                            Kullanım
+                        </Link>
                         <UserButton />
                     </SignedIn>
                 </div>
@@ -1,49 +1,89 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+    isErrResponse,
+    isOkResponse,
+    type JobData,
+    type SearchData,
+    type SourcePagesData,
+    type StreamProgress,
+    type SummarizeData,
+    type SummaryData,
+} from "./api-types";
+import { ChatPanel } from "./chat-panel";
+import { formatDateTR } from "./format";
+import { PdfViewer, type SourcePassage } from "./pdf-viewer";
+import { loadPdfjs } from "./pdfjs";
+import { RevisionPanel } from "./revision-panel";
+import { SharePanel } from "./share-panel";
+import { StudyPanel } from "./study-panel";
+import { SummaryTags } from "./summary-tags";
+import { SummaryView } from "./summary-view";
+import { TemplateSelect } from "./template-select";
+import { WorkspaceMoveSelect, WorkspaceScopeSelect, type Workspace, type WorkspaceRole } from "./workspaces";
 
 // --- Tipler ---
 type ApiSummary = {
+    id?: string; // DB id (stream sırasında henüz yok)
     title: string;
     summary: string;
     keywords: string[];
-    source: "pdf" | "image" | "pdf+image";
+    source: "pdf" | "image" | "pdf+image" | "docx" | "pptx" | "txt" | "markdown" | "html" | "epub" | "url" | "text";
+    template?: string; // ör. "academic v2"
+    ocrConfidence?: number; // taranmış PDF: sayfa ortalaması (0-100)
+    workspaceId?: string | null; // null: kişisel özet
+};
+
+type Folder = { id: string; name: string; summaryCount: number };
+
+type Tag = { id: string; name: string; summaryCount: number };
+
+// Geçmiş öğesi klasöre sürüklenirken taşınan veri türü
+const SUMMARY_DRAG_TYPE = "application/x-summary-id";
+
+type SourcePages = { summaryId: string; ref: string; pages: Array<{ page: number; text: string }> };
+
+type JobState = {
+    id: string;
+    status: JobData["status"];
+    progress: string;
+    done: number;
+    total: number;
 };
 
 type HistoryItem = {
     id: string; // ✅ artık DB id
     createdAt: number; // ✅ ms timestamp (UI için)
     pdfName?: string;
+    sourceUrl?: string;
     imageCount?: number;
     result: ApiSummary;
 };
 
 // --- Yardımcı Fonksiyonlar ---
-function formatDateTR(ts: number) {
-    return new Date(ts).toLocaleString("tr-TR");
-}
-
 function clip(s: string, n: number) {
     const t = (s || "").trim().replace(/\s+/g, " ");
     return t.length <= n ? t : t.slice(0, n) + "…";
 }
 
-function isOkResponse(v: unknown): v is { ok: true; data: any } {
-    if (typeof v !== "object" || v === null) return false;
-    const o = v as Record<string, unknown>;
-    return o.ok === true && "data" in o;
-}
-
-function isErrResponse(v: unknown): v is { ok: false; error: string } {
-    if (typeof v !== "object" || v === null) return false;
-    const o = v as Record<string, unknown>;
-    return o.ok === false && typeof o.error === "string";
+function hostOf(url: string) {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
 }
 
 function sleep(ms: number) {
     return new Promise((r) => setTimeout(r, ms));
 }
 
+// Job sorgulama: art arda bu kadar başarısız sorgu ya da bu süre dolunca bırakılır (sunucu işi kaybetmiş olabilir).
+const POLL_INTERVAL_MS = 1500;
+const POLL_MAX_FAILURES = 20;
+const POLL_MAX_MS = 60 * 60 * 1000;
+
 /**
  * 503 (high demand) gibi geçici hatalarda retry yapan fetch wrapper.
  */
@@ -80,29 +120,69 @@ function toUiSource(s: unknown): ApiSummary["source"] {
     if (s === "pdf") return "pdf";
     if (s === "image") return "image";
     if (s === "pdf_image" || s === "pdf+image") return "pdf+image";
+    if (s === "docx" || s === "pptx" || s === "txt" || s === "markdown" || s === "html" || s === "epub") return s;
+    if (s === "url" || s === "text") return s;
     return "pdf";
 }
 
+function templateLabel(x: Pick<SummaryData, "templateKey" | "templateVersion">): string | undefined {
+    if (typeof x.templateKey !== "string") return undefined;
+    return typeof x.templateVersion === "number" ? `${x.templateKey} v${x.templateVersion}` : x.templateKey;
+}
+
+function averageOcrConfidence(v: SummaryData["ocrPages"]): number | undefined {
+    if (!Array.isArray(v) || v.length === 0) return undefined;
+    const values = v.map((p) => Number(p?.confidence)).filter((n) => Number.isFinite(n));
+    if (values.length === 0) return undefined;
+    return Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+}
+
 // ✅ keywords Json -> string[]
 function normalizeKeywords(v: unknown): string[] {
     if (Array.isArray(v)) return v.filter((x) => typeof x === "string") as string[];
     return [];
 }
 
-// ✅ PDF -> PNG Dönüştürücü (TS uyumlu, GlobalWorkerOptions hatasız)
-async function pdfToImages(pdfFile: File, maxPages = 2): Promise<File[]> {
-    const pdfjs = (await import("pdfjs-dist/legacy/build/pdf.mjs")) as unknown as {
-        version: string;
-        GlobalWorkerOptions: { workerSrc: string };
-        getDocument: (src: { data: Uint8Array }) => {
-            promise: Promise<{
-                numPages: number;
-                getPage: (n: number) => Promise<any>;
-            }>;
-        };
+// API özeti -> sonuç paneli + geçmiş öğesi
+function toHistoryItem(x: SummaryData): HistoryItem {
+    return {
+        id: x.id,
+        createdAt: new Date(x.createdAt).getTime(),
+        pdfName: x.pdfName ?? undefined,
+        sourceUrl: x.sourceUrl ?? undefined,
+        imageCount: x.imageCount ?? undefined,
+        result: {
+            id: x.id,
+            title: x.title,
+            summary: x.summary,
+            keywords: normalizeKeywords(x.keywords),
+            source: toUiSource(x.source),
+            template: templateLabel(x),
+            ocrConfidence: averageOcrConfidence(x.ocrPages),
+            workspaceId: x.workspaceId,
+        },
     };
+}
+
+const DOCUMENT_ACCEPT = ".pdf,.docx,.pptx,.txt,.md,.markdown,.html,.htm,.epub";
+
+// Anki dışa aktarımı kart gerektirdiği için çalışma modundaki kart sekmesinde
+const EXPORT_OPTIONS = [
+    { format: "md", label: "Markdown" },
+    { format: "pdf", label: "PDF" },
+    { format: "docx", label: "Word" },
+    { format: "json", label: "JSON" },
+];
+
+const BULK_EXPORT_OPTIONS = ["md", "pdf", "docx", "json"];
+
+function isPdfFile(f: File) {
+    return f.type === "application/pdf" || /\.pdf$/i.test(f.name);
+}
 
-    pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/legacy/build/pdf.worker.min.mjs`;
+// ✅ PDF -> PNG Dönüştürücü (TS uyumlu, GlobalWorkerOptions hatasız)
+async function pdfToImages(pdfFile: File, maxPages = 2): Promise<File[]> {
+    const pdfjs = await loadPdfjs();
 
     const ab = await pdfFile.arrayBuffer();
     const loadingTask = pdfjs.getDocument({ data: new Uint8Array(ab) });
@@ -138,10 +218,56 @@ async function pdfToImages(pdfFile: File, maxPages = 2): Promise<File[]> {
     return out;
 }
 
+type AttachmentItem = { id: string; kind: "document" | "image"; name: string; contentType: string; size: number };
+
+function formatSize(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Yüklenen orijinaller; PDF ve görseller tarayıcıda da açılabilir, PDF görüntüleyicide de
+function SummaryAttachments({ items, onView }: { items: AttachmentItem[]; onView: (id: string) => void }) {
+    if (items.length === 0) return null;
+
+    return (
+        <div style={{ marginTop: 6, display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center", fontSize: 12, color: "#333" }}>
+            Orijinaller:
+            {items.map((a) => (
+                <span key={a.id}>
+                    <a href={`/api/attachments/${a.id}`} download>
+                        {a.kind === "image" ? "🖼️" : "📄"} {a.name}
+                    </a>{" "}
+                    ({formatSize(a.size)})
+                    {a.contentType === "application/pdf" ? (
+                        <>
+                            {" "}
+                            <button onClick={() => onView(a.id)} style={{ fontSize: 11 }}>
+                                Görüntüle
+                            </button>
+                        </>
+                    ) : (
+                        a.contentType.startsWith("image/") && (
+                            <>
+                                {" "}
+                                <a href={`/api/attachments/${a.id}?inline=1`} target="_blank" rel="noopener noreferrer">
+                                    Aç
+                                </a>
+                            </>
+                        )
+                    )}
+                </span>
+            ))}
+        </div>
+    );
+}
+
 // --- Ana Sayfa ---
 export default function Page() {
     const [pdf, setPdf] = useState<File | null>(null);
     const [images, setImages] = useState<File[]>([]);
+    const [sourceUrl, setSourceUrl] = useState<string>("");
+    const [pastedText, setPastedText] = useState<string>("");
 
     const [pdfImages, setPdfImages] = useState<File[]>([]);
     const [pdfConvertStatus, setPdfConvertStatus] = useState<string>("");
@@ -149,15 +275,60 @@ export default function Page() {
     const [summary, setSummary] = useState<ApiSummary | null>(null);
     const [status, setStatus] = useState<string>("");
     const [loading, setLoading] = useState<boolean>(false);
+    const [job, setJob] = useState<JobState | null>(null);
+    const [streamMode, setStreamMode] = useState<boolean>(false);
+    const [forceRegenerate, setForceRegenerate] = useState<boolean>(false);
+    const [template, setTemplate] = useState<string>("academic");
+    const [ocrLangs, setOcrLangs] = useState<string>("tur+eng");
+    const [pageRange, setPageRange] = useState<string>("");
+    const [sourcePages, setSourcePages] = useState<SourcePages | null>(null);
+    const [attachments, setAttachments] = useState<AttachmentItem[]>([]);
+    const [viewer, setViewer] = useState<{ attachmentId: string; page: number; nonce: number } | null>(null);
+    const [viewerPassages, setViewerPassages] = useState<SourcePassage[]>([]);
+    const [viewerTerms, setViewerTerms] = useState<string[]>([]);
+    const [studyMode, setStudyMode] = useState<boolean>(false);
+    // Düzenleme modu: anahtar kelimeler virgülle ayrılmış tek satır olarak düzenlenir
+    const [editDraft, setEditDraft] = useState<{ title: string; summary: string; keywords: string } | null>(null);
+    const [editSaving, setEditSaving] = useState<boolean>(false);
+    const [showRevisions, setShowRevisions] = useState<boolean>(false);
+    const [showShares, setShowShares] = useState<boolean>(false);
+    // Yeniden üretim: çalışan isteğin bölüm id'si ("*": talimatla tüm özet)
+    const [refineInstruction, setRefineInstruction] = useState<string>("");
+    const [refining, setRefining] = useState<string | null>(null);
+    const streamAbort = useRef<AbortController | null>(null);
 
     const [history, setHistory] = useState<HistoryItem[]>([]);
     const [fileKey, setFileKey] = useState<number>(0);
 
-    // ✅ DB'den geçmişi çek (multi-tenant: backend userId ile filtreler)
-    async function refreshHistory() {
+    // Geçmiş arama + sonsuz kaydırma: sıradaki sayfanın cursor'ı (null: sayfa kalmadı)
+    const [historyQuery, setHistoryQuery] = useState<string>("");
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [workspaceScope, setWorkspaceScope] = useState<string>(""); // "": hepsi, "personal" veya alan id'si
+    const [folders, setFolders] = useState<Folder[]>([]);
+    const [tags, setTags] = useState<Tag[]>([]);
+    const [folderFilter, setFolderFilter] = useState<string | null>(null);
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [dropFolder, setDropFolder] = useState<string | null>(null); // sürükleme sırasında üzerinde olunan klasör
+    const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+    const [historyLoading, setHistoryLoading] = useState<boolean>(false);
+    const historyRequest = useRef(0);
+    const historySentinel = useRef<HTMLDivElement | null>(null);
+
+    // ✅ DB'den geçmişi çek (backend kişisel + üyesi olunan alanlara göre filtreler); cursor verilirse sonuna ekler
+    async function loadHistory(cursor: string | null = null) {
+        const reqId = ++historyRequest.current;
+        const params = new URLSearchParams();
+        if (historyQuery.trim()) params.set("q", historyQuery.trim());
+        if (workspaceScope) params.set("workspace", workspaceScope);
+        if (folderFilter) params.set("folder", folderFilter);
+        if (tagFilter) params.set("tag", tagFilter);
+        if (cursor) params.set("cursor", cursor);
+
+        setHistoryLoading(true);
         try {
-            const res = await fetch("/api/history", { method: "GET" });
+            const res = await fetch(`/api/search?${params}`, { method: "GET" });
             const json: unknown = await res.json().catch(() => null);
+            if (reqId !== historyRequest.current) return; // daha yeni bir arama başladı
 
             if (!res.ok) {
                 if (res.status === 401) setHistory([]); // giriş yoksa boş
@@ -170,41 +341,138 @@ export default function Page() {
                 return;
             }
 
-            const rows = (json as any).data as any[];
-            const mapped: HistoryItem[] = rows.map((x) => {
-                const uiSummary: ApiSummary = {
-                    title: String(x.title ?? ""),
-                    summary: String(x.summary ?? ""),
-                    keywords: normalizeKeywords(x.keywords),
-                    source: toUiSource(x.source),
-                };
-
-                return {
-                    id: String(x.id),
-                    createdAt: new Date(x.createdAt).getTime(),
-                    pdfName: x.pdfName ?? undefined,
-                    imageCount: typeof x.imageCount === "number" ? x.imageCount : undefined,
-                    result: uiSummary,
-                };
-            });
-
-            setHistory(mapped);
+            const d = json.data as SearchData;
+            const items = d.items.map(toHistoryItem);
+            setHistory((prev) => (cursor ? [...prev, ...items.filter((x) => !prev.some((p) => p.id === x.id))] : items));
+            setHistoryCursor(d.nextCursor);
         } catch (e) {
             console.error(e);
             setStatus("Geçmiş alınamadı (ağ hatası).");
+        } finally {
+            if (reqId === historyRequest.current) setHistoryLoading(false);
         }
     }
 
+    const refreshHistory = () => loadHistory(null);
+
+    // Arama kutusu: yazmayı bırakınca (300 ms) ilk sayfadan yeniden ara
+    useEffect(() => {
+        const t = setTimeout(() => loadHistory(null), 300);
+        return () => clearTimeout(t);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [historyQuery, workspaceScope, folderFilter, tagFilter]);
+
+    // Liste sonu görünür olunca sıradaki sayfa
+    useEffect(() => {
+        const el = historySentinel.current;
+        if (!el || !historyCursor || historyLoading) return;
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((e) => e.isIntersecting)) loadHistory(historyCursor);
+        });
+        observer.observe(el);
+        return () => observer.disconnect();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [historyCursor, historyLoading]);
+
     // ✅ ilk açılışta geçmişi çek
     useEffect(() => {
-        refreshHistory();
+        refreshWorkspaces();
+        refreshOrganize();
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    // ✅ Klasörler ve etiketler (özet sayılarıyla)
+    async function refreshOrganize() {
+        try {
+            const [f, t] = await Promise.all([fetch("/api/folders"), fetch("/api/tags")]);
+            const [fj, tj]: unknown[] = await Promise.all([f.json().catch(() => null), t.json().catch(() => null)]);
+            if (f.ok && isOkResponse(fj)) setFolders(fj.data as Folder[]);
+            if (t.ok && isOkResponse(tj)) setTags(tj.data as Tag[]);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    async function createFolder() {
+        const name = prompt("Klasör adı (ör. ders adı):")?.trim();
+        if (!name) return;
+        const res = await fetch("/api/folders", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
+        });
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            setStatus(isErrResponse(json) ? json.error : `Klasör oluşturulamadı (${res.status}).`);
+            return;
+        }
+        await refreshOrganize();
+    }
+
+    async function deleteFolder(folder: Folder) {
+        if (!confirm(`"${folder.name}" klasörü silinsin mi? İçindeki özetler silinmez.`)) return;
+        const res = await fetch(`/api/folders/${folder.id}`, { method: "DELETE" });
+        if (!res.ok) {
+            setStatus(`Klasör silinemedi (${res.status}).`);
+            return;
+        }
+        if (folderFilter === folder.id) setFolderFilter(null);
+        await refreshOrganize();
+    }
+
+    async function deleteTag(tag: Tag) {
+        if (!confirm(`"${tag.name}" etiketi silinsin mi? Özetlerden de kaldırılır.`)) return;
+        const res = await fetch(`/api/tags/${tag.id}`, { method: "DELETE" });
+        if (!res.ok) {
+            setStatus(`Etiket silinemedi (${res.status}).`);
+            return;
+        }
+        if (tagFilter === tag.id) setTagFilter(null);
+        await refreshOrganize();
+    }
+
+    async function dropIntoFolder(folder: Folder, summaryId: string) {
+        const res = await fetch(`/api/folders/${folder.id}/summaries`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ summaryId }),
+        });
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            setStatus(isErrResponse(json) ? json.error : `Klasöre eklenemedi (${res.status}).`);
+            return;
+        }
+        setStatus(`"${folder.name}" klasörüne eklendi ✅`);
+        await refreshOrganize();
+    }
+
+    async function removeFromFolder(folderId: string, summaryId: string) {
+        const res = await fetch(`/api/folders/${folderId}/summaries/${summaryId}`, { method: "DELETE" });
+        if (!res.ok) {
+            setStatus(`Klasörden çıkarılamadı (${res.status}).`);
+            return;
+        }
+        setHistory((h) => h.filter((x) => x.id !== summaryId));
+        await refreshOrganize();
+    }
+
+    // ✅ Üyesi olunan çalışma alanları (aktif Clerk organizasyonu sunucuda eşitlenir)
+    async function refreshWorkspaces() {
+        try {
+            const res = await fetch("/api/workspaces", { method: "GET" });
+            const json: unknown = await res.json().catch(() => null);
+            if (res.ok && isOkResponse(json)) setWorkspaces(json.data as Workspace[]);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
     const ordered = useMemo(() => [...history].sort((a, b) => b.createdAt - a.createdAt), [history]);
 
-    const effectiveImages = images.length > 0 ? images : pdfImages;
-    const canProcess = !!pdf || images.length > 0;
+    // Taranmış PDF'ler artık sunucuda OCR'dan geçiyor; PDF'den üretilen sayfalar sadece ön kontrol için.
+    const effectiveImages = images;
+    const canProcess = !!pdf || images.length > 0 || !!sourceUrl.trim() || !!pastedText.trim();
 
     // PDF Seçilince Otomatik İşleme (manuel görsel varsa gerek yok)
     useEffect(() => {
@@ -214,7 +482,8 @@ export default function Page() {
             setPdfImages([]);
             setPdfConvertStatus("");
 
-            if (!pdf) return;
+            // Ön izleme sadece PDF için; diğer belgeler sunucuda metne çevrilir.
+            if (!pdf || !isPdfFile(pdf)) return;
 
             if (images.length > 0) {
                 setPdfConvertStatus("Manuel görsel seçildiği için PDF dönüştürme atlandı.");
@@ -230,7 +499,7 @@ export default function Page() {
                     setPdfConvertStatus("PDF içeriği okunamadı. Bu PDF taranmış olabilir. (Çözüm: Manuel sayfa görseli ekleyin.)");
                 } else {
                     setPdfImages(imgs);
-                    setPdfConvertStatus(`PDF'den ${imgs.length} sayfa hazırlandı ✅`);
+                    setPdfConvertStatus(`PDF açıldı, ${imgs.length} sayfa önizlendi ✅`);
                 }
             } catch (e) {
                 console.error("PDF İşleme Hatası:", e);
@@ -251,72 +520,374 @@ export default function Page() {
             return;
         }
 
-        if (pdf && images.length === 0 && pdfImages.length === 0) {
+        if ([pdf, sourceUrl.trim(), pastedText.trim()].filter(Boolean).length > 1) {
+            setStatus("Tek kaynak seç: belge, URL veya metin.");
+            return;
+        }
+
+        if (pdf && isPdfFile(pdf) && images.length === 0 && pdfImages.length === 0) {
             setStatus("PDF sayfaları hazırlanmadı / hazırlanamadı. (Taranmış olabilir: Manuel sayfa görseli ekleyin.)");
             return;
         }
 
         setLoading(true);
-        setStatus("İşleniyor...");
+        setStatus(streamMode ? "Bağlanılıyor..." : "İş kuyruğa alınıyor...");
         setSummary(null);
+        setJob(null);
 
         try {
             const fd = new FormData();
-            if (pdf) fd.append("pdf", pdf);
+            if (pdf) fd.append("file", pdf);
+            if (sourceUrl.trim()) fd.append("url", sourceUrl.trim());
+            if (pastedText.trim()) fd.append("text", pastedText);
             effectiveImages.forEach((img) => fd.append("images", img));
+            fd.append("template", template);
+            fd.append("ocrLangs", ocrLangs);
+            if (pageRange.trim()) fd.append("pages", pageRange.trim());
+            if (forceRegenerate) fd.append("force", "1");
+            if (targetWorkspace) fd.append("workspaceId", targetWorkspace.id);
+
+            const data = streamMode ? await submitStream(fd) : await submitJob(fd);
+            if (!data) return;
+
+            const item = toHistoryItem(data);
+            setSummary(item.result);
+
+            // ✅ history’ye DB id ile ekle (eski kayıtlarda dosya adı/görsel sayısı formdan)
+            const entry: HistoryItem = {
+                ...item,
+                pdfName: item.pdfName ?? pdf?.name,
+                imageCount: item.imageCount ?? fd.getAll("images").length,
+            };
+
+            // Cache'ten gelen özet zaten geçmişte olabilir; aynı id iki kez eklenmez
+            setHistory((prev) => [entry, ...prev.filter((x) => x.id !== entry.id)]);
+            setStatus(data.cached ? "Bu içerik daha önce özetlenmiş, kayıtlı özet gösteriliyor ♻️" : "Özet başarıyla oluşturuldu ✅");
+        } catch (e) {
+            console.error(e);
+            setStatus("Bağlantı / ağ hatası. İnterneti veya sunucuyu kontrol edin.");
+        } finally {
+            setLoading(false);
+            setJob(null);
+            streamAbort.current = null;
+        }
+    }
+
+    // POST /api/summarize -> job id; job bitene kadar durum sorgulanır.
+    async function submitJob(fd: FormData): Promise<SummaryData | null> {
+        const res = await fetchWithRetry("/api/summarize", { method: "POST", body: fd }, 3);
+
+        let json: unknown = null;
+        try {
+            json = await res.json();
+        } catch {}
+
+        if (!res.ok) {
+            if (res.status === 429) {
+                setStatus(isErrResponse(json) ? json.error : "Kota sınırına ulaşıldı (429). Biraz sonra tekrar deneyin.");
+                return null;
+            }
+            if (res.status === 503) {
+                setStatus("Model şu an yoğun (503). Birkaç saniye sonra tekrar deneyin.");
+                return null;
+            }
+            setStatus(isErrResponse(json) ? json.error : `Sunucu hatası (${res.status}).`);
+            return null;
+        }
+
+        if (!isOkResponse(json)) {
+            setStatus(isErrResponse(json) ? json.error : "Beklenmeyen cevap formatı.");
+            return null;
+        }
+
+        // ✅ Aynı içerik daha önce özetlendiyse job açılmaz, özet direkt döner
+        const d = json.data as SummarizeData;
+        if (d.cached) return { ...d.summary, cached: true };
+
+        const jobId = d.jobId;
+        setJob({ id: jobId, status: "queued", progress: "sırada", done: 0, total: 0 });
+        setStatus("İşleniyor...");
+
+        // ✅ Job bitene kadar durum sorgula (upload tekrar gönderilmez)
+        return await pollJob(jobId);
+    }
+
+    // POST /api/summarize/stream -> SSE; özet metni geldikçe sonuç paneline yazılır.
+    async function submitStream(fd: FormData): Promise<SummaryData | null> {
+        const ctrl = new AbortController();
+        streamAbort.current = ctrl;
+
+        let res: Response;
+        try {
+            res = await fetch("/api/summarize/stream", { method: "POST", body: fd, signal: ctrl.signal });
+        } catch (e) {
+            if (ctrl.signal.aborted) {
+                setStatus("İş iptal edildi.");
+                return null;
+            }
+            throw e;
+        }
+
+        if (!res.ok || !res.body) {
+            const json: unknown = await res.json().catch(() => null);
+            setStatus(isErrResponse(json) ? json.error : `Sunucu hatası (${res.status}).`);
+            return null;
+        }
+
+        setJob({ id: "", status: "running", progress: "başladı", done: 0, total: 0 });
+        setStatus("İşleniyor...");
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buf = "";
+        let text = "";
+
+        try {
+            for (;;) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buf += decoder.decode(value, { stream: true });
+
+                let sep: number;
+                while ((sep = buf.indexOf("\n\n")) >= 0) {
+                    const block = buf.slice(0, sep);
+                    buf = buf.slice(sep + 2);
+
+                    const event = block.match(/^event: (.*)$/m)?.[1];
+                    const raw = block.match(/^data: (.*)$/m)?.[1];
+                    if (!event || raw === undefined) continue;
+                    const data: unknown = JSON.parse(raw);
+
+                    if (event === "progress") {
+                        const p = data as StreamProgress;
+                        setJob({ id: "", status: "running", progress: p.step, done: p.done, total: p.total });
+                    } else if (event === "token") {
+                        text += (data as { delta: string }).delta;
+                        setSummary({ title: "Özet yazılıyor…", summary: text, keywords: [], source: "pdf" });
+                    } else if (event === "done") {
+                        return data as SummaryData;
+                    } else if (event === "error") {
+                        setSummary(null);
+                        setStatus((data as { error?: string }).error ?? "Sunucu hatası.");
+                        return null;
+                    }
+                }
+            }
+        } catch (e) {
+            if (ctrl.signal.aborted) {
+                setStatus("İş iptal edildi.");
+                return null;
+            }
+            throw e;
+        }
 
-            const res = await fetchWithRetry("/api/summarize", { method: "POST", body: fd }, 3);
+        setStatus("Bağlantı beklenmedik şekilde kapandı.");
+        return null;
+    }
+
+    // Job tamamlanınca özet verisini, başarısız/iptal olursa null döner.
+    async function pollJob(jobId: string): Promise<SummaryData | null> {
+        const deadline = Date.now() + POLL_MAX_MS;
+        let failures = 0;
 
-            let json: unknown = null;
+        for (;;) {
+            if (Date.now() > deadline || failures >= POLL_MAX_FAILURES) {
+                setStatus("İş durumu alınamıyor; sunucu işi kaybetmiş olabilir. Daha sonra geçmişi kontrol edin veya tekrar deneyin.");
+                return null;
+            }
+            await sleep(POLL_INTERVAL_MS);
+
+            let res: Response;
             try {
-                json = await res.json();
-            } catch {}
+                res = await fetch(`/api/jobs/${jobId}`, { method: "GET" });
+            } catch {
+                failures++; // ağ hatası: tekrar dene
+                continue;
+            }
+            const json: unknown = await res.json().catch(() => null);
 
-            if (!res.ok) {
-                if (res.status === 429) return void setStatus("Kota sınırına ulaşıldı (429). Biraz sonra tekrar deneyin.");
-                if (res.status === 503) return void setStatus("Model şu an yoğun (503). Birkaç saniye sonra tekrar deneyin.");
-                if (isErrResponse(json)) return void setStatus(json.error);
-                return void setStatus(`Sunucu hatası (${res.status}).`);
+            if (!res.ok || !isOkResponse(json)) {
+                // Geçici ağ/sunucu hatasında sorgulamaya devam et
+                if (res.status >= 500) {
+                    failures++;
+                    continue;
+                }
+                setStatus(isErrResponse(json) ? json.error : `İş durumu alınamadı (${res.status}).`);
+                return null;
             }
+            failures = 0;
 
-            if (!isOkResponse(json)) {
-                setStatus(isErrResponse(json) ? json.error : "Beklenmeyen cevap formatı.");
-                return;
+            const j = json.data as JobData;
+            setJob({ id: jobId, status: j.status, progress: j.progress ?? "", done: j.progressDone, total: j.progressTotal });
+
+            if (j.status === "succeeded") return j.summary;
+            if (j.status === "failed") {
+                setStatus(j.error ?? "İş başarısız oldu.");
+                return null;
+            }
+            if (j.status === "canceled") {
+                setStatus("İş iptal edildi.");
+                return null;
             }
+        }
+    }
 
-            const data = (json as any).data as any;
+    // Saklanan orijinal PDF (görüntüleyicide açılır)
+    const pdfAttachment = attachments.find((a) => a.kind === "document" && a.contentType === "application/pdf") ?? null;
 
-            const uiSummary: ApiSummary = {
-                title: String(data.title ?? ""),
-                summary: String(data.summary ?? ""),
-                keywords: normalizeKeywords(data.keywords),
-                source: toUiSource(data.source),
-            };
+    function openViewer(attachmentId: string, page: number) {
+        setViewer({ attachmentId, page, nonce: Date.now() });
+    }
 
-            setSummary(uiSummary);
+    // Seçili özetin orijinalleri; özet değişince görüntüleyici kapanır
+    useEffect(() => {
+        setAttachments([]);
+        setViewer(null);
+        setViewerPassages([]);
+        setViewerTerms([]);
+        const id = summary?.id;
+        if (!id) return;
 
-            // ✅ history’ye DB id ile ekle
-            const entry: HistoryItem = {
-                id: String(data.id),
-                createdAt: new Date(data.createdAt).getTime(),
-                pdfName: data.pdfName ?? pdf?.name,
-                imageCount: typeof data.imageCount === "number" ? data.imageCount : fd.getAll("images").length,
-                result: uiSummary,
-            };
+        let alive = true;
+        (async () => {
+            const res = await fetch(`/api/summary/${id}/attachments`);
+            const json: unknown = await res.json().catch(() => null);
+            if (alive && res.ok && isOkResponse(json)) setAttachments(json.data as AttachmentItem[]);
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, [summary?.id]);
+
+    // SummaryView metin değişince (düzenleme, yeniden üretim) vurguları sıfırlar; görüntüleyici de sıfırlansın
+    useEffect(() => {
+        setViewerTerms([]);
+    }, [summary?.summary]);
+
+    // Bölümün kaynak cümleleri PDF'te işaretlenir ve ilk eşleşen sayfaya gidilir
+    async function showSectionSource(sectionId: string) {
+        if (!summary?.id || !pdfAttachment) return;
+        const res = await fetch(`/api/summary/${summary.id}/passages?section=${encodeURIComponent(sectionId)}`);
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            setStatus(isErrResponse(json) ? json.error : `Kaynak bulunamadı (${res.status}).`);
+            return;
+        }
+        const data = json.data as { pages: number[]; passages: SourcePassage[] };
+        if (data.passages.length === 0) setStatus("Bu bölüm için kaynakta eşleşen cümle bulunamadı.");
+        setViewerPassages(data.passages);
+        openViewer(pdfAttachment.id, data.pages[0] ?? viewer?.page ?? 1);
+    }
+
+    // Atıf tıklanınca: kayıtlı kaynak metni göster; orijinal PDF saklıysa görüntüleyicide o sayfaya git,
+    // değilse (eski kayıtlar) PDF hâlâ seçiliyse yeni sekmede aç.
+    async function openCitation(from: number, to: number) {
+        const ref = from === to ? `s. ${from}` : `s. ${from}–${to}`;
+
+        if (pdfAttachment) {
+            openViewer(pdfAttachment.id, from);
+        } else if (pdf && summary?.id) {
+            const url = URL.createObjectURL(pdf);
+            window.open(`${url}#page=${from}`, "_blank");
+            setTimeout(() => URL.revokeObjectURL(url), 60_000);
+        }
+
+        if (!summary?.id) return;
+        const res = await fetch(`/api/summary/${summary.id}/pages?from=${from}&to=${to}`);
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            setStatus(isErrResponse(json) ? json.error : `Kaynak sayfa alınamadı (${res.status}).`);
+            return;
+        }
+        setSourcePages({ summaryId: summary.id, ref, pages: (json.data as SourcePagesData).pages });
+    }
 
-            setHistory((prev) => [entry, ...prev]);
-            setStatus("Özet başarıyla oluşturuldu ✅");
+    // Başka özete geçince açık düzenleme, revizyon ve paylaşım panelleri kapanır
+    useEffect(() => {
+        setEditDraft(null);
+        setShowRevisions(false);
+        setShowShares(false);
+        setRefineInstruction("");
+    }, [summary?.id]);
+
+    // PATCH/geri yükleme cevabı: sonuç paneli ve geçmişteki kayıt güncellenir
+    function applyUpdatedSummary(data: SummaryData) {
+        const item = toHistoryItem(data);
+        setSummary(item.result);
+        setHistory((prev) => prev.map((x) => (x.id === item.id ? { ...x, result: item.result } : x)));
+    }
+
+    async function saveEdit() {
+        if (!summary?.id || !editDraft || editSaving) return;
+
+        setEditSaving(true);
+        try {
+            const res = await fetch(`/api/summary/${summary.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    title: editDraft.title,
+                    summary: editDraft.summary,
+                    keywords: editDraft.keywords.split(",").map((k) => k.trim()).filter(Boolean),
+                }),
+            });
+            const json: unknown = await res.json().catch(() => null);
+            if (!res.ok || !isOkResponse(json)) {
+                setStatus(isErrResponse(json) ? json.error : `Kaydedilemedi (${res.status}).`);
+                return;
+            }
+            applyUpdatedSummary(json.data as SummaryData);
+            setEditDraft(null);
+            setStatus("Özet kaydedildi ✅");
         } catch (e) {
             console.error(e);
-            setStatus("Bağlantı / ağ hatası. İnterneti veya sunucuyu kontrol edin.");
+            setStatus("Kaydedilemedi (ağ hatası).");
         } finally {
-            setLoading(false);
+            setEditSaving(false);
         }
     }
 
+    async function refine(section: string | null) {
+        const id = summary?.id;
+        const instruction = refineInstruction.trim();
+        if (!id || refining || (!section && !instruction)) return;
+
+        setRefining(section ?? "*");
+        setStatus(section ? "Bölüm yeniden üretiliyor…" : "Özet talimata göre düzenleniyor…");
+        try {
+            const res = await fetch(`/api/summary/${id}/refine`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(section ? { section } : { instruction }),
+            });
+            const json: unknown = await res.json().catch(() => null);
+            if (!res.ok || !isOkResponse(json)) {
+                setStatus(isErrResponse(json) ? json.error : `Yeniden üretim başarısız (${res.status}).`);
+                return;
+            }
+            applyUpdatedSummary(json.data as SummaryData);
+            if (!section) setRefineInstruction("");
+            setStatus("Yeni revizyon kaydedildi ✅ (önceki hâl Revizyonlar'da)");
+        } catch (e) {
+            console.error(e);
+            setStatus("Yeniden üretim başarısız (ağ hatası).");
+        } finally {
+            setRefining(null);
+        }
+    }
+
+    async function cancelJob() {
+        if (streamAbort.current) return void streamAbort.current.abort();
+        if (!job) return;
+        const r = await fetch(`/api/jobs/${job.id}`, { method: "DELETE" });
+        if (!r.ok && r.status !== 409) setStatus(`İptal başarısız (${r.status}).`);
+    }
+
     const clearAll = () => {
         setPdf(null);
         setImages([]);
+        setSourceUrl("");
+        setPastedText("");
         setPdfImages([]);
         setPdfConvertStatus("");
         setSummary(null);
@@ -326,9 +897,9 @@ export default function Page() {
 
     const clearHistoryDb = async () => {
         try {
-            // ✅ Basit yol: tek tek sil (ama sağlamlaştırdık)
-            for (const item of history) {
-                const r = await fetch(`/api/history/${item.id}`, { method: "DELETE" });
+            // ✅ Basit yol: tek tek sil (ama sağlamlaştırdık). Çalışma alanlarındaki özetlere dokunulmaz.
+            for (const item of history.filter((h) => !h.result.workspaceId)) {
+                const r = await fetch(`/api/summary/${item.id}`, { method: "DELETE" });
                 if (!r.ok && r.status !== 404) {
                     setStatus(`Geçmiş silinirken hata oluştu (${r.status}).`);
                     return;
@@ -342,6 +913,13 @@ export default function Page() {
         }
     };
 
+    // Seçili alan bir çalışma alanıysa ve yazma yetkisi varsa yeni özetler oraya kaydedilir
+    const targetWorkspace = workspaces.find((w) => w.id === workspaceScope && w.role !== "viewer") ?? null;
+    const summaryRole: WorkspaceRole | null = !summary?.workspaceId
+        ? "owner"
+        : (workspaces.find((w) => w.id === summary.workspaceId)?.role ?? null);
+    const canEditSummary = summaryRole === "owner" || summaryRole === "editor";
+
     const isPreparingPdf = !!pdf && images.length === 0 && pdfConvertStatus.includes("hazırlanıyor");
 
     return (
@@ -359,12 +937,132 @@ export default function Page() {
                     </button>
                 </div>
 
+                <WorkspaceScopeSelect
+                    workspaces={workspaces}
+                    scope={workspaceScope}
+                    onScopeChange={setWorkspaceScope}
+                    onCreated={(ws) => setWorkspaces((prev) => [...prev, ws])}
+                    onStatus={setStatus}
+                />
+
+                <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 12, fontSize: 12 }}>
+                    Tümünü indir (zip):
+                    {BULK_EXPORT_OPTIONS.map((f) => (
+                        <a key={f} href={`/api/export?format=${f}${workspaceScope ? `&workspace=${encodeURIComponent(workspaceScope)}` : ""}`} download>
+                            {f.toUpperCase()}
+                        </a>
+                    ))}
+                </div>
+
+                <div style={{ marginBottom: 12, fontSize: 13 }}>
+                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 4 }}>
+                        <strong>Klasörler</strong>
+                        <button onClick={createFolder} style={{ fontSize: 11 }}>
+                            + Klasör
+                        </button>
+                    </div>
+                    {[{ id: null, name: "Tümü", summaryCount: null } as const, ...folders].map((f) => (
+                        <div
+                            key={f.id ?? "all"}
+                            onClick={() => setFolderFilter(f.id)}
+                            onDragOver={(e) => {
+                                if (!f.id || !e.dataTransfer.types.includes(SUMMARY_DRAG_TYPE)) return;
+                                e.preventDefault();
+                                setDropFolder(f.id);
+                            }}
+                            onDragLeave={() => setDropFolder((cur) => (cur === f.id ? null : cur))}
+                            onDrop={(e) => {
+                                setDropFolder(null);
+                                const summaryId = e.dataTransfer.getData(SUMMARY_DRAG_TYPE);
+                                if (f.id && summaryId) dropIntoFolder(f as Folder, summaryId);
+                            }}
+                            style={{
+                                display: "flex",
+                                alignItems: "center",
+                                gap: 6,
+                                padding: "3px 6px",
+                                borderRadius: 6,
+                                cursor: "pointer",
+                                background: dropFolder === f.id ? "#e8f0fe" : folderFilter === f.id ? "#f1f1f1" : undefined,
+                                outline: dropFolder === f.id ? "1px dashed #0b57d0" : undefined,
+                            }}
+                        >
+                            <span>📁</span>
+                            <span style={{ flex: 1, fontWeight: folderFilter === f.id ? 600 : undefined }}>{f.name}</span>
+                            {f.summaryCount !== null && <span style={{ color: "#888", fontSize: 11 }}>{f.summaryCount}</span>}
+                            {f.id && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        deleteFolder(f as Folder);
+                                    }}
+                                    title="Klasörü sil"
+                                    style={{ border: "none", background: "none", cursor: "pointer", color: "#999", padding: 0 }}
+                                >
+                                    ×
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {folders.length === 0 && (
+                        <div style={{ color: "#888", fontSize: 12 }}>Klasör oluşturup özetleri sürükleyip bırakın.</div>
+                    )}
+                </div>
+
+                {tags.length > 0 && (
+                    <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginBottom: 12, fontSize: 12 }}>
+                        {tags.map((t) => (
+                            <span
+                                key={t.id}
+                                style={{
+                                    background: tagFilter === t.id ? "#0b57d0" : "#e6f4ea",
+                                    color: tagFilter === t.id ? "#fff" : "#000",
+                                    borderRadius: 12,
+                                    padding: "2px 8px",
+                                }}
+                            >
+                                <button
+                                    onClick={() => setTagFilter((cur) => (cur === t.id ? null : t.id))}
+                                    style={{ border: "none", background: "none", color: "inherit", cursor: "pointer", padding: 0, fontSize: 12 }}
+                                >
+                                    #{t.name} ({t.summaryCount})
+                                </button>{" "}
+                                <button
+                                    onClick={() => deleteTag(t)}
+                                    title="Etiketi sil"
+                                    style={{ border: "none", background: "none", color: "inherit", cursor: "pointer", padding: 0 }}
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+
+                <input
+                    type="search"
+                    value={historyQuery}
+                    placeholder="Geçmişte ara…"
+                    onChange={(e) => setHistoryQuery(e.target.value)}
+                    style={{ width: "100%", marginBottom: 12, padding: "6px 8px" }}
+                />
+
                 <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
                     {ordered.length === 0 ? (
-                        <div style={{ color: "#777", fontSize: 13 }}>Henüz kayıt yok.</div>
+                        <div style={{ color: "#777", fontSize: 13 }}>
+                            {historyLoading ? "Yükleniyor…" : historyQuery.trim() ? "Sonuç bulunamadı." : "Henüz kayıt yok."}
+                        </div>
                     ) : (
                         ordered.map((item) => (
-                            <div key={item.id} style={{ border: "1px solid #e5e5e5", padding: 10, borderRadius: 10, background: "#fff" }}>
+                            <div
+                                key={item.id}
+                                draggable
+                                onDragStart={(e) => {
+                                    e.dataTransfer.setData(SUMMARY_DRAG_TYPE, item.id);
+                                    e.dataTransfer.effectAllowed = "copy";
+                                }}
+                                style={{ border: "1px solid #e5e5e5", padding: 10, borderRadius: 10, background: "#fff" }}
+                            >
                                 <button
                                     onClick={() => {
                                         setSummary(item.result);
@@ -382,14 +1080,14 @@ export default function Page() {
                                     <strong style={{ display: "block" }}>{clip(item.result.title, 60)}</strong>
                                     <p style={{ fontSize: 12, color: "#666", margin: "6px 0 0" }}>{formatDateTR(item.createdAt)}</p>
                                     <p style={{ fontSize: 12, color: "#666", margin: "4px 0 0" }}>
-                                        {item.pdfName ? `📄 ${clip(item.pdfName, 24)}` : "—"}{" "}
+                                        {item.sourceUrl ? `🔗 ${clip(item.pdfName ?? hostOf(item.sourceUrl), 24)}` : item.pdfName ? `📄 ${clip(item.pdfName, 24)}` : "—"}{" "}
                                         {typeof item.imageCount === "number" ? `• 🖼️ ${item.imageCount}` : ""}
                                     </p>
                                 </button>
 
                                 <button
                                     onClick={async () => {
-                                        const r = await fetch(`/api/history/${item.id}`, { method: "DELETE" });
+                                        const r = await fetch(`/api/summary/${item.id}`, { method: "DELETE" });
                                         if (!r.ok && r.status !== 404) {
                                             setStatus(`Silme başarısız (${r.status}).`);
                                             return;
@@ -400,9 +1098,19 @@ export default function Page() {
                                 >
                                     Sil
                                 </button>
+                                {folderFilter && (
+                                    <button onClick={() => removeFromFolder(folderFilter, item.id)} style={{ fontSize: 11, marginTop: 8, marginLeft: 6 }}>
+                                        Klasörden çıkar
+                                    </button>
+                                )}
                             </div>
                         ))
                     )}
+                    {historyCursor && (
+                        <div ref={historySentinel} style={{ color: "#777", fontSize: 12, textAlign: "center", padding: 8 }}>
+                            {historyLoading ? "Yükleniyor…" : ""}
+                        </div>
+                    )}
                 </div>
             </aside>
 
@@ -410,17 +1118,17 @@ export default function Page() {
             <main style={{ flex: 1 }}>
                 <header>
                     <h1 style={{ margin: 0 }}>Jethülasa</h1>
-                    <p style={{ marginTop: 6, color: "#444" }}>Akıllı PDF ve Görsel Analizörü</p>
+                    <p style={{ marginTop: 6, color: "#444" }}>Akıllı Belge ve Görsel Analizörü</p>
                 </header>
 
                 <div style={{ marginTop: 20, padding: 20, border: "1px solid #eee", borderRadius: 12 }}>
                     <div key={fileKey} style={{ display: "grid", gap: 16 }}>
                         <div>
-                            <label style={{ fontWeight: 600 }}>PDF Dosyası</label>
+                            <label style={{ fontWeight: 600 }}>Belge (PDF, DOCX, PPTX, TXT, MD, HTML, EPUB)</label>
                             <div style={{ marginTop: 6 }}>
                                 <input
                                     type="file"
-                                    accept=".pdf"
+                                    accept={DOCUMENT_ACCEPT}
                                     onChange={(e) => {
                                         setStatus("");
                                         setSummary(null);
@@ -431,6 +1139,67 @@ export default function Page() {
                             <div style={{ fontSize: 12, color: "#0b57d0", marginTop: 6 }}>{pdfConvertStatus}</div>
                         </div>
 
+                        <div>
+                            <label style={{ fontWeight: 600 }}>veya Web Adresi (URL)</label>
+                            <div style={{ marginTop: 6 }}>
+                                <input
+                                    type="url"
+                                    value={sourceUrl}
+                                    placeholder="https://ornek.com/makale"
+                                    disabled={loading}
+                                    style={{ width: "100%" }}
+                                    onChange={(e) => setSourceUrl(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label style={{ fontWeight: 600 }}>veya Metin Yapıştır</label>
+                            <div style={{ marginTop: 6 }}>
+                                <textarea
+                                    value={pastedText}
+                                    rows={5}
+                                    placeholder="Özetlenecek metni buraya yapıştırın"
+                                    disabled={loading}
+                                    style={{ width: "100%", fontFamily: "inherit" }}
+                                    onChange={(e) => setPastedText(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label style={{ fontWeight: 600 }}>Özet Şablonu</label>
+                            <div style={{ marginTop: 6 }}>
+                                <TemplateSelect value={template} onChange={setTemplate} disabled={loading} />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label style={{ fontWeight: 600 }}>Sayfa Aralığı (Opsiyonel)</label>
+                            <div style={{ marginTop: 6 }}>
+                                <input
+                                    type="text"
+                                    value={pageRange}
+                                    placeholder="ör. 3-17, 22"
+                                    disabled={loading}
+                                    onChange={(e) => setPageRange(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label style={{ fontWeight: 600 }}>OCR Dili (taranmış PDF)</label>
+                            <div style={{ marginTop: 6 }}>
+                                <select value={ocrLangs} onChange={(e) => setOcrLangs(e.target.value)} disabled={loading}>
+                                    <option value="tur+eng">Türkçe + İngilizce</option>
+                                    <option value="tur">Türkçe</option>
+                                    <option value="eng">İngilizce</option>
+                                    <option value="deu+eng">Almanca + İngilizce</option>
+                                    <option value="fra+eng">Fransızca + İngilizce</option>
+                                </select>
+                            </div>
+                        </div>
+
                         <div>
                             <label style={{ fontWeight: 600 }}>Manuel Görsel Ekle (Opsiyonel)</label>
                             <div style={{ marginTop: 6 }}>
@@ -446,7 +1215,7 @@ export default function Page() {
                                 />
                             </div>
                             <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
-                                Manuel görsel eklersen PDF’den otomatik sayfa üretimi kullanılmaz. Manuel eklemezsen, PDF’den çıkan ilk 2 sayfa otomatik kullanılır.
+                                Taranmış PDF’lerin tüm sayfaları sunucuda OCR ile okunur. Manuel görseller PDF metnine ek olarak modele gönderilir.
                             </div>
                         </div>
                     </div>
@@ -462,36 +1231,266 @@ export default function Page() {
                             }}
                             title={isPreparingPdf ? "PDF sayfaları hazırlanıyor..." : ""}
                         >
-                            {loading ? "İşleniyor..." : isPreparingPdf ? "PDF Hazırlanıyor..." : "Özetle"}
+                            {loading ? (job ? `İşleniyor: ${job.progress}` : "Gönderiliyor...") : isPreparingPdf ? "PDF Hazırlanıyor..." : "Özetle"}
                         </button>
+                        <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+                            <input
+                                type="checkbox"
+                                checked={streamMode}
+                                disabled={loading}
+                                onChange={(e) => setStreamMode(e.target.checked)}
+                            />
+                            Canlı yaz (stream)
+                        </label>
+                        <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+                            <input
+                                type="checkbox"
+                                checked={forceRegenerate}
+                                disabled={loading}
+                                onChange={(e) => setForceRegenerate(e.target.checked)}
+                            />
+                            Yeniden üret (önbelleği atla)
+                        </label>
+                        {job && (
+                            <button onClick={cancelJob} style={{ padding: "10px 18px", color: "crimson" }}>
+                                İptal
+                            </button>
+                        )}
                         <button onClick={clearAll} style={{ padding: "10px 18px" }}>
                             Temizle
                         </button>
                     </div>
 
                     <div style={{ marginTop: 12, fontWeight: 700, color: "#111" }}>{status}</div>
-                </div>
-
-                {/* Sonuç */}
-                <div style={{ marginTop: 20, padding: 20, background: "#f9f9f9", border: "1px solid #eee", borderRadius: 12 }}>
-                    {summary ? (
-                        <div>
-                            <h2 style={{ marginTop: 0, color: "#000" }}>{summary.title}</h2>
 
-                            {/* ✅ Özet kısmı SİYAH */}
-                            <p style={{ lineHeight: 1.7, color: "#000", whiteSpace: "pre-wrap" }}>{summary.summary}</p>
+                    {job && (
+                        <div style={{ marginTop: 8, fontSize: 13, color: "#333" }}>
+                            <progress
+                                value={job.total > 0 ? job.done : undefined}
+                                max={job.total > 0 ? job.total : undefined}
+                                style={{ width: 260, verticalAlign: "middle" }}
+                            />{" "}
+                            {job.progress}
+                            {job.total > 0 ? ` (${Math.round((job.done / job.total) * 100)}%)` : ""}
+                        </div>
+                    )}
+                </div>
 
-                            <div style={{ marginTop: 14, color: "#000" }}>
-                                <strong>Anahtar Kelimeler:</strong> {summary.keywords.join(", ")}
+                <div style={{ display: "flex", gap: 16, alignItems: "flex-start" }}>
+                    {/* Sonuç */}
+                    <div style={{ flex: 1, marginTop: 20, padding: 20, background: "#f9f9f9", border: "1px solid #eee", borderRadius: 12 }}>
+                        {summary ? (
+                            <div>
+                                {editDraft ? (
+                                    <div style={{ display: "flex", flexDirection: "column", gap: 8, color: "#000" }}>
+                                        <input
+                                            value={editDraft.title}
+                                            disabled={editSaving}
+                                            onChange={(e) => setEditDraft({ ...editDraft, title: e.target.value })}
+                                            style={{ fontSize: 20, fontWeight: 700, padding: "4px 8px" }}
+                                        />
+                                        <textarea
+                                            value={editDraft.summary}
+                                            rows={18}
+                                            disabled={editSaving}
+                                            onChange={(e) => setEditDraft({ ...editDraft, summary: e.target.value })}
+                                            style={{ fontFamily: "ui-monospace, monospace", fontSize: 13, lineHeight: 1.5, padding: 8 }}
+                                        />
+                                        <label style={{ fontSize: 13 }}>
+                                            Anahtar kelimeler (virgülle):
+                                            <input
+                                                value={editDraft.keywords}
+                                                disabled={editSaving}
+                                                onChange={(e) => setEditDraft({ ...editDraft, keywords: e.target.value })}
+                                                style={{ width: "100%", padding: "4px 8px", marginTop: 4 }}
+                                            />
+                                        </label>
+                                        <div style={{ display: "flex", gap: 8 }}>
+                                            <button onClick={saveEdit} disabled={editSaving} style={{ padding: "6px 14px" }}>
+                                                {editSaving ? "Kaydediliyor…" : "Kaydet"}
+                                            </button>
+                                            <button onClick={() => setEditDraft(null)} disabled={editSaving} style={{ padding: "6px 14px" }}>
+                                                Vazgeç
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div style={{ display: "flex", alignItems: "flex-start", gap: 8 }}>
+                                            <h2 style={{ flex: 1, marginTop: 0, color: "#000" }}>{summary.title}</h2>
+                                            {summary.id && canEditSummary && (
+                                                <>
+                                                    <WorkspaceMoveSelect
+                                                        summaryId={summary.id}
+                                                        workspaceId={summary.workspaceId ?? null}
+                                                        workspaces={workspaces}
+                                                        onMoved={applyUpdatedSummary}
+                                                        onStatus={setStatus}
+                                                    />
+                                                    <button
+                                                        onClick={() =>
+                                                            setEditDraft({
+                                                                title: summary.title,
+                                                                summary: summary.summary,
+                                                                keywords: summary.keywords.join(", "),
+                                                            })
+                                                        }
+                                                        style={{ fontSize: 12 }}
+                                                    >
+                                                        Düzenle
+                                                    </button>
+                                                    <button onClick={() => setShowRevisions((v) => !v)} style={{ fontSize: 12 }}>
+                                                        {showRevisions ? "Revizyonları gizle" : "Revizyonlar"}
+                                                    </button>
+                                                    <button onClick={() => setShowShares((v) => !v)} style={{ fontSize: 12 }}>
+                                                        {showShares ? "Paylaşımı gizle" : "Paylaş"}
+                                                    </button>
+                                                </>
+                                            )}
+                                        </div>
+
+                                        {showRevisions && summary.id && (
+                                            <div style={{ marginBottom: 12 }}>
+                                                <RevisionPanel
+                                                    summaryId={summary.id}
+                                                    version={`${summary.title}\n${summary.summary}\n${summary.keywords.join(",")}`}
+                                                    onRestored={applyUpdatedSummary}
+                                                    onStatus={setStatus}
+                                                />
+                                            </div>
+                                        )}
+
+                                        {showShares && summary.id && (
+                                            <div style={{ marginBottom: 12 }}>
+                                                <SharePanel summaryId={summary.id} onStatus={setStatus} />
+                                            </div>
+                                        )}
+
+                                        {summary.id && canEditSummary && (
+                                            <div style={{ display: "flex", gap: 8, marginBottom: 12 }}>
+                                                <input
+                                                    value={refineInstruction}
+                                                    disabled={!!refining}
+                                                    placeholder='Talimatla düzelt: ör. "daha kısa", "örnek ekle"'
+                                                    onChange={(e) => setRefineInstruction(e.target.value)}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === "Enter") refine(null);
+                                                    }}
+                                                    style={{ flex: 1, padding: "4px 8px" }}
+                                                />
+                                                <button onClick={() => refine(null)} disabled={!!refining || !refineInstruction.trim()} style={{ fontSize: 12 }}>
+                                                    {refining === "*" ? "Uygulanıyor…" : "Uygula"}
+                                                </button>
+                                            </div>
+                                        )}
+
+                                        {summary.id && (
+                                            <SummaryTags
+                                                summaryId={summary.id}
+                                                keywords={summary.keywords}
+                                                onChanged={refreshOrganize}
+                                                onStatus={setStatus}
+                                            />
+                                        )}
+
+                                        {/* ✅ Özet kısmı SİYAH; anahtar kelimeler tıklanınca metinde vurgulanır */}
+                                        <SummaryView
+                                            markdown={summary.summary}
+                                            keywords={summary.keywords}
+                                            onCite={openCitation}
+                                            onRegenerate={summary.id && canEditSummary ? (section) => refine(section) : undefined}
+                                            regenerating={refining}
+                                            onShowSource={pdfAttachment ? showSectionSource : undefined}
+                                            onHighlightChange={setViewerTerms}
+                                        />
+                                    </>
+                                )}
+
+                                {summary.id && viewer && (
+                                    <PdfViewer
+                                        summaryId={summary.id}
+                                        attachmentId={viewer.attachmentId}
+                                        name={attachments.find((a) => a.id === viewer.attachmentId)?.name ?? "PDF"}
+                                        focus={viewer}
+                                        terms={viewerTerms}
+                                        passages={viewerPassages}
+                                        onStatus={setStatus}
+                                        onClose={() => {
+                                            setViewer(null);
+                                            setViewerPassages([]);
+                                        }}
+                                    />
+                                )}
+
+                                {sourcePages && sourcePages.summaryId === summary.id && (
+                                    <div style={{ marginTop: 12, padding: 12, background: "#fff", border: "1px solid #ddd", borderRadius: 10 }}>
+                                        <div style={{ display: "flex", justifyContent: "space-between", color: "#000" }}>
+                                            <strong>Kaynak: {sourcePages.ref}</strong>
+                                            <button onClick={() => setSourcePages(null)} style={{ fontSize: 12 }}>
+                                                Kapat
+                                            </button>
+                                        </div>
+                                        {sourcePages.pages.length === 0 ? (
+                                            <p style={{ color: "#777", fontSize: 13 }}>Bu sayfalar için kayıtlı metin yok.</p>
+                                        ) : (
+                                            sourcePages.pages.map((p) => (
+                                                <div key={p.page} style={{ marginTop: 8, fontSize: 13, color: "#222" }}>
+                                                    <div style={{ fontWeight: 600 }}>s. {p.page}</div>
+                                                    <div style={{ whiteSpace: "pre-wrap" }}>{p.text}</div>
+                                                </div>
+                                            ))
+                                        )}
+                                    </div>
+                                )}
+
+                                <div style={{ marginTop: 10, fontSize: 12, color: "#333" }}>
+                                    Kaynak: <strong>{summary.source}</strong>
+                                    {summary.template ? (
+                                        <>
+                                            {" "}
+                                            • Şablon: <strong>{summary.template}</strong>
+                                        </>
+                                    ) : null}
+                                    {typeof summary.ocrConfidence === "number" ? (
+                                        <>
+                                            {" "}
+                                            • OCR güveni: <strong>%{summary.ocrConfidence}</strong>
+                                        </>
+                                    ) : null}
+                                </div>
+
+                                {summary.id && (
+                                    <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", fontSize: 12, color: "#333" }}>
+                                        İndir:
+                                        {EXPORT_OPTIONS.map((o) => (
+                                            <a key={o.format} href={`/api/summary/${summary.id}/export?format=${o.format}`} download>
+                                                {o.label}
+                                            </a>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {summary.id && (
+                                    <SummaryAttachments items={attachments} onView={(attachmentId) => openViewer(attachmentId, 1)} />
+                                )}
+
+                                {summary.id && (
+                                    <div style={{ marginTop: 14 }}>
+                                        <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13, color: "#000" }}>
+                                            <input type="checkbox" checked={studyMode} onChange={(e) => setStudyMode(e.target.checked)} />
+                                            Çalışma modu (quiz ve kartlar)
+                                        </label>
+                                        {studyMode && <StudyPanel summaryId={summary.id} onStatus={setStatus} />}
+                                    </div>
+                                )}
                             </div>
+                        ) : (
+                            <p style={{ color: "#777", margin: 0 }}>Dosya yükleyin ve analiz edin.</p>
+                        )}
+                    </div>
 
-                            <div style={{ marginTop: 10, fontSize: 12, color: "#333" }}>
-                                Kaynak: <strong>{summary.source}</strong>
-                            </div>
-                        </div>
-                    ) : (
-                        <p style={{ color: "#777", margin: 0 }}>Dosya yükleyin ve analiz edin.</p>
-                    )}
+                    {/* Belgeyle sohbet: sadece kaydedilmiş özetlerde */}
+                    {summary?.id && <ChatPanel summaryId={summary.id} onCite={openCitation} onStatus={setStatus} />}
                 </div>
             </main>
         </div>
@@ -0,0 +1,529 @@
+"use client";
+
+// src/app/pdf-viewer.tsx
+// Saklanan orijinal PDF'in görüntüleyicisi: tüm sayfalar (görünür oldukça) çizilir, seçili bölümün kaynak
+// cümleleri ve vurgulanan anahtar kelimeler işaretlenir; kullanıcı metin seçip kendi işaretini ve notunu ekler.
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { isErrResponse, isOkResponse } from "./api-types";
+import { loadPdfjs, type Pdfjs, type PdfDocument, type PdfPage, type PdfTextItem, type PdfViewport } from "./pdfjs";
+
+export type SourcePassage = { page: number; text: string };
+
+type Rect = { x: number; y: number; w: number; h: number }; // sayfaya oranla 0-1
+
+type Highlight = { id: string; page: number; quote: string; rects: Rect[]; color: string; note: string | null };
+
+type TextBox = { text: string; left: number; top: number; width: number; font: number; scaleX: number };
+
+type Mark = { left: number; top: number; width: number; height: number; kind: "term" | "passage" };
+
+const HIGHLIGHT_COLORS: Record<string, { label: string; fill: string }> = {
+    yellow: { label: "Sarı", fill: "rgba(255, 221, 0, 0.4)" },
+    green: { label: "Yeşil", fill: "rgba(52, 199, 89, 0.35)" },
+    blue: { label: "Mavi", fill: "rgba(66, 133, 244, 0.3)" },
+    pink: { label: "Pembe", fill: "rgba(255, 105, 180, 0.35)" },
+};
+
+const MARK_FILLS: Record<Mark["kind"], string> = {
+    term: "rgba(255, 200, 0, 0.45)",
+    passage: "rgba(11, 87, 208, 0.2)",
+};
+
+const NO_PASSAGES: string[] = [];
+const NO_HIGHLIGHTS: Highlight[] = [];
+
+// Bu kadar kısa metin parçaları (tek kelime, sayfa no) kaynak cümlesi sayılmaz
+const MIN_PASSAGE_PIECE = 4;
+
+function normalize(s: string) {
+    return s.toLocaleLowerCase("tr-TR").replace(/\s+/g, " ").trim();
+}
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+function measure(text: string, font: number) {
+    measureCtx ??= document.createElement("canvas").getContext("2d");
+    if (!measureCtx) return text.length * font * 0.5;
+    measureCtx.font = `${font}px sans-serif`;
+    return measureCtx.measureText(text).width;
+}
+
+// pdfjs metin öğelerini sayfa koordinatlarında kutulara çevirir (döndürülmüş metin atlanır).
+function textBoxes(items: Array<PdfTextItem | { type: string }>, viewport: PdfViewport, util: Pdfjs["Util"]): TextBox[] {
+    const out: TextBox[] = [];
+    for (const item of items) {
+        if (!("str" in item) || !item.str.trim()) continue;
+        const tx = util.transform(viewport.transform, item.transform);
+        if (Math.abs(tx[1]) > 1e-3 || Math.abs(tx[2]) > 1e-3) continue;
+        const font = Math.hypot(tx[2], tx[3]);
+        const width = item.width * viewport.scale;
+        const natural = measure(item.str, font);
+        if (!font || !width || !natural) continue;
+        out.push({ text: item.str, left: tx[4], top: tx[5] - font, width, font, scaleX: width / natural });
+    }
+    return out;
+}
+
+function marksFor(boxes: TextBox[], terms: string[], passages: string[]): Mark[] {
+    const needles = terms.map((t) => t.toLocaleLowerCase("tr-TR")).filter(Boolean);
+    const out: Mark[] = [];
+
+    for (const b of boxes) {
+        const piece = normalize(b.text);
+        if (piece.length >= MIN_PASSAGE_PIECE && passages.some((p) => p.includes(piece))) {
+            out.push({ left: b.left, top: b.top, width: b.width, height: b.font, kind: "passage" });
+        }
+
+        // tr-TR küçültme uzunluğu korumuyorsa konumlar kayar; o parça atlanır
+        const lower = b.text.toLocaleLowerCase("tr-TR");
+        if (needles.length === 0 || lower.length !== b.text.length) continue;
+        for (const n of needles) {
+            for (let i = lower.indexOf(n); i !== -1; i = lower.indexOf(n, i + n.length)) {
+                const x = measure(b.text.slice(0, i), b.font) * b.scaleX;
+                const w = measure(b.text.slice(i, i + n.length), b.font) * b.scaleX;
+                out.push({ left: b.left + x, top: b.top, width: w, height: b.font, kind: "term" });
+            }
+        }
+    }
+    return out;
+}
+
+function PdfPageView({
+    doc,
+    pageNumber,
+    scale,
+    placeholder,
+    root,
+    terms,
+    passages,
+    highlights,
+}: {
+    doc: PdfDocument;
+    pageNumber: number;
+    scale: number;
+    placeholder: { width: number; height: number };
+    root: HTMLElement | null;
+    terms: string[];
+    passages: string[]; // bu sayfanın kaynak cümleleri (normalize edilmiş)
+    highlights: Highlight[];
+}) {
+    const wrapRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [page, setPage] = useState<PdfPage | null>(null);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [visible, setVisible] = useState<boolean>(false);
+    const [boxes, setBoxes] = useState<TextBox[]>([]);
+
+    // Yakına gelen sayfa bir kez çizilir ve çizili kalır
+    useEffect(() => {
+        const el = wrapRef.current;
+        if (!el || visible) return;
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries.some((e) => e.isIntersecting)) {
+                    setVisible(true);
+                    observer.disconnect();
+                }
+            },
+            { root, rootMargin: "800px 0px" }
+        );
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, [root, visible]);
+
+    useEffect(() => {
+        if (!visible) return;
+        let alive = true;
+        doc.getPage(pageNumber)
+            .then((p) => {
+                if (!alive) return;
+                const v = p.getViewport({ scale });
+                setPage(p);
+                setSize({ width: v.width, height: v.height });
+            })
+            .catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, [doc, pageNumber, scale, visible]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!page || !canvas) return;
+        const viewport = page.getViewport({ scale });
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(viewport.width * dpr);
+        canvas.height = Math.floor(viewport.height * dpr);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        let alive = true;
+        const task = page.render({ canvasContext: ctx, viewport, transform: dpr !== 1 ? [dpr, 0, 0, dpr, 0, 0] : undefined });
+        task.promise.catch((e: unknown) => {
+            if ((e as { name?: string })?.name !== "RenderingCancelledException") console.error(e);
+        });
+        (async () => {
+            const [pdfjs, content] = await Promise.all([loadPdfjs(), page.getTextContent()]);
+            if (alive) setBoxes(textBoxes(content.items, viewport, pdfjs.Util));
+        })().catch((e) => console.error(e));
+
+        return () => {
+            alive = false;
+            task.cancel();
+        };
+    }, [page, scale]);
+
+    const marks = useMemo(() => marksFor(boxes, terms, passages), [boxes, terms, passages]);
+    const { width, height } = size ?? placeholder;
+
+    return (
+        <div
+            ref={wrapRef}
+            data-page={pageNumber}
+            style={{ position: "relative", width, height, margin: "0 auto 12px", background: "#fff", boxShadow: "0 1px 4px rgba(0,0,0,0.2)" }}
+        >
+            <canvas ref={canvasRef} style={{ position: "absolute", inset: 0, width, height }} />
+
+            <div style={{ position: "absolute", inset: 0, pointerEvents: "none", mixBlendMode: "multiply" }}>
+                {marks.map((m, i) => (
+                    <div
+                        key={i}
+                        style={{ position: "absolute", left: m.left, top: m.top, width: m.width, height: m.height, background: MARK_FILLS[m.kind] }}
+                    />
+                ))}
+                {highlights.flatMap((h) =>
+                    h.rects.map((r, i) => (
+                        <div
+                            key={`${h.id}-${i}`}
+                            title={h.note ?? h.quote}
+                            style={{
+                                position: "absolute",
+                                left: r.x * width,
+                                top: r.y * height,
+                                width: r.w * width,
+                                height: r.h * height,
+                                background: (HIGHLIGHT_COLORS[h.color] ?? HIGHLIGHT_COLORS.yellow).fill,
+                            }}
+                        />
+                    ))
+                )}
+            </div>
+
+            {/* Seçilebilir, görünmez metin katmanı */}
+            <div style={{ position: "absolute", inset: 0, overflow: "hidden", lineHeight: 1, userSelect: "text" }}>
+                {boxes.map((b, i) => (
+                    <span
+                        key={i}
+                        style={{
+                            position: "absolute",
+                            left: b.left,
+                            top: b.top,
+                            fontSize: b.font,
+                            fontFamily: "sans-serif",
+                            whiteSpace: "pre",
+                            color: "transparent",
+                            transformOrigin: "0 0",
+                            transform: `scaleX(${b.scaleX})`,
+                        }}
+                    >
+                        {b.text}
+                    </span>
+                ))}
+            </div>
+
+            <div style={{ position: "absolute", right: 6, bottom: 4, fontSize: 11, color: "#999" }}>{pageNumber}</div>
+        </div>
+    );
+}
+
+function clampUnit(n: number) {
+    return Math.min(1, Math.max(0, n));
+}
+
+export function PdfViewer({
+    summaryId,
+    attachmentId,
+    name,
+    focus,
+    terms,
+    passages,
+    onStatus,
+    onClose,
+}: {
+    summaryId: string;
+    attachmentId: string;
+    name: string;
+    focus: { page: number; nonce: number } | null; // değiştikçe o sayfaya kaydırılır
+    terms: string[]; // özette vurgulanan anahtar kelimeler
+    passages: SourcePassage[]; // seçili bölümün kaynak cümleleri
+    onStatus: (s: string) => void;
+    onClose: () => void;
+}) {
+    const scrollRef = useRef<HTMLDivElement | null>(null);
+    // Sayfalar görünürlüğü bu kaydırma kutusuna göre izler (render sırasında ref okunmasın diye state'te de tutulur)
+    const [scrollRoot, setScrollRoot] = useState<HTMLDivElement | null>(null);
+    const attachScroll = useCallback((el: HTMLDivElement | null) => {
+        scrollRef.current = el;
+        setScrollRoot(el);
+    }, []);
+    const [doc, setDoc] = useState<PdfDocument | null>(null);
+    const [layout, setLayout] = useState<{ scale: number; width: number; height: number } | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [highlights, setHighlights] = useState<Highlight[]>([]);
+    const [color, setColor] = useState<string>("yellow");
+    const [draftNote, setDraftNote] = useState<string>("");
+    const [saving, setSaving] = useState<boolean>(false);
+
+    useEffect(() => {
+        let alive = true;
+        let loaded: PdfDocument | null = null;
+        setDoc(null);
+        setLayout(null);
+        setLoadError(null);
+
+        (async () => {
+            const res = await fetch(`/api/attachments/${attachmentId}`);
+            if (!res.ok) {
+                const json: unknown = await res.json().catch(() => null);
+                throw new Error(isErrResponse(json) ? json.error : `PDF alınamadı (${res.status}).`);
+            }
+            const data = new Uint8Array(await res.arrayBuffer());
+
+            const pdfjs = await loadPdfjs();
+            loaded = await pdfjs.getDocument({ data }).promise;
+            if (!alive) {
+                // Temizlik belge yüklenmeden çalıştıysa belgeyi burada kapat
+                loaded.destroy().catch(() => undefined);
+                return;
+            }
+
+            // İlk sayfa panel genişliğine sığdırılır; diğer sayfalar çizilene kadar aynı boyutta yer tutar.
+            const base = (await loaded.getPage(1)).getViewport({ scale: 1 });
+            const available = (scrollRef.current?.clientWidth ?? 800) - 32;
+            const scale = Math.min(2, Math.max(0.5, available / base.width));
+            if (!alive) return;
+            setLayout({ scale, width: base.width * scale, height: base.height * scale });
+            setDoc(loaded);
+        })().catch((e: unknown) => {
+            if (alive) setLoadError(e instanceof Error ? e.message : String(e));
+        });
+
+        return () => {
+            alive = false;
+            loaded?.destroy().catch(() => undefined);
+        };
+    }, [attachmentId]);
+
+    useEffect(() => {
+        let alive = true;
+        (async () => {
+            const res = await fetch(`/api/summary/${summaryId}/highlights`);
+            const json: unknown = await res.json().catch(() => null);
+            if (alive && res.ok && isOkResponse(json)) setHighlights(json.data as Highlight[]);
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, [summaryId]);
+
+    function scrollToPage(page: number) {
+        scrollRef.current?.querySelector(`[data-page="${page}"]`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }
+
+    useEffect(() => {
+        if (doc && focus) scrollToPage(focus.page);
+    }, [doc, focus]);
+
+    const passagesByPage = useMemo(() => {
+        const map = new Map<number, string[]>();
+        for (const p of passages) map.set(p.page, [...(map.get(p.page) ?? []), normalize(p.text)]);
+        return map;
+    }, [passages]);
+
+    const highlightsByPage = useMemo(() => {
+        const map = new Map<number, Highlight[]>();
+        for (const h of highlights) map.set(h.page, [...(map.get(h.page) ?? []), h]);
+        return map;
+    }, [highlights]);
+
+    async function addHighlight() {
+        const sel = window.getSelection();
+        const range = sel && !sel.isCollapsed && sel.rangeCount > 0 ? sel.getRangeAt(0) : null;
+        const start = range ? range.startContainer : null;
+        const pageEl = (start instanceof Element ? start : start?.parentElement)?.closest<HTMLElement>("[data-page]");
+        if (!range || !pageEl || !scrollRef.current?.contains(pageEl)) {
+            onStatus("Önce PDF üzerinde bir metin seç.");
+            return;
+        }
+
+        // Birden çok sayfaya taşan seçimde sadece ilk sayfadaki kısım işaretlenir.
+        const box = pageEl.getBoundingClientRect();
+        const rects = [...range.getClientRects()]
+            .filter((r) => r.width > 1 && r.height > 1 && r.top >= box.top - 1 && r.bottom <= box.bottom + 1)
+            .map((r) => ({
+                x: clampUnit((r.left - box.left) / box.width),
+                y: clampUnit((r.top - box.top) / box.height),
+                w: clampUnit(r.width / box.width),
+                h: clampUnit(r.height / box.height),
+            }));
+        const quote = sel!.toString().replace(/\s+/g, " ").trim();
+        if (rects.length === 0 || !quote) {
+            onStatus("Seçim işaretlenemedi.");
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const res = await fetch(`/api/summary/${summaryId}/highlights`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ page: Number(pageEl.dataset.page), quote, rects, color, note: draftNote }),
+            });
+            const json: unknown = await res.json().catch(() => null);
+            if (!res.ok || !isOkResponse(json)) {
+                onStatus(isErrResponse(json) ? json.error : `İşaret eklenemedi (${res.status}).`);
+                return;
+            }
+            const created = json.data as Highlight;
+            setHighlights((prev) => [...prev, created].sort((a, b) => a.page - b.page));
+            setDraftNote("");
+            sel!.removeAllRanges();
+        } catch (e) {
+            console.error(e);
+            onStatus("İşaret eklenemedi (ağ hatası).");
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function patchHighlight(id: string, patch: { note?: string; color?: string }) {
+        try {
+            const res = await fetch(`/api/summary/${summaryId}/highlights/${id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(patch),
+            });
+            const json: unknown = await res.json().catch(() => null);
+            if (!res.ok || !isOkResponse(json)) {
+                onStatus(isErrResponse(json) ? json.error : `Not kaydedilemedi (${res.status}).`);
+                return;
+            }
+            const updated = json.data as Highlight;
+            setHighlights((prev) => prev.map((h) => (h.id === id ? updated : h)));
+        } catch (e) {
+            console.error(e);
+            onStatus("Not kaydedilemedi (ağ hatası).");
+        }
+    }
+
+    async function removeHighlight(id: string) {
+        try {
+            const res = await fetch(`/api/summary/${summaryId}/highlights/${id}`, { method: "DELETE" });
+            if (!res.ok) {
+                onStatus(`İşaret silinemedi (${res.status}).`);
+                return;
+            }
+            setHighlights((prev) => prev.filter((h) => h.id !== id));
+        } catch (e) {
+            console.error(e);
+            onStatus("İşaret silinemedi (ağ hatası).");
+        }
+    }
+
+    return (
+        <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 10, background: "#f4f4f4", color: "#000" }}>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center", padding: "8px 12px", borderBottom: "1px solid #ddd" }}>
+                <strong style={{ fontSize: 13, flex: 1, minWidth: 120 }}>📄 {name}</strong>
+                {passages.length > 0 && (
+                    <span style={{ fontSize: 12, color: "#0b57d0" }}>{passages.length} kaynak cümle işaretli</span>
+                )}
+                <select value={color} onChange={(e) => setColor(e.target.value)} style={{ fontSize: 12 }}>
+                    {Object.entries(HIGHLIGHT_COLORS).map(([key, c]) => (
+                        <option key={key} value={key}>
+                            {c.label}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    value={draftNote}
+                    placeholder="Not (isteğe bağlı)"
+                    onChange={(e) => setDraftNote(e.target.value)}
+                    style={{ fontSize: 12, padding: "2px 6px", width: 180 }}
+                />
+                {/* mousedown'da seçim kaybolmasın */}
+                <button onMouseDown={(e) => e.preventDefault()} onClick={addHighlight} disabled={saving || !doc} style={{ fontSize: 12 }}>
+                    {saving ? "Kaydediliyor…" : "Seçimi işaretle"}
+                </button>
+                <button onClick={onClose} style={{ fontSize: 12 }}>
+                    Kapat
+                </button>
+            </div>
+
+            <div style={{ display: "flex", alignItems: "stretch" }}>
+                <div ref={attachScroll} style={{ flex: 1, height: "75vh", overflow: "auto", padding: 16 }}>
+                    {loadError && <p style={{ color: "#b00020", fontSize: 13 }}>{loadError}</p>}
+                    {!loadError && !doc && <p style={{ color: "#777", fontSize: 13 }}>PDF yükleniyor…</p>}
+                    {doc &&
+                        layout &&
+                        Array.from({ length: doc.numPages }, (_, i) => i + 1).map((n) => (
+                            <PdfPageView
+                                key={n}
+                                doc={doc}
+                                pageNumber={n}
+                                scale={layout.scale}
+                                placeholder={layout}
+                                root={scrollRoot}
+                                terms={terms}
+                                passages={passagesByPage.get(n) ?? NO_PASSAGES}
+                                highlights={highlightsByPage.get(n) ?? NO_HIGHLIGHTS}
+                            />
+                        ))}
+                </div>
+
+                <div style={{ width: 240, height: "75vh", overflow: "auto", borderLeft: "1px solid #ddd", padding: 10, fontSize: 12, background: "#fff" }}>
+                    <strong>İşaretlerim ({highlights.length})</strong>
+                    {highlights.length === 0 && <p style={{ color: "#777" }}>PDF&apos;te metin seçip “Seçimi işaretle”ye bas.</p>}
+                    {highlights.map((h) => (
+                        <div key={h.id} style={{ marginTop: 8, paddingTop: 8, borderTop: "1px solid #eee" }}>
+                            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 4 }}>
+                                <button onClick={() => scrollToPage(h.page)} style={{ fontSize: 11 }}>
+                                    s. {h.page}
+                                </button>
+                                <select value={h.color} onChange={(e) => patchHighlight(h.id, { color: e.target.value })} style={{ fontSize: 11 }}>
+                                    {Object.entries(HIGHLIGHT_COLORS).map(([key, c]) => (
+                                        <option key={key} value={key}>
+                                            {c.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <button onClick={() => removeHighlight(h.id)} title="İşareti sil" style={{ fontSize: 11 }}>
+                                    ×
+                                </button>
+                            </div>
+                            <div
+                                style={{
+                                    margin: "4px 0",
+                                    paddingLeft: 6,
+                                    borderLeft: `3px solid ${(HIGHLIGHT_COLORS[h.color] ?? HIGHLIGHT_COLORS.yellow).fill}`,
+                                    fontStyle: "italic",
+                                }}
+                            >
+                                {h.quote.length > 160 ? `${h.quote.slice(0, 160)}…` : h.quote}
+                            </div>
+                            <textarea
+                                key={`${h.id}-${h.note ?? ""}`}
+                                defaultValue={h.note ?? ""}
+                                placeholder="Not ekle…"
+                                rows={2}
+                                onBlur={(e) => {
+                                    if (e.target.value.trim() !== (h.note ?? "")) patchHighlight(h.id, { note: e.target.value });
+                                }}
+                                style={{ width: "100%", fontSize: 12, boxSizing: "border-box" }}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+// src/app/pdfjs.ts
+// pdfjs sadece tarayıcıda, ihtiyaç olunca yüklenir; worker paketle birlikte bundle'lanır (harici CDN yok).
+// Kullandığımız kadarını tipliyoruz (kütüphanenin kendi tipleri legacy build ile uyuşmuyor).
+
+export type PdfViewport = { width: number; height: number; scale: number; transform: number[] };
+
+export type PdfTextItem = { str: string; transform: number[]; width: number; height: number };
+
+export type PdfPage = {
+    getViewport: (opts: { scale: number }) => PdfViewport;
+    render: (opts: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport; transform?: number[] }) => {
+        promise: Promise<void>;
+        cancel: () => void;
+    };
+    // İşaretli içerik (marked content) öğelerinde str yoktur
+    getTextContent: () => Promise<{ items: Array<PdfTextItem | { type: string }> }>;
+};
+
+export type PdfDocument = {
+    numPages: number;
+    getPage: (n: number) => Promise<PdfPage>;
+    destroy: () => Promise<void>;
+};
+
+export type Pdfjs = {
+    version: string;
+    GlobalWorkerOptions: { workerSrc: string };
+    getDocument: (src: { data: Uint8Array }) => { promise: Promise<PdfDocument> };
+    Util: { transform: (m1: number[], m2: number[]) => number[] };
+};
+
+export async function loadPdfjs(): Promise<Pdfjs> {
+    const pdfjs = (await import("pdfjs-dist/legacy/build/pdf.mjs")) as unknown as Pdfjs;
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/legacy/build/pdf.worker.min.mjs", import.meta.url).toString();
+    return pdfjs;
+}
@@ -0,0 +1,175 @@
+"use client";
+
+// src/app/revision-panel.tsx
+// Özetin revizyon geçmişi: mevcut hâlle fark ve eski revizyonu geri yükleme.
+import { useEffect, useState } from "react";
+import { isErrResponse, isOkResponse, type SummaryData } from "./api-types";
+import { formatDateTR } from "./format";
+
+type Revision = {
+    id: string;
+    number: number;
+    kind: "generated" | "edit" | "restore" | "refine";
+    title: string;
+    restoredFrom: number | null;
+    createdAt: string;
+    author: { id: string; name: string | null; email: string | null };
+};
+
+type RevisionDiff = {
+    title: { from: string; to: string } | null;
+    keywords: { added: string[]; removed: string[] };
+    summary: Array<{ op: "equal" | "add" | "remove"; text: string }>;
+};
+
+const REVISION_KIND_LABELS: Record<Revision["kind"], string> = {
+    generated: "Üretilen",
+    edit: "Düzenleme",
+    restore: "Geri yükleme",
+    refine: "Yeniden üretim",
+};
+
+// Diff'te değişmeyen uzun bölümler katlanır; değişikliğin etrafında bu kadar satır bağlam kalır.
+const DIFF_CONTEXT = 2;
+
+function DiffView({ diff }: { diff: RevisionDiff }) {
+    const keep = diff.summary.map((_, i) =>
+        diff.summary.slice(Math.max(0, i - DIFF_CONTEXT), i + DIFF_CONTEXT + 1).some((l) => l.op !== "equal")
+    );
+    const changed = keep.some(Boolean) || diff.title || diff.keywords.added.length > 0 || diff.keywords.removed.length > 0;
+
+    return (
+        <div style={{ fontSize: 12, color: "#000" }}>
+            {!changed && <div style={{ color: "#777" }}>Fark yok.</div>}
+            {diff.title && (
+                <div style={{ marginBottom: 6 }}>
+                    <strong>Başlık:</strong> <del style={{ color: "#a00" }}>{diff.title.from}</del> →{" "}
+                    <ins style={{ color: "#070", textDecoration: "none" }}>{diff.title.to}</ins>
+                </div>
+            )}
+            {(diff.keywords.added.length > 0 || diff.keywords.removed.length > 0) && (
+                <div style={{ marginBottom: 6 }}>
+                    <strong>Anahtar kelimeler:</strong>{" "}
+                    {diff.keywords.removed.map((k) => (
+                        <del key={`-${k}`} style={{ color: "#a00", marginRight: 6 }}>
+                            {k}
+                        </del>
+                    ))}
+                    {diff.keywords.added.map((k) => (
+                        <ins key={`+${k}`} style={{ color: "#070", marginRight: 6, textDecoration: "none" }}>
+                            +{k}
+                        </ins>
+                    ))}
+                </div>
+            )}
+            <pre style={{ margin: 0, whiteSpace: "pre-wrap", fontFamily: "ui-monospace, monospace", maxHeight: 320, overflowY: "auto" }}>
+                {diff.summary.map((l, i) =>
+                    keep[i] ? (
+                        <div
+                            key={i}
+                            style={{ background: l.op === "add" ? "#e6ffec" : l.op === "remove" ? "#ffebe9" : undefined }}
+                        >
+                            {l.op === "add" ? "+ " : l.op === "remove" ? "- " : "  "}
+                            {l.text}
+                        </div>
+                    ) : i > 0 && keep[i - 1] ? (
+                        <div key={i} style={{ color: "#999" }}>
+                            ⋯
+                        </div>
+                    ) : null
+                )}
+            </pre>
+        </div>
+    );
+}
+
+export function RevisionPanel({
+    summaryId,
+    version,
+    onRestored,
+    onStatus,
+}: {
+    summaryId: string;
+    version: string; // özet içeriği değişince liste yeniden yüklenir
+    onRestored: (data: SummaryData) => void;
+    onStatus: (s: string) => void;
+}) {
+    const [revisions, setRevisions] = useState<Revision[]>([]);
+    const [diff, setDiff] = useState<{ id: string; data: RevisionDiff } | null>(null);
+
+    useEffect(() => {
+        let alive = true;
+        setDiff(null);
+        (async () => {
+            const res = await fetch(`/api/summary/${summaryId}/revisions`);
+            const json: unknown = await res.json().catch(() => null);
+            if (alive && res.ok && isOkResponse(json)) setRevisions(json.data as Revision[]);
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, [summaryId, version]);
+
+    async function showDiff(id: string) {
+        if (diff?.id === id) return setDiff(null);
+        const res = await fetch(`/api/summary/${summaryId}/revisions/diff?from=${encodeURIComponent(id)}&to=current`);
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            onStatus(isErrResponse(json) ? json.error : `Fark alınamadı (${res.status}).`);
+            return;
+        }
+        setDiff({ id, data: json.data as RevisionDiff });
+    }
+
+    async function restore(rev: Revision) {
+        if (!confirm(`#${rev.number} revizyonu geri yüklensin mi? Şu anki hâl geçmişte kalır.`)) return;
+        const res = await fetch(`/api/summary/${summaryId}/revisions/${rev.id}/restore`, { method: "POST" });
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            onStatus(isErrResponse(json) ? json.error : `Geri yükleme başarısız (${res.status}).`);
+            return;
+        }
+        onRestored(json.data as SummaryData);
+        onStatus(`#${rev.number} geri yüklendi ✅`);
+    }
+
+    if (revisions.length === 0) {
+        return <div style={{ color: "#777", fontSize: 13 }}>Henüz düzenleme yok; ilk kayıtla birlikte revizyon geçmişi başlar.</div>;
+    }
+
+    return (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+            {revisions.map((r, i) => (
+                <div key={r.id} style={{ padding: 8, background: "#fff", border: "1px solid #eee", borderRadius: 8, fontSize: 13, color: "#000" }}>
+                    <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <strong>#{r.number}</strong>
+                        <span>
+                            {REVISION_KIND_LABELS[r.kind] ?? r.kind}
+                            {r.restoredFrom ? ` (#${r.restoredFrom})` : ""}
+                        </span>
+                        <span style={{ color: "#666", fontSize: 12 }}>
+                            {r.author.name || r.author.email || "—"} • {formatDateTR(new Date(r.createdAt).getTime())}
+                        </span>
+                        <div style={{ flex: 1 }} />
+                        {i > 0 && (
+                            <>
+                                <button onClick={() => showDiff(r.id)} style={{ fontSize: 11 }}>
+                                    {diff?.id === r.id ? "Farkı gizle" : "Fark"}
+                                </button>
+                                <button onClick={() => restore(r)} style={{ fontSize: 11 }}>
+                                    Geri yükle
+                                </button>
+                            </>
+                        )}
+                        {i === 0 && <span style={{ fontSize: 11, color: "#070" }}>güncel</span>}
+                    </div>
+                    {diff?.id === r.id && (
+                        <div style={{ marginTop: 8 }}>
+                            <DiffView diff={diff.data} />
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
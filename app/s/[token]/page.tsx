@@ -0,0 +1,15 @@
+// src/app/s/[token]/page.tsx
+import type { Metadata } from "next";
+import SharedSummary from "./shared-summary";
+
+// Paylaşılan özetler arama motorlarına girmez; bağlantıyı bilen okur.
+export const metadata: Metadata = {
+    title: "Paylaşılan özet · Jethülasa",
+    robots: { index: false, follow: false },
+    referrer: "no-referrer",
+};
+
+export default async function SharedSummaryPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+    return <SharedSummary token={token} />;
+}
@@ -0,0 +1,102 @@
+"use client";
+
+// src/app/s/[token]/shared-summary.tsx
+import { useCallback, useEffect, useState } from "react";
+import { SummaryView } from "../../summary-view";
+
+type SharedData = {
+    title: string;
+    summary: string;
+    keywords: string[];
+    source: string;
+    createdAt: string;
+    expiresAt: string | null;
+};
+
+type ShareResponse =
+    | { ok: true; data: SharedData }
+    | { ok: false; error: string; passwordRequired?: boolean };
+
+export default function SharedSummary({ token }: { token: string }) {
+    const [data, setData] = useState<SharedData | null>(null);
+    const [error, setError] = useState<string>("");
+    const [needsPassword, setNeedsPassword] = useState<boolean>(false);
+    const [password, setPassword] = useState<string>("");
+    const [loading, setLoading] = useState<boolean>(true);
+
+    const open = useCallback(
+        async (pw: string | null) => {
+            setLoading(true);
+            setError("");
+            try {
+                const url = `/api/share/${encodeURIComponent(token)}`;
+                const res = await fetch(
+                    url,
+                    pw === null
+                        ? { method: "GET", cache: "no-store" }
+                        : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ password: pw }) }
+                );
+                const json = (await res.json()) as ShareResponse;
+                if (json.ok) {
+                    setData(json.data);
+                    setNeedsPassword(false);
+                } else {
+                    setNeedsPassword(Boolean(json.passwordRequired));
+                    // İlk açılışta parola sorulması hata değildir
+                    setError(json.passwordRequired && pw === null ? "" : json.error);
+                }
+            } catch {
+                setError("Paylaşım yüklenemedi.");
+            } finally {
+                setLoading(false);
+            }
+        },
+        [token]
+    );
+
+    useEffect(() => {
+        void open(null);
+    }, [open]);
+
+    return (
+        <main style={{ maxWidth: 860, margin: "0 auto", padding: 24 }}>
+            {loading && !data && <p style={{ color: "#666" }}>Yükleniyor…</p>}
+
+            {needsPassword && !data && (
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        if (password) void open(password);
+                    }}
+                    style={{ display: "flex", flexDirection: "column", gap: 10, maxWidth: 360, marginTop: 40 }}
+                >
+                    <strong>Bu özet parola ile korunuyor</strong>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Parola"
+                        autoFocus
+                        style={{ padding: 8, border: "1px solid #ddd", borderRadius: 8 }}
+                    />
+                    <button type="submit" disabled={loading || !password} style={{ padding: "8px 12px", borderRadius: 8 }}>
+                        Aç
+                    </button>
+                </form>
+            )}
+
+            {error && <p style={{ color: "#b00020", marginTop: 16 }}>{error}</p>}
+
+            {data && (
+                <article>
+                    <h1 style={{ marginBottom: 4 }}>{data.title}</h1>
+                    <p style={{ marginTop: 0, color: "#666", fontSize: 13 }}>
+                        {new Date(data.createdAt).toLocaleDateString("tr-TR")} · {data.source}
+                        {data.expiresAt && ` · ${new Date(data.expiresAt).toLocaleDateString("tr-TR")} tarihine kadar erişilebilir`}
+                    </p>
+                    <SummaryView markdown={data.summary} keywords={data.keywords} />
+                </article>
+            )}
+        </main>
+    );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+// src/app/share-panel.tsx
+// Özetin herkese açık bağlantıları (/s/[token]): süre/parola ile oluşturma, kopyalama, iptal.
+import { useEffect, useState } from "react";
+import { isErrResponse, isOkResponse } from "./api-types";
+import { formatDateTR } from "./format";
+
+type Share = {
+    id: string;
+    token: string;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    viewCount: number;
+    lastViewedAt: string | null;
+    createdAt: string;
+};
+
+function shareUrl(token: string) {
+    return `${window.location.origin}/s/${token}`;
+}
+
+export function SharePanel({ summaryId, onStatus }: { summaryId: string; onStatus: (s: string) => void }) {
+    const [shares, setShares] = useState<Share[]>([]);
+    const [expiresInDays, setExpiresInDays] = useState<string>("");
+    const [password, setPassword] = useState<string>("");
+    const [busy, setBusy] = useState<boolean>(false);
+
+    useEffect(() => {
+        let alive = true;
+        (async () => {
+            const res = await fetch(`/api/summary/${summaryId}/shares`);
+            const json: unknown = await res.json().catch(() => null);
+            if (alive && res.ok && isOkResponse(json)) setShares(json.data as Share[]);
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, [summaryId]);
+
+    async function copyLink(token: string) {
+        try {
+            await navigator.clipboard.writeText(shareUrl(token));
+            onStatus("Bağlantı kopyalandı ✅");
+        } catch {
+            onStatus(shareUrl(token));
+        }
+    }
+
+    async function create() {
+        setBusy(true);
+        try {
+            const days = Number(expiresInDays);
+            const res = await fetch(`/api/summary/${summaryId}/shares`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    expiresInDays: expiresInDays.trim() ? days : undefined,
+                    password: password || undefined,
+                }),
+            });
+            const json: unknown = await res.json().catch(() => null);
+            if (!res.ok || !isOkResponse(json)) {
+                onStatus(isErrResponse(json) ? json.error : `Bağlantı oluşturulamadı (${res.status}).`);
+                return;
+            }
+            const share = json.data as Share;
+            setShares((prev) => [share, ...prev]);
+            setPassword("");
+            await copyLink(share.token);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function revoke(share: Share) {
+        if (!confirm("Bağlantı iptal edilsin mi? Bağlantıyı bilen kimse artık açamaz.")) return;
+        const res = await fetch(`/api/summary/${summaryId}/shares/${share.id}`, { method: "DELETE" });
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            onStatus(isErrResponse(json) ? json.error : `İptal başarısız (${res.status}).`);
+            return;
+        }
+        setShares((prev) => prev.map((s) => (s.id === share.id ? { ...s, revokedAt: new Date().toISOString() } : s)));
+        onStatus("Bağlantı iptal edildi.");
+    }
+
+    const now = Date.now();
+
+    return (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+            <div style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                <input
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={expiresInDays}
+                    placeholder="Süre (gün, boş = süresiz)"
+                    onChange={(e) => setExpiresInDays(e.target.value)}
+                    style={{ width: 190, padding: "4px 8px" }}
+                />
+                <input
+                    type="password"
+                    value={password}
+                    placeholder="Parola (isteğe bağlı)"
+                    onChange={(e) => setPassword(e.target.value)}
+                    style={{ flex: 1, padding: "4px 8px" }}
+                />
+                <button onClick={create} disabled={busy} style={{ fontSize: 12 }}>
+                    {busy ? "Oluşturuluyor…" : "Bağlantı oluştur"}
+                </button>
+            </div>
+
+            {shares.map((s) => {
+                const expired = s.expiresAt !== null && new Date(s.expiresAt).getTime() <= now;
+                const active = !s.revokedAt && !expired;
+                return (
+                    <div
+                        key={s.id}
+                        style={{
+                            display: "flex",
+                            gap: 8,
+                            alignItems: "center",
+                            padding: 8,
+                            background: "#fff",
+                            border: "1px solid #eee",
+                            borderRadius: 8,
+                            fontSize: 13,
+                            color: active ? "#000" : "#999",
+                        }}
+                    >
+                        <span style={{ fontFamily: "ui-monospace, monospace", fontSize: 12 }}>/s/{s.token.slice(0, 8)}…</span>
+                        {s.hasPassword && <span title="Parolalı">🔒</span>}
+                        <span style={{ color: "#666", fontSize: 12 }}>
+                            {s.viewCount} görüntülenme
+                            {s.lastViewedAt ? ` • son ${formatDateTR(new Date(s.lastViewedAt).getTime())}` : ""}
+                            {s.revokedAt
+                                ? " • iptal edildi"
+                                : s.expiresAt
+                                  ? ` • ${expired ? "süresi doldu" : `${formatDateTR(new Date(s.expiresAt).getTime())} tarihine kadar`}`
+                                  : ""}
+                        </span>
+                        <div style={{ flex: 1 }} />
+                        {active && (
+                            <>
+                                <button onClick={() => copyLink(s.token)} style={{ fontSize: 11 }}>
+                                    Kopyala
+                                </button>
+                                <button onClick={() => revoke(s)} style={{ fontSize: 11 }}>
+                                    İptal et
+                                </button>
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
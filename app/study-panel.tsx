@@ -0,0 +1,276 @@
+"use client";
+
+// src/app/study-panel.tsx
+// Çalışma modu: özetten quiz ve aralıklı tekrarlı kartlar.
+import { useEffect, useState } from "react";
+import { isErrResponse, isOkResponse } from "./api-types";
+
+type QuizQuestion = {
+    id: string;
+    type: "multiple_choice" | "true_false" | "open";
+    prompt: string;
+    options: string[] | null;
+    answer: number | boolean | string;
+    explanation: string | null;
+    pageRef: string | null;
+};
+
+type Quiz = { id: string; createdAt: string; questions: QuizQuestion[] };
+
+type Flashcard = { id: string; term: string; definition: string; pageRef: string | null; dueAt: string; intervalDays: number };
+
+type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+const REVIEW_BUTTONS: Array<{ grade: ReviewGrade; label: string }> = [
+    { grade: "again", label: "Tekrar" },
+    { grade: "hard", label: "Zor" },
+    { grade: "good", label: "İyi" },
+    { grade: "easy", label: "Kolay" },
+];
+
+function formatDue(iso: string) {
+    const ms = new Date(iso).getTime() - Date.now();
+    if (ms <= 0) return "şimdi";
+    const min = Math.round(ms / 60000);
+    if (min < 60) return `${min} dk sonra`;
+    const days = Math.round(ms / 86400000);
+    return days < 1 ? `${Math.round(min / 60)} sa sonra` : `${days} gün sonra`;
+}
+
+export function StudyPanel({ summaryId, onStatus }: { summaryId: string; onStatus: (s: string) => void }) {
+    const [tab, setTab] = useState<"quiz" | "cards">("quiz");
+    const [busy, setBusy] = useState<boolean>(false);
+
+    const [quiz, setQuiz] = useState<Quiz | null>(null);
+    const [quizAnswers, setQuizAnswers] = useState<Record<string, number | boolean | string>>({});
+    const [quizChecked, setQuizChecked] = useState<boolean>(false);
+
+    const [cards, setCards] = useState<Flashcard[]>([]);
+    const [dueCards, setDueCards] = useState<Flashcard[]>([]);
+    const [flipped, setFlipped] = useState<boolean>(false);
+
+    async function call<T>(url: string, init?: RequestInit): Promise<T | null> {
+        const res = await fetch(url, init);
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            onStatus(isErrResponse(json) ? json.error : `İstek başarısız (${res.status}).`);
+            return null;
+        }
+        return json.data as T;
+    }
+
+    async function loadCards() {
+        const [all, due] = await Promise.all([
+            call<Flashcard[]>(`/api/summary/${summaryId}/flashcards`),
+            call<Flashcard[]>(`/api/summary/${summaryId}/flashcards?due=1`),
+        ]);
+        if (all) setCards(all);
+        if (due) setDueCards(due);
+        setFlipped(false);
+    }
+
+    // Özet değişince son quiz ve kartlar yüklenir
+    useEffect(() => {
+        let alive = true;
+        setQuiz(null);
+        setQuizAnswers({});
+        setQuizChecked(false);
+        setCards([]);
+        setDueCards([]);
+        (async () => {
+            const quizzes = await call<Quiz[]>(`/api/summary/${summaryId}/quiz`);
+            if (alive && quizzes?.[0]) setQuiz(quizzes[0]);
+            if (alive) await loadCards();
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [summaryId]);
+
+    async function generate(kind: "quiz" | "flashcards") {
+        setBusy(true);
+        onStatus(kind === "quiz" ? "Quiz hazırlanıyor…" : "Kartlar hazırlanıyor…");
+        try {
+            // quiz: yeni Quiz; flashcards: üretilen kartlar (liste yeniden yüklenir)
+            const data = await call<Quiz | Flashcard[]>(`/api/summary/${summaryId}/${kind}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({}),
+            });
+            if (!data) return;
+            if (kind === "quiz") {
+                setQuiz(data as Quiz);
+                setQuizAnswers({});
+                setQuizChecked(false);
+            } else {
+                await loadCards();
+            }
+            onStatus("");
+        } catch (e) {
+            console.error(e);
+            onStatus("Çalışma materyali üretilemedi (ağ hatası).");
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function review(grade: ReviewGrade) {
+        const card = dueCards[0];
+        if (!card) return;
+        const updated = await call<Flashcard>(`/api/flashcards/${card.id}/review`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ grade }),
+        });
+        if (!updated) return;
+
+        setCards((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+        // "Tekrar" denen kart (10 dk sonra) oturumun sonuna eklenir; diğerleri kuyruktan çıkar.
+        setDueCards((prev) => (grade === "again" ? [...prev.slice(1), updated] : prev.slice(1)));
+        setFlipped(false);
+    }
+
+    const score = quiz
+        ? quiz.questions.filter((q) => q.type !== "open" && quizAnswers[q.id] === q.answer).length
+        : 0;
+    const gradable = quiz ? quiz.questions.filter((q) => q.type !== "open").length : 0;
+    const current = dueCards[0];
+
+    return (
+        <div style={{ marginTop: 16, padding: 16, background: "#fff", border: "1px solid #ddd", borderRadius: 10, color: "#000" }}>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <button onClick={() => setTab("quiz")} style={{ fontWeight: tab === "quiz" ? 700 : 400 }}>
+                    Quiz
+                </button>
+                <button onClick={() => setTab("cards")} style={{ fontWeight: tab === "cards" ? 700 : 400 }}>
+                    Kartlar ({dueCards.length}/{cards.length})
+                </button>
+                <div style={{ flex: 1 }} />
+                {tab === "cards" && cards.length > 0 && (
+                    <a href={`/api/summary/${summaryId}/export?format=anki`} download style={{ fontSize: 12 }}>
+                        Anki'ye aktar
+                    </a>
+                )}
+                <button onClick={() => generate(tab === "quiz" ? "quiz" : "flashcards")} disabled={busy}>
+                    {busy ? "Hazırlanıyor…" : tab === "quiz" ? "Yeni quiz" : "Kart üret"}
+                </button>
+            </div>
+
+            {tab === "quiz" &&
+                (!quiz ? (
+                    <p style={{ color: "#777", fontSize: 13 }}>Henüz quiz yok. “Yeni quiz” ile özetten soru üretin.</p>
+                ) : (
+                    <div style={{ marginTop: 12, display: "flex", flexDirection: "column", gap: 14 }}>
+                        {quiz.questions.map((q, i) => {
+                            const given = quizAnswers[q.id];
+                            const set = (v: number | boolean | string) => !quizChecked && setQuizAnswers((p) => ({ ...p, [q.id]: v }));
+                            const mark = (v: number | boolean) =>
+                                quizChecked && v === q.answer ? "#d8f5d8" : quizChecked && v === given ? "#fbdada" : undefined;
+
+                            return (
+                                <div key={q.id} style={{ fontSize: 14 }}>
+                                    <div style={{ fontWeight: 600 }}>
+                                        {i + 1}. {q.prompt}
+                                    </div>
+                                    {q.type === "multiple_choice" &&
+                                        (q.options ?? []).map((o, oi) => (
+                                            <label key={oi} style={{ display: "block", padding: "2px 6px", background: mark(oi) }}>
+                                                <input type="radio" checked={given === oi} onChange={() => set(oi)} /> {o}
+                                            </label>
+                                        ))}
+                                    {q.type === "true_false" &&
+                                        [true, false].map((v) => (
+                                            <label key={String(v)} style={{ marginRight: 12, padding: "2px 6px", background: mark(v) }}>
+                                                <input type="radio" checked={given === v} onChange={() => set(v)} /> {v ? "Doğru" : "Yanlış"}
+                                            </label>
+                                        ))}
+                                    {q.type === "open" && (
+                                        <textarea
+                                            rows={2}
+                                            value={typeof given === "string" ? given : ""}
+                                            disabled={quizChecked}
+                                            onChange={(e) => set(e.target.value)}
+                                            style={{ width: "100%", fontFamily: "inherit" }}
+                                        />
+                                    )}
+                                    {quizChecked && (
+                                        <div style={{ marginTop: 4, fontSize: 12, color: "#333" }}>
+                                            {q.type === "open" && (
+                                                <div>
+                                                    <strong>Örnek cevap:</strong> {String(q.answer)}
+                                                </div>
+                                            )}
+                                            {q.explanation}
+                                            {q.pageRef ? ` (${q.pageRef})` : ""}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                            {quizChecked ? (
+                                <>
+                                    <strong>
+                                        Puan: {score}/{gradable}
+                                    </strong>
+                                    <button
+                                        onClick={() => {
+                                            setQuizAnswers({});
+                                            setQuizChecked(false);
+                                        }}
+                                    >
+                                        Tekrar çöz
+                                    </button>
+                                </>
+                            ) : (
+                                <button onClick={() => setQuizChecked(true)}>Kontrol et</button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+
+            {tab === "cards" &&
+                (cards.length === 0 ? (
+                    <p style={{ color: "#777", fontSize: 13 }}>Henüz kart yok. “Kart üret” ile anahtar kavramlardan kart oluşturun.</p>
+                ) : !current ? (
+                    <p style={{ color: "#333", fontSize: 13 }}>
+                        Tekrar zamanı gelen kart yok. Sıradaki: {formatDue(cards.reduce((a, c) => (c.dueAt < a ? c.dueAt : a), cards[0].dueAt))}
+                    </p>
+                ) : (
+                    <div style={{ marginTop: 12 }}>
+                        <div
+                            onClick={() => setFlipped((f) => !f)}
+                            style={{
+                                minHeight: 110,
+                                padding: 16,
+                                border: "1px solid #ccc",
+                                borderRadius: 10,
+                                cursor: "pointer",
+                                background: flipped ? "#f6f9ff" : "#fafafa",
+                            }}
+                        >
+                            <div style={{ fontSize: 18, fontWeight: 700 }}>{current.term}</div>
+                            {flipped ? (
+                                <div style={{ marginTop: 10, fontSize: 14, whiteSpace: "pre-wrap" }}>
+                                    {current.definition}
+                                    {current.pageRef ? <span style={{ color: "#777" }}> ({current.pageRef})</span> : null}
+                                </div>
+                            ) : (
+                                <div style={{ marginTop: 10, fontSize: 12, color: "#777" }}>Tanımı görmek için tıklayın</div>
+                            )}
+                        </div>
+                        {flipped && (
+                            <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+                                {REVIEW_BUTTONS.map((b) => (
+                                    <button key={b.grade} onClick={() => review(b.grade)} style={{ flex: 1, padding: "6px 0" }}>
+                                        {b.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ))}
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+// src/app/summary-tags.tsx
+// Özet görünümündeki etiketler; anahtar kelimeler tek tıkla etiket olur.
+import { useEffect, useState } from "react";
+import { isErrResponse, isOkResponse } from "./api-types";
+
+export function SummaryTags({
+    summaryId,
+    keywords,
+    onChanged,
+    onStatus,
+}: {
+    summaryId: string;
+    keywords: string[];
+    onChanged: () => void; // etiket listesi/sayıları değişti
+    onStatus: (s: string) => void;
+}) {
+    const [tags, setTags] = useState<Array<{ id: string; name: string }>>([]);
+    const [draft, setDraft] = useState<string>("");
+
+    useEffect(() => {
+        let alive = true;
+        (async () => {
+            const res = await fetch(`/api/summary/${summaryId}/tags`);
+            const json: unknown = await res.json().catch(() => null);
+            if (alive && res.ok && isOkResponse(json)) setTags(json.data as Array<{ id: string; name: string }>);
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, [summaryId]);
+
+    async function addTag(name: string) {
+        if (!name.trim()) return;
+        const res = await fetch(`/api/summary/${summaryId}/tags`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
+        });
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            onStatus(isErrResponse(json) ? json.error : `Etiket eklenemedi (${res.status}).`);
+            return;
+        }
+        const tag = json.data as { id: string; name: string };
+        setTags((prev) => (prev.some((t) => t.id === tag.id) ? prev : [...prev, tag].sort((a, b) => a.name.localeCompare(b.name, "tr"))));
+        setDraft("");
+        onChanged();
+    }
+
+    async function removeTag(tagId: string) {
+        const res = await fetch(`/api/summary/${summaryId}/tags/${tagId}`, { method: "DELETE" });
+        if (!res.ok) {
+            onStatus(`Etiket kaldırılamadı (${res.status}).`);
+            return;
+        }
+        setTags((prev) => prev.filter((t) => t.id !== tagId));
+        onChanged();
+    }
+
+    // Henüz etiket olmayan anahtar kelimeler tek tıkla etiket olur
+    const tagged = new Set(tags.map((t) => t.name.toLocaleLowerCase("tr-TR")));
+    const suggestions = keywords.filter((k) => !tagged.has(k.toLocaleLowerCase("tr-TR"))).slice(0, 12);
+
+    return (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6, alignItems: "center", marginBottom: 12, fontSize: 12, color: "#000" }}>
+            <span>🏷️</span>
+            {tags.map((t) => (
+                <span key={t.id} style={{ background: "#e6f4ea", borderRadius: 12, padding: "2px 8px" }}>
+                    {t.name}{" "}
+                    <button
+                        onClick={() => removeTag(t.id)}
+                        title="Etiketi kaldır"
+                        style={{ border: "none", background: "none", cursor: "pointer", padding: 0 }}
+                    >
+                        ×
+                    </button>
+                </span>
+            ))}
+            {suggestions.map((k) => (
+                <button
+                    key={k}
+                    onClick={() => addTag(k)}
+                    title="Etiket olarak ekle"
+                    style={{ border: "1px dashed #bbb", background: "none", borderRadius: 12, padding: "2px 8px", cursor: "pointer", fontSize: 12 }}
+                >
+                    + {k}
+                </button>
+            ))}
+            <input
+                value={draft}
+                placeholder="Yeni etiket"
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter") addTag(draft);
+                }}
+                style={{ width: 110, padding: "2px 6px", fontSize: 12 }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+// src/app/summary-view.tsx
+// Özetin Markdown görünümü: sonuç paneli ve herkese açık paylaşım sayfası (/s/[token]) ortak kullanır.
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { parseInline, splitSections, type Inline, type MdBlock } from "@/lib/markdown";
+
+export type CiteHandler = (from: number, to: number) => void;
+
+// "[s. 4–6]" / "[s. 9]" sayfa atıfları
+const CITATION_RE = /\[s\. ?(\d+)(?:\s*[–-]\s*(\d+))?\]/g;
+
+// Seçili anahtar kelimelerin metindeki geçişlerini <mark> ile işaretler (Türkçe büyük/küçük harf duyarsız).
+function highlightTerms(text: string, terms: string[], keyPrefix: string): ReactNode[] {
+    const needles = terms.map((t) => t.toLocaleLowerCase("tr-TR")).filter(Boolean);
+    if (needles.length === 0 || !text) return [text];
+
+    // tr-TR küçültme Türkçe harflerde uzunluğu korur; indeksler orijinal metinde kullanılabilir.
+    const lower = text.toLocaleLowerCase("tr-TR");
+    if (lower.length !== text.length) return [text];
+
+    const out: ReactNode[] = [];
+    let pos = 0;
+    while (pos < text.length) {
+        let best = -1;
+        let len = 0;
+        for (const n of needles) {
+            const i = lower.indexOf(n, pos);
+            if (i !== -1 && (best === -1 || i < best || (i === best && n.length > len))) {
+                best = i;
+                len = n.length;
+            }
+        }
+        if (best === -1) break;
+        out.push(text.slice(pos, best));
+        out.push(
+            <mark key={`${keyPrefix}-${best}`} style={{ background: "#fff2a8", padding: 0 }}>
+                {text.slice(best, best + len)}
+            </mark>
+        );
+        pos = best + len;
+    }
+    out.push(text.slice(pos));
+    return out;
+}
+
+// Özet metnindeki sayfa atıflarını tıklanabilir butonlara çevirir (onCite yoksa sadece işaretlenir).
+export function renderWithCitations(text: string, onCite: CiteHandler | undefined, highlight: string[] = []) {
+    const out: ReactNode[] = [];
+    let last = 0;
+
+    for (const m of text.matchAll(CITATION_RE)) {
+        const from = Number(m[1]);
+        const to = Number(m[2] ?? m[1]);
+        out.push(...highlightTerms(text.slice(last, m.index), highlight, `h${last}`));
+        out.push(
+            onCite ? (
+                <button
+                    key={`${m.index}-${from}`}
+                    onClick={() => onCite(from, to)}
+                    title="Kaynak sayfayı göster"
+                    style={{ border: "none", background: "#e8f0fe", color: "#0b57d0", borderRadius: 6, padding: "0 4px", cursor: "pointer" }}
+                >
+                    {m[0]}
+                </button>
+            ) : (
+                <span key={`${m.index}-${from}`} style={{ background: "#e8f0fe", color: "#0b57d0", borderRadius: 6, padding: "0 4px" }}>
+                    {m[0]}
+                </span>
+            )
+        );
+        last = (m.index ?? 0) + m[0].length;
+    }
+
+    out.push(...highlightTerms(text.slice(last), highlight, `h${last}`));
+    return out;
+}
+
+function renderInline(nodes: Inline[], onCite: CiteHandler | undefined, highlight: string[], key = "i"): ReactNode[] {
+    return nodes.map((n, i) => {
+        const k = `${key}-${i}`;
+        switch (n.type) {
+            case "text":
+                return <span key={k}>{renderWithCitations(n.text, onCite, highlight)}</span>;
+            case "code":
+                return (
+                    <code key={k} style={{ background: "#eee", borderRadius: 4, padding: "0 4px", fontSize: "0.92em" }}>
+                        {n.text}
+                    </code>
+                );
+            case "strong":
+                return <strong key={k}>{renderInline(n.children, onCite, highlight, k)}</strong>;
+            case "em":
+                return <em key={k}>{renderInline(n.children, onCite, highlight, k)}</em>;
+            case "link":
+                return (
+                    <a key={k} href={n.href} target="_blank" rel="noopener noreferrer nofollow">
+                        {renderInline(n.children, onCite, highlight, k)}
+                    </a>
+                );
+        }
+    });
+}
+
+function renderBlock(b: MdBlock, i: number, onCite: CiteHandler | undefined, highlight: string[]): ReactNode {
+    const inl = (nodes: Inline[], key: string) => renderInline(nodes, onCite, highlight, key);
+    switch (b.type) {
+        case "heading": {
+            const size = b.level <= 2 ? 17 : b.level === 3 ? 15 : 14;
+            return (
+                <div key={i} role="heading" aria-level={b.level} style={{ fontWeight: 700, fontSize: size, margin: "14px 0 6px" }}>
+                    {inl(b.children, `b${i}`)}
+                </div>
+            );
+        }
+        case "paragraph":
+            return (
+                <p key={i} style={{ margin: "0 0 10px" }}>
+                    {inl(b.children, `b${i}`)}
+                </p>
+            );
+        case "list": {
+            const items = b.items.map((item, j) => <li key={j}>{inl(item, `b${i}-${j}`)}</li>);
+            return b.ordered ? (
+                <ol key={i} start={b.start} style={{ margin: "0 0 10px", paddingLeft: 22 }}>
+                    {items}
+                </ol>
+            ) : (
+                <ul key={i} style={{ margin: "0 0 10px", paddingLeft: 22 }}>
+                    {items}
+                </ul>
+            );
+        }
+        case "quote":
+            return (
+                <blockquote key={i} style={{ margin: "0 0 10px", paddingLeft: 12, borderLeft: "3px solid #ccc", color: "#333" }}>
+                    {inl(b.children, `b${i}`)}
+                </blockquote>
+            );
+        case "code":
+            return (
+                <pre key={i} style={{ background: "#eee", padding: 10, borderRadius: 8, overflowX: "auto", fontSize: 13 }}>
+                    {b.text}
+                </pre>
+            );
+        case "table":
+            return (
+                <table key={i} style={{ borderCollapse: "collapse", margin: "0 0 10px", fontSize: 14 }}>
+                    <thead>
+                        <tr>
+                            {b.header.map((c, j) => (
+                                <th key={j} style={{ border: "1px solid #ddd", padding: "4px 8px", textAlign: "left" }}>
+                                    {inl(c, `b${i}-h${j}`)}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {b.rows.map((r, ri) => (
+                            <tr key={ri}>
+                                {r.map((c, j) => (
+                                    <td key={j} style={{ border: "1px solid #ddd", padding: "4px 8px" }}>
+                                        {inl(c, `b${i}-${ri}-${j}`)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            );
+        case "hr":
+            return <hr key={i} style={{ border: "none", borderTop: "1px solid #ddd" }} />;
+    }
+}
+
+// Anahtar kelimenin özette kaç kez geçtiği (chip üzerindeki sayaç)
+function countOccurrences(text: string, term: string) {
+    const hay = text.toLocaleLowerCase("tr-TR");
+    const needle = term.toLocaleLowerCase("tr-TR");
+    if (!needle) return 0;
+    let n = 0;
+    for (let i = hay.indexOf(needle); i !== -1; i = hay.indexOf(needle, i + needle.length)) n++;
+    return n;
+}
+
+export function SummaryView({
+    markdown,
+    keywords,
+    onCite,
+    onRegenerate,
+    regenerating,
+    onShowSource,
+    onHighlightChange,
+}: {
+    markdown: string;
+    keywords: string[];
+    onCite?: CiteHandler; // yoksa (ör. paylaşım sayfası) atıflar tıklanamaz
+    onRegenerate?: (sectionId: string) => void; // kayıtlı özetlerde bölüm bazında yeniden üretim
+    regenerating?: string | null;
+    onShowSource?: (sectionId: string) => void; // orijinal PDF saklıysa bölümün kaynağını görüntüleyicide işaretler
+    onHighlightChange?: (terms: string[]) => void; // vurgulanan anahtar kelimeler (görüntüleyici de işaretler)
+}) {
+    const sections = useMemo(() => splitSections(markdown), [markdown]);
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [highlight, setHighlight] = useState<string[]>([]);
+    const [copied, setCopied] = useState<string | null>(null);
+
+    // Başka özete geçince açık/kapalı ve vurgu durumu sıfırlanır
+    useEffect(() => {
+        setCollapsed(new Set());
+        setHighlight([]);
+        setCopied(null);
+    }, [markdown]);
+
+    const toggle = (id: string) =>
+        setCollapsed((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+
+    const jump = (id: string) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+        });
+        document.getElementById(`section-${id}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    };
+
+    async function copySection(id: string, source: string) {
+        try {
+            await navigator.clipboard.writeText(source);
+            setCopied(id);
+            setTimeout(() => setCopied((c) => (c === id ? null : c)), 1500);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    const titled = sections.filter((s) => s.title);
+    const counts = useMemo(() => new Map(keywords.map((k) => [k, countOccurrences(markdown, k)])), [keywords, markdown]);
+
+    return (
+        <div style={{ color: "#000", lineHeight: 1.7 }}>
+            {keywords.length > 0 && (
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 6, margin: "4px 0 12px" }}>
+                    {keywords.map((k) => {
+                        const on = highlight.includes(k);
+                        return (
+                            <button
+                                key={k}
+                                onClick={() => {
+                                    const next = on ? highlight.filter((x) => x !== k) : [...highlight, k];
+                                    setHighlight(next);
+                                    onHighlightChange?.(next);
+                                }}
+                                title={on ? "Vurguyu kaldır" : "Metinde vurgula"}
+                                style={{
+                                    border: "1px solid " + (on ? "#e0b400" : "#ccc"),
+                                    background: on ? "#fff2a8" : "#fff",
+                                    borderRadius: 999,
+                                    padding: "2px 10px",
+                                    fontSize: 12,
+                                    cursor: "pointer",
+                                }}
+                            >
+                                {k} <span style={{ color: "#777" }}>{counts.get(k) ?? 0}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {titled.length > 1 && (
+                <nav style={{ marginBottom: 12, padding: "8px 12px", background: "#fff", border: "1px solid #eee", borderRadius: 10, fontSize: 13 }}>
+                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                        <strong>İçindekiler</strong>
+                        <span style={{ display: "flex", gap: 6 }}>
+                            <button onClick={() => setCollapsed(new Set())} style={{ fontSize: 11 }}>
+                                Tümünü aç
+                            </button>
+                            <button onClick={() => setCollapsed(new Set(titled.map((s) => s.id)))} style={{ fontSize: 11 }}>
+                                Tümünü kapat
+                            </button>
+                        </span>
+                    </div>
+                    <ol style={{ margin: "6px 0 0", paddingLeft: 20 }}>
+                        {titled.map((s) => (
+                            <li key={s.id}>
+                                <a
+                                    href={`#section-${s.id}`}
+                                    onClick={(e) => {
+                                        e.preventDefault();
+                                        jump(s.id);
+                                    }}
+                                >
+                                    {s.title}
+                                </a>
+                            </li>
+                        ))}
+                    </ol>
+                </nav>
+            )}
+
+            {sections.map((s) => {
+                const closed = collapsed.has(s.id);
+                return (
+                    <section key={s.id} id={`section-${s.id}`} style={{ marginBottom: 8 }}>
+                        {s.title && (
+                            <div style={{ display: "flex", alignItems: "center", gap: 8, borderBottom: "1px solid #e5e5e5", marginBottom: 6 }}>
+                                <button
+                                    onClick={() => toggle(s.id)}
+                                    aria-expanded={!closed}
+                                    style={{ border: "none", background: "none", cursor: "pointer", fontSize: 12, width: 18, padding: 0 }}
+                                >
+                                    {closed ? "▸" : "▾"}
+                                </button>
+                                <h3
+                                    onClick={() => toggle(s.id)}
+                                    style={{ flex: 1, margin: "8px 0", fontSize: s.level <= 1 ? 20 : 18, cursor: "pointer" }}
+                                >
+                                    {renderInline(parseInline(s.title), onCite, highlight, `t-${s.id}`)}
+                                </h3>
+                                {onRegenerate && (
+                                    <button
+                                        onClick={() => onRegenerate(s.id)}
+                                        disabled={!!regenerating}
+                                        title="Bu bölümü kaynak metinden yeniden üret"
+                                        style={{ fontSize: 11 }}
+                                    >
+                                        {regenerating === s.id ? "Üretiliyor…" : "Yeniden üret"}
+                                    </button>
+                                )}
+                                {onShowSource && (
+                                    <button onClick={() => onShowSource(s.id)} title="Bölümün kaynağını PDF'te işaretle" style={{ fontSize: 11 }}>
+                                        Kaynakta göster
+                                    </button>
+                                )}
+                                <button onClick={() => copySection(s.id, s.source)} style={{ fontSize: 11 }}>
+                                    {copied === s.id ? "Kopyalandı ✓" : "Kopyala"}
+                                </button>
+                            </div>
+                        )}
+                        {!closed && s.blocks.map((b, i) => renderBlock(b, i, onCite, highlight))}
+                    </section>
+                );
+            })}
+        </div>
+    );
+}
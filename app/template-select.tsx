@@ -0,0 +1,39 @@
+"use client";
+
+// src/app/template-select.tsx
+// Özet şablonu seçici: yerleşik profiller + kullanıcının kendi şablonları (★).
+import { useEffect, useState } from "react";
+import { isOkResponse, type TemplatesData } from "./api-types";
+
+type TemplateOption = { value: string; label: string };
+
+export function TemplateSelect({ value, onChange, disabled }: { value: string; onChange: (v: string) => void; disabled?: boolean }) {
+    const [options, setOptions] = useState<TemplateOption[]>([{ value: "academic", label: "Akademik" }]);
+
+    useEffect(() => {
+        let alive = true;
+        (async () => {
+            const res = await fetch("/api/templates", { method: "GET" });
+            const json: unknown = await res.json().catch(() => null);
+            if (!alive || !res.ok || !isOkResponse(json)) return;
+
+            const d = json.data as TemplatesData;
+            const builtin = d.builtin.map((t) => ({ value: t.key, label: t.name }));
+            const custom = d.custom.map((t) => ({ value: t.id, label: `★ ${t.name}` }));
+            if (builtin.length > 0) setOptions([...builtin, ...custom]);
+        })().catch((e) => console.error(e));
+        return () => {
+            alive = false;
+        };
+    }, []);
+
+    return (
+        <select value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled}>
+            {options.map((t) => (
+                <option key={t.value} value={t.value}>
+                    {t.label}
+                </option>
+            ))}
+        </select>
+    );
+}
@@ -0,0 +1,11 @@
+// src/app/usage/page.tsx
+import type { Metadata } from "next";
+import UsageReport from "./usage-report";
+
+export const metadata: Metadata = {
+    title: "Kullanım · Jethülasa",
+};
+
+export default function UsagePage() {
+    return <UsageReport />;
+}
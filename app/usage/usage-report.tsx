@@ -0,0 +1,184 @@
+"use client";
+
+// src/app/usage/usage-report.tsx
+import { useEffect, useState } from "react";
+
+type Metric = "requests" | "tokens" | "costUsd";
+type Amounts = Record<Metric, number>;
+
+type Report = {
+    plan: string;
+    periods: Array<{ period: "daily" | "monthly"; since: string; resetAt: string; used: Amounts; limits: Partial<Amounts> }>;
+    byModel: Array<{ provider: string; model: string; calls: number; inputTokens: number; outputTokens: number; costUsd: number }>;
+    byOperation: Array<{ operation: string; requests: number; tokens: number; costUsd: number }>;
+    days: Array<{ day: string; requests: number; tokens: number; costUsd: number }>;
+};
+
+type UsageResponse = { ok: true; data: Report } | { ok: false; error: string };
+
+const PERIOD_LABELS: Record<string, string> = { daily: "Bugün", monthly: "Bu ay" };
+const METRIC_LABELS: Record<Metric, string> = { requests: "İstek", tokens: "Token", costUsd: "Maliyet" };
+const OPERATION_LABELS: Record<string, string> = {
+    summarize: "Özet",
+    chat: "Sohbet",
+    quiz: "Quiz",
+    flashcards: "Kartlar",
+    refine: "Düzeltme",
+    index: "İndeksleme",
+    search: "Anlamsal arama",
+};
+
+const cell: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #eee", textAlign: "right" };
+const headCell: React.CSSProperties = { ...cell, color: "#666", fontWeight: 500 };
+
+function formatAmount(metric: Metric, n: number) {
+    return metric === "costUsd" ? `$${n.toFixed(n < 1 ? 4 : 2)}` : n.toLocaleString("tr-TR");
+}
+
+function formatReset(iso: string) {
+    return new Date(iso).toLocaleString("tr-TR", { dateStyle: "short", timeStyle: "short" });
+}
+
+function UsageBar({ metric, used, limit }: { metric: Metric; used: number; limit: number | undefined }) {
+    const ratio = limit ? Math.min(1, used / limit) : 0;
+    const color = ratio >= 1 ? "#b00020" : ratio >= 0.8 ? "#d98200" : "#2e7d32";
+    return (
+        <div style={{ marginBottom: 10 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 13 }}>
+                <span>{METRIC_LABELS[metric]}</span>
+                <span style={{ color: "#666" }}>
+                    {formatAmount(metric, used)} / {limit === undefined ? "sınırsız" : formatAmount(metric, limit)}
+                </span>
+            </div>
+            {limit !== undefined && (
+                <div style={{ height: 6, background: "#eee", borderRadius: 3, marginTop: 4, overflow: "hidden" }}>
+                    <div style={{ width: `${ratio * 100}%`, height: "100%", background: color }} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function UsageReport() {
+    const [report, setReport] = useState<Report | null>(null);
+    const [error, setError] = useState<string>("");
+
+    useEffect(() => {
+        let alive = true;
+        (async () => {
+            try {
+                const res = await fetch("/api/usage", { cache: "no-store" });
+                const json = (await res.json()) as UsageResponse;
+                if (!alive) return;
+                if (json.ok) setReport(json.data);
+                else setError(res.status === 401 ? "Kullanımı görmek için giriş yapın." : json.error);
+            } catch {
+                if (alive) setError("Kullanım bilgisi yüklenemedi.");
+            }
+        })();
+        return () => {
+            alive = false;
+        };
+    }, []);
+
+    const maxDayTokens = report ? Math.max(1, ...report.days.map((d) => d.tokens)) : 1;
+
+    return (
+        <main style={{ maxWidth: 860, margin: "0 auto", padding: 24 }}>
+            <h1 style={{ marginBottom: 4 }}>Kullanım</h1>
+            {!report && !error && <p style={{ color: "#666" }}>Yükleniyor…</p>}
+            {error && <p style={{ color: "#b00020" }}>{error}</p>}
+
+            {report && (
+                <>
+                    <p style={{ marginTop: 0, color: "#666", fontSize: 13 }}>
+                        Plan: <strong>{report.plan}</strong> · Dönemler UTC'ye göre yenilenir.
+                    </p>
+
+                    <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))", gap: 16 }}>
+                        {report.periods.map((p) => (
+                            <section key={p.period} style={{ border: "1px solid #eee", borderRadius: 10, padding: 14 }}>
+                                <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 10 }}>
+                                    <strong>{PERIOD_LABELS[p.period] ?? p.period}</strong>
+                                    <span style={{ color: "#666", fontSize: 12 }}>yenilenme: {formatReset(p.resetAt)}</span>
+                                </div>
+                                {(["requests", "tokens", "costUsd"] as const).map((m) => (
+                                    <UsageBar key={m} metric={m} used={p.used[m]} limit={p.limits[m]} />
+                                ))}
+                            </section>
+                        ))}
+                    </div>
+
+                    <h2 style={{ fontSize: 18, marginTop: 28 }}>Son 30 gün</h2>
+                    {report.days.length === 0 ? (
+                        <p style={{ color: "#666", fontSize: 13 }}>Henüz kullanım yok.</p>
+                    ) : (
+                        <div style={{ display: "flex", alignItems: "flex-end", gap: 3, height: 120, borderBottom: "1px solid #ddd" }}>
+                            {report.days.map((d) => (
+                                <div
+                                    key={d.day}
+                                    title={`${d.day}: ${d.requests} istek, ${formatAmount("tokens", d.tokens)} token, ${formatAmount("costUsd", d.costUsd)}`}
+                                    style={{
+                                        flex: 1,
+                                        maxWidth: 24,
+                                        height: `${Math.max(2, (d.tokens / maxDayTokens) * 100)}%`,
+                                        background: "#5b7fde",
+                                        borderRadius: "3px 3px 0 0",
+                                    }}
+                                />
+                            ))}
+                        </div>
+                    )}
+
+                    <h2 style={{ fontSize: 18, marginTop: 28 }}>Bu ay · modele göre</h2>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                        <thead>
+                            <tr>
+                                <th style={{ ...headCell, textAlign: "left" }}>Model</th>
+                                <th style={headCell}>Çağrı</th>
+                                <th style={headCell}>Girdi</th>
+                                <th style={headCell}>Çıktı</th>
+                                <th style={headCell}>Maliyet</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.byModel.map((r) => (
+                                <tr key={`${r.provider}/${r.model}`}>
+                                    <td style={{ ...cell, textAlign: "left" }}>
+                                        {r.model} <span style={{ color: "#999" }}>({r.provider})</span>
+                                    </td>
+                                    <td style={cell}>{formatAmount("requests", r.calls)}</td>
+                                    <td style={cell}>{formatAmount("tokens", r.inputTokens)}</td>
+                                    <td style={cell}>{formatAmount("tokens", r.outputTokens)}</td>
+                                    <td style={cell}>{formatAmount("costUsd", r.costUsd)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <h2 style={{ fontSize: 18, marginTop: 28 }}>Bu ay · işleme göre</h2>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                        <thead>
+                            <tr>
+                                <th style={{ ...headCell, textAlign: "left" }}>İşlem</th>
+                                <th style={headCell}>İstek</th>
+                                <th style={headCell}>Token</th>
+                                <th style={headCell}>Maliyet</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.byOperation.map((r) => (
+                                <tr key={r.operation}>
+                                    <td style={{ ...cell, textAlign: "left" }}>{OPERATION_LABELS[r.operation] ?? r.operation}</td>
+                                    <td style={cell}>{formatAmount("requests", r.requests)}</td>
+                                    <td style={cell}>{formatAmount("tokens", r.tokens)}</td>
+                                    <td style={cell}>{formatAmount("costUsd", r.costUsd)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </>
+            )}
+        </main>
+    );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+// src/app/workspaces.tsx
+// Çalışma alanı seçicileri: geçmişin alan filtresi (+ yeni alan) ve özeti başka alana taşıma.
+import { isErrResponse, isOkResponse, type SummaryData } from "./api-types";
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export type Workspace = { id: string; name: string; role: WorkspaceRole; managedByClerk: boolean; memberCount: number };
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = { owner: "sahip", editor: "editör", viewer: "izleyici" };
+
+// scope: "" (hepsi), "personal" veya alan id'si
+export function WorkspaceScopeSelect({
+    workspaces,
+    scope,
+    onScopeChange,
+    onCreated,
+    onStatus,
+}: {
+    workspaces: Workspace[];
+    scope: string;
+    onScopeChange: (scope: string) => void;
+    onCreated: (ws: Workspace) => void;
+    onStatus: (s: string) => void;
+}) {
+    async function create() {
+        const name = prompt("Çalışma alanı adı:")?.trim();
+        if (!name) return;
+        const res = await fetch("/api/workspaces", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
+        });
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            onStatus(isErrResponse(json) ? json.error : `Çalışma alanı oluşturulamadı (${res.status}).`);
+            return;
+        }
+        const ws = json.data as Workspace;
+        onCreated(ws);
+        onScopeChange(ws.id);
+    }
+
+    return (
+        <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 12, fontSize: 13 }}>
+            <select value={scope} onChange={(e) => onScopeChange(e.target.value)} style={{ flex: 1 }}>
+                <option value="">Tüm alanlar</option>
+                <option value="personal">Kişisel</option>
+                {workspaces.map((w) => (
+                    <option key={w.id} value={w.id}>
+                        {w.name} ({ROLE_LABELS[w.role]})
+                    </option>
+                ))}
+            </select>
+            <button onClick={create} style={{ fontSize: 12 }}>
+                + Alan
+            </button>
+        </div>
+    );
+}
+
+// Sadece yazma yetkisi olunan alanlar hedef olabilir; özetin şu anki alanı (izleyici olunsa da) listede kalır.
+export function WorkspaceMoveSelect({
+    summaryId,
+    workspaceId,
+    workspaces,
+    onMoved,
+    onStatus,
+}: {
+    summaryId: string;
+    workspaceId: string | null;
+    workspaces: Workspace[];
+    onMoved: (data: SummaryData) => void;
+    onStatus: (s: string) => void;
+}) {
+    async function move(target: string | null) {
+        const res = await fetch(`/api/summary/${summaryId}/workspace`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ workspaceId: target }),
+        });
+        const json: unknown = await res.json().catch(() => null);
+        if (!res.ok || !isOkResponse(json)) {
+            onStatus(isErrResponse(json) ? json.error : `Taşınamadı (${res.status}).`);
+            return;
+        }
+        onMoved(json.data as SummaryData);
+        onStatus("Özet taşındı ✅");
+    }
+
+    return (
+        <select value={workspaceId ?? ""} onChange={(e) => move(e.target.value || null)} title="Çalışma alanı" style={{ fontSize: 12 }}>
+            <option value="">Kişisel</option>
+            {workspaces
+                .filter((w) => w.role !== "viewer" || w.id === workspaceId)
+                .map((w) => (
+                    <option key={w.id} value={w.id}>
+                        {w.name}
+                    </option>
+                ))}
+        </select>
+    );
+}
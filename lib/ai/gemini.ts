@@ -0,0 +1,52 @@
+// src/lib/ai/gemini.ts
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { ProviderPart, SummaryProvider, TokenUsage, UsageListener } from "./types";
+
+let client: GoogleGenAI | null = null;
+
+export function getClient() {
+    if (!process.env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY yok (.env.local).");
+    if (!client) client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    return client;
+}
+
+function toTokenUsage(u: GenerateContentResponseUsageMetadata | undefined): TokenUsage {
+    return {
+        inputTokens: u?.promptTokenCount ?? 0,
+        outputTokens: (u?.candidatesTokenCount ?? 0) + (u?.thoughtsTokenCount ?? 0),
+    };
+}
+
+export function createGeminiProvider(onUsage?: UsageListener): SummaryProvider {
+    const ai = getClient();
+    const model = process.env.GEMINI_MODEL || "gemini-3-flash-preview";
+
+    return {
+        name: "gemini",
+        model,
+        async generate(parts: ProviderPart[]) {
+            const r = await ai.models.generateContent({
+                model,
+                contents: [{ role: "user", parts }],
+            });
+            await onUsage?.(toTokenUsage(r.usageMetadata), { provider: "gemini", model });
+
+            return typeof r.text === "string" ? r.text : String(r.text ?? "");
+        },
+        async *stream(parts: ProviderPart[]) {
+            const chunks = await ai.models.generateContentStream({
+                model,
+                contents: [{ role: "user", parts }],
+            });
+
+            // usageMetadata her parçada birikerek gelir; sonuncusu toplamdır.
+            let usage: GenerateContentResponseUsageMetadata | undefined;
+            for await (const c of chunks) {
+                if (c.usageMetadata) usage = c.usageMetadata;
+                if (typeof c.text === "string" && c.text) yield c.text;
+            }
+            await onUsage?.(toTokenUsage(usage), { provider: "gemini", model });
+        },
+    };
+}
@@ -0,0 +1,28 @@
+// src/lib/ai/index.ts
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAiProvider } from "./openai";
+import { withRetries } from "./retry";
+import type { ProviderName, SummaryProvider, UsageListener } from "./types";
+
+export type { ProviderName, ProviderPart, SummaryProvider, TokenUsage, UsageListener } from "./types";
+
+export const PROVIDER_NAMES: ProviderName[] = ["gemini", "openai", "mock"];
+
+export function isProviderName(v: unknown): v is ProviderName {
+    return typeof v === "string" && (PROVIDER_NAMES as string[]).includes(v);
+}
+
+/**
+ * İstekte sağlayıcı verilmezse SUMMARY_PROVIDER env'i, o da yoksa gemini kullanılır.
+ * Anahtar eksikse (GEMINI_API_KEY / OPENAI_API_KEY) hata fırlatır.
+ * Dönen sağlayıcı geçici hatalarda backoff ile yeniden dener; onUsage her başarılı çağrının token sayısını alır.
+ */
+export function getSummaryProvider(name?: ProviderName | null, onUsage?: UsageListener): SummaryProvider {
+    const envName = process.env.SUMMARY_PROVIDER;
+    const chosen: ProviderName = name ?? (isProviderName(envName) ? envName : "gemini");
+
+    if (chosen === "openai") return withRetries(createOpenAiProvider(onUsage));
+    if (chosen === "mock") return withRetries(createMockProvider(onUsage));
+    return withRetries(createGeminiProvider(onUsage));
+}
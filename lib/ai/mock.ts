@@ -0,0 +1,240 @@
+// src/lib/ai/mock.ts
+// API anahtarı olmadan (offline) tüm pipeline'ı çalıştırmak için deterministik sağlayıcı.
+// Aynı girdi için her zaman aynı JSON'u döner.
+import type { ProviderPart, SummaryProvider, TokenUsage, UsageListener } from "./types";
+
+const SOURCE_MARKERS = ["CHUNK_SUMMARIES:", "DOCUMENT TEXT:", "TEXT:"];
+
+function sourceText(prompt: string): string {
+    for (const m of SOURCE_MARKERS) {
+        const i = prompt.lastIndexOf(m);
+        if (i >= 0) return prompt.slice(i + m.length);
+    }
+    return prompt;
+}
+
+// Final birleştirme adımında girdi "CHUNK_n: {json}" satırlarından oluşur.
+function unwrapChunkJsons(src: string): string {
+    const out: string[] = [];
+    for (const line of src.split(/\n\s*\n/)) {
+        const m = line.match(/^\s*CHUNK_\d+(?:\s*\[[^\]]*\])?:\s*([\s\S]*)$/);
+        if (!m) continue;
+        try {
+            const v = JSON.parse(m[1]) as { summary?: unknown };
+            if (typeof v.summary === "string") out.push(v.summary);
+        } catch {
+            out.push(m[1]);
+        }
+    }
+    return out.length > 0 ? out.join("\n") : src;
+}
+
+const PAGE_MARKER = /\[s\. (\d+)(?:–(\d+))?\]/g;
+
+// Kaynaktaki "[s. N]" işaretlerinden tek bir "[s. a–b]" atfı üretir.
+function pageCitation(s: string): string {
+    const nums = [...s.matchAll(PAGE_MARKER)].flatMap((m) => [Number(m[1]), Number(m[2] ?? m[1])]);
+    if (nums.length === 0) return "";
+    const from = Math.min(...nums);
+    const to = Math.max(...nums);
+    return from === to ? ` [s. ${from}]` : ` [s. ${from}–${to}]`;
+}
+
+function sentences(s: string, max: number): string[] {
+    const flat = s.replace(/^#+\s.*$/gm, " ").replace(PAGE_MARKER, " ").replace(/\s+/g, " ").trim();
+    if (!flat) return [];
+    const parts = flat.match(/[^.!?]+[.!?]*/g) ?? [flat];
+    return parts.map((p) => p.trim()).filter(Boolean).slice(0, max);
+}
+
+function topKeywords(s: string, max: number): string[] {
+    const counts = new Map<string, number>();
+    for (const w of s.toLocaleLowerCase("tr-TR").match(/\p{L}[\p{L}\p{N}-]{4,}/gu) ?? []) {
+        counts.set(w, (counts.get(w) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, max)
+        .map(([w]) => w);
+}
+
+function promptText(parts: ProviderPart[]) {
+    return parts
+        .filter((p): p is { text: string } => "text" in p)
+        .map((p) => p.text)
+        .join("\n");
+}
+
+function words(s: string): string[] {
+    return s.toLocaleLowerCase("tr-TR").match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+}
+
+// Sohbet: soruyla en çok ortak kelimesi olan cümle, geldiği parçanın sayfa atfıyla döner.
+function mockAnswer(prompt: string): string {
+    const qi = prompt.lastIndexOf("QUESTION:");
+    const ei = prompt.lastIndexOf("EXCERPTS:");
+    const question = new Set(words(prompt.slice(qi + "QUESTION:".length)));
+
+    let best = { score: 0, text: "", cite: "" };
+    for (const chunk of prompt.slice(ei + "EXCERPTS:".length, qi).split(/\n(?=CHUNK_\d+ \[)/)) {
+        const head = chunk.match(/^\s*CHUNK_\d+ (\[[^\]]*\]):/);
+        const cite = pageCitation(head?.[1] ?? "");
+        for (const s of sentences(head ? chunk.slice(head[0].length) : chunk, 200)) {
+            const score = words(s).filter((w) => question.has(w)).length;
+            if (score > best.score) best = { score, text: s, cite };
+        }
+    }
+    return best.score > 0 ? `${best.text}${best.cite}` : "Belgede bu soruya dair bilgi bulunamadı.";
+}
+
+// Quiz/kart istekleri: bağlamdaki KEYWORDS satırı ve SUMMARY/SOURCE cümlelerinden şemaya uygun JSON.
+function studyInput(prompt: string) {
+    const keywords = (prompt.match(/^KEYWORDS: (.*)$/m)?.[1] ?? "")
+        .split(",")
+        .map((k) => k.trim())
+        .filter(Boolean);
+    const body = prompt.slice(Math.max(0, prompt.indexOf("SUMMARY:")));
+    const lines = sentences(body.replace(/^[A-Z]+:.*$/gm, " "), 60);
+    return {
+        count: Number(prompt.match(/exactly (\d+)/)?.[1] ?? 5),
+        keywords: keywords.length > 0 ? keywords : topKeywords(body, 8),
+        lines: lines.length > 0 ? lines : ["Metin bulunamadı."],
+        source: pageCitation(body).trim().replace(/^\[|\]$/g, ""),
+    };
+}
+
+function lineWith(lines: string[], keyword: string, fallback: number) {
+    const k = keyword.toLocaleLowerCase("tr-TR");
+    return lines.find((l) => l.toLocaleLowerCase("tr-TR").includes(k)) ?? lines[fallback % lines.length];
+}
+
+function mockQuiz(prompt: string): string {
+    const { count, keywords, lines, source } = studyInput(prompt);
+    const allowed = prompt.match(/Allowed types: ([\w, ]+)\./)?.[1]?.split(/,\s*/) ?? ["multiple_choice", "true_false", "open"];
+
+    const questions = Array.from({ length: count }, (_, i) => {
+        const kw = keywords[i % keywords.length];
+        const line = lineWith(lines, kw, i);
+        switch (allowed[i % allowed.length]) {
+            case "true_false":
+                return { type: "true_false", question: line, answer: true, explanation: "Belgede bu şekilde geçiyor.", source };
+            case "open":
+                return { type: "open", question: `${kw} nedir?`, answer: line, explanation: "Belgedeki ilgili cümle.", source };
+            default: {
+                const distractors = keywords.filter((k) => k !== kw).concat(["hiçbiri", "bilinmiyor", "diğer"]).slice(0, 3);
+                const answerIndex = i % (distractors.length + 1);
+                const options = [...distractors.slice(0, answerIndex), kw, ...distractors.slice(answerIndex)];
+                return {
+                    type: "multiple_choice",
+                    question: `Aşağıdaki ifade hangi kavramla ilgilidir? "${line}"`,
+                    options,
+                    answerIndex,
+                    explanation: `İfade "${kw}" kavramını anlatıyor.`,
+                    source,
+                };
+            }
+        }
+    });
+    return JSON.stringify({ questions });
+}
+
+function mockFlashcards(prompt: string): string {
+    const { count, keywords, lines, source } = studyInput(prompt);
+    const skip = new Set(
+        (prompt.match(/^Skip these existing terms: (.*)$/m)?.[1] ?? "").split(",").map((t) => t.trim().toLocaleLowerCase("tr-TR"))
+    );
+    const cards = keywords
+        .filter((k) => !skip.has(k.toLocaleLowerCase("tr-TR")))
+        .slice(0, count)
+        .map((k, i) => ({ term: k, definition: lineWith(lines, k, i), source }));
+    return JSON.stringify({ cards: cards.length > 0 ? cards : [{ term: "Özet", definition: lines[0], source }] });
+}
+
+// Bölüm yeniden üretimi: EXCERPTS'tan ilk cümleler, parçanın sayfa atfıyla.
+function mockRefineSection(prompt: string): string {
+    const excerpts = prompt.slice(prompt.lastIndexOf("EXCERPTS:") + "EXCERPTS:".length);
+    const lines = sentences(excerpts, 3);
+    return JSON.stringify({ section: `${lines.join(" ") || "Kaynakta bu bölüm için bilgi yok."}${pageCitation(excerpts)}` });
+}
+
+// Talimatla düzeltme: mevcut özetin her bölümünden ilk iki cümle kalır ("daha kısa" gibi).
+function mockRefine(prompt: string): string {
+    const start = prompt.indexOf("CURRENT SUMMARY:\n");
+    const end = prompt.lastIndexOf("\n\nEXCERPTS:");
+    const current = prompt.slice(start + "CURRENT SUMMARY:\n".length, end > start ? end : undefined);
+
+    const title = current.match(/^TITLE: (.*)$/m)?.[1] ?? "Mock Özet";
+    const keywords = (current.match(/^KEYWORDS: (.*)$/m)?.[1] ?? "").split(",").map((k) => k.trim()).filter(Boolean);
+    const body = current.replace(/^(TITLE|KEYWORDS): .*\n?/gm, "");
+
+    const summary = body
+        .split(/\n(?=#{1,6}\s)/)
+        .map((block) => {
+            const [head, ...rest] = block.split("\n");
+            if (!/^#{1,6}\s/.test(head)) return sentences(block, 2).join(" ");
+            const text = rest.join("\n");
+            return `${head}\n${sentences(text, 2).join(" ")}${pageCitation(text)}`;
+        })
+        .filter((b) => b.trim())
+        .join("\n\n");
+
+    return JSON.stringify({ title, summary, keywords: keywords.length > 0 ? keywords : ["mock", "summary"] });
+}
+
+export function mockSummarize(parts: ProviderPart[]): string {
+    const prompt = promptText(parts);
+    const imageCount = parts.length - parts.filter((p) => "text" in p).length;
+
+    const src = unwrapChunkJsons(sourceText(prompt));
+    const lines = sentences(src, 6);
+    const keywords = topKeywords(src, 8);
+
+    const body =
+        lines.length > 0
+            ? lines.join(" ")
+            : imageCount > 0
+              ? `${imageCount} görsel alındı (mock sağlayıcı görsel içeriğini okumaz).`
+              : "Metin bulunamadı.";
+
+    return JSON.stringify({
+        title: lines[0]?.slice(0, 80) || "Mock Özet",
+        summary: `## Özet\n${body}${pageCitation(src)}`,
+        keywords: keywords.length > 0 ? keywords : ["mock", "summary"],
+    });
+}
+
+// Soru-cevap istekleri "QUESTION:" ile biter, çalışma materyali istekleri "TASK: ..." ile başlar;
+// diğer her şey özet isteğidir.
+function mockRespond(parts: ProviderPart[]): string {
+    const prompt = promptText(parts);
+    if (prompt.startsWith("TASK: quiz\n")) return mockQuiz(prompt);
+    if (prompt.startsWith("TASK: flashcards\n")) return mockFlashcards(prompt);
+    if (prompt.startsWith("TASK: refine-section\n")) return mockRefineSection(prompt);
+    if (prompt.startsWith("TASK: refine\n")) return mockRefine(prompt);
+    return prompt.includes("\nQUESTION:\n") ? mockAnswer(prompt) : mockSummarize(parts);
+}
+
+// Kota ve muhasebe offline da denenebilsin diye kaba tahmin: ~4 karakter = 1 token, görsel başına 258.
+function mockUsage(parts: ProviderPart[], out: string): TokenUsage {
+    const chars = parts.reduce((n, p) => n + ("text" in p ? p.text.length : 0), 0);
+    const images = parts.length - parts.filter((p) => "text" in p).length;
+    return { inputTokens: Math.ceil(chars / 4) + images * 258, outputTokens: Math.ceil(out.length / 4) };
+}
+
+export function createMockProvider(onUsage?: UsageListener): SummaryProvider {
+    return {
+        name: "mock",
+        model: "mock-1",
+        async generate(parts: ProviderPart[]) {
+            const out = mockRespond(parts);
+            await onUsage?.(mockUsage(parts, out), { provider: "mock", model: "mock-1" });
+            return out;
+        },
+        async *stream(parts: ProviderPart[]) {
+            // Gerçek akışı taklit etmek için sabit boyutlu parçalar
+            const out = mockRespond(parts);
+            for (let i = 0; i < out.length; i += 24) yield out.slice(i, i + 24);
+            await onUsage?.(mockUsage(parts, out), { provider: "mock", model: "mock-1" });
+        },
+    };
+}
@@ -0,0 +1,58 @@
+// src/lib/ai/openai.ts
+import OpenAI from "openai";
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import type { ProviderPart, SummaryProvider, UsageListener } from "./types";
+
+let client: OpenAI | null = null;
+
+export function getClient() {
+    if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY yok (.env.local).");
+    if (!client) client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    return client;
+}
+
+function toOpenAiPart(p: ProviderPart): ChatCompletionContentPart {
+    if ("text" in p) return { type: "text", text: p.text };
+    return {
+        type: "image_url",
+        image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` },
+    };
+}
+
+export function createOpenAiProvider(onUsage?: UsageListener): SummaryProvider {
+    const ai = getClient();
+    const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
+
+    return {
+        name: "openai",
+        model,
+        async generate(parts: ProviderPart[]) {
+            const r = await ai.chat.completions.create({
+                model,
+                messages: [{ role: "user", content: parts.map(toOpenAiPart) }],
+            });
+            await onUsage?.(
+                { inputTokens: r.usage?.prompt_tokens ?? 0, outputTokens: r.usage?.completion_tokens ?? 0 },
+                { provider: "openai", model }
+            );
+
+            return r.choices[0]?.message?.content ?? "";
+        },
+        async *stream(parts: ProviderPart[]) {
+            const chunks = await ai.chat.completions.create({
+                model,
+                messages: [{ role: "user", content: parts.map(toOpenAiPart) }],
+                stream: true,
+                stream_options: { include_usage: true }, // son parça (choices boş) toplam kullanımı taşır
+            });
+
+            let usage = { inputTokens: 0, outputTokens: 0 };
+            for await (const c of chunks) {
+                if (c.usage) usage = { inputTokens: c.usage.prompt_tokens, outputTokens: c.usage.completion_tokens };
+                const delta = c.choices[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+            await onUsage?.(usage, { provider: "openai", model });
+        },
+    };
+}
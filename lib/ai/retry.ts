@@ -0,0 +1,83 @@
+// src/lib/ai/retry.ts
+import type { ProviderPart, SummaryProvider } from "./types";
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export type RetryOptions = {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+};
+
+const MAX_RETRIES = 10;
+
+// Geçersiz değer (NaN, negatif) sonsuz tekrara yol açmasın diye varsayılana düşer.
+function intFromEnv(name: string, fallback: number, max: number) {
+    const n = Number(process.env[name] ?? fallback);
+    return Number.isFinite(n) && n >= 0 ? Math.min(max, Math.floor(n)) : fallback;
+}
+
+export function retryOptionsFromEnv(): RetryOptions {
+    return {
+        retries: intFromEnv("SUMMARY_MAX_RETRIES", 4, MAX_RETRIES),
+        baseDelayMs: intFromEnv("SUMMARY_RETRY_BASE_MS", 1000, 20000),
+        maxDelayMs: 20000,
+    };
+}
+
+function sleep(ms: number) {
+    return new Promise((r) => setTimeout(r, ms));
+}
+
+// Gemini ApiError ve OpenAI APIError ikisi de `status` taşır; status yoksa ağ hatası sayılır.
+export function isTransientError(e: unknown): boolean {
+    if (typeof e !== "object" || e === null) return false;
+    const status = (e as { status?: unknown }).status;
+    if (typeof status === "number") return TRANSIENT_STATUSES.includes(status);
+
+    const code = (e as { code?: unknown }).code;
+    return typeof code === "string" && ["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN", "UND_ERR_SOCKET"].includes(code);
+}
+
+// Üstel bekleme + jitter: base * 2^attempt, üstüne [0, base) rastgele.
+function backoffDelay(attempt: number, opts: RetryOptions) {
+    const exp = Math.min(opts.maxDelayMs, opts.baseDelayMs * Math.pow(2, attempt));
+    return exp + Math.floor(Math.random() * opts.baseDelayMs);
+}
+
+export async function withRetry<T>(fn: () => Promise<T>, opts: RetryOptions = retryOptionsFromEnv()): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (e) {
+            if (attempt >= opts.retries || !isTransientError(e)) throw e;
+            await sleep(backoffDelay(attempt, opts));
+        }
+    }
+}
+
+/**
+ * Sağlayıcının tüm çağrılarını geçici hatalarda (429/503 vb.) yeniden dener.
+ * Stream'de yeniden deneme yalnızca ilk parça gelmeden önce yapılır.
+ */
+export function withRetries(provider: SummaryProvider, opts: RetryOptions = retryOptionsFromEnv()): SummaryProvider {
+    return {
+        ...provider,
+        generate: (parts: ProviderPart[]) => withRetry(() => provider.generate(parts), opts),
+        async *stream(parts: ProviderPart[]) {
+            for (let attempt = 0; ; attempt++) {
+                let yielded = false;
+                try {
+                    for await (const delta of provider.stream(parts)) {
+                        yielded = true;
+                        yield delta;
+                    }
+                    return;
+                } catch (e) {
+                    if (yielded || attempt >= opts.retries || !isTransientError(e)) throw e;
+                    await sleep(backoffDelay(attempt, opts));
+                }
+            }
+        },
+    };
+}
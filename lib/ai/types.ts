@@ -0,0 +1,20 @@
+// src/lib/ai/types.ts
+
+export type ProviderName = "gemini" | "openai" | "mock";
+
+// Gemini'nin "parts" formatı ortak format olarak kullanılıyor; diğer sağlayıcılar kendine çevirir.
+export type ProviderPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+// Sağlayıcının bildirdiği token sayıları (thinking token'ları çıktıya dahil)
+export type TokenUsage = { inputTokens: number; outputTokens: number };
+
+// Her başarılı çağrıdan sonra (stream'de akış bitince) çağrılır; maliyet muhasebesi için.
+export type UsageListener = (usage: TokenUsage, meta: { provider: ProviderName; model: string }) => Promise<void> | void;
+
+export type SummaryProvider = {
+    name: ProviderName;
+    model: string;
+    generate: (parts: ProviderPart[]) => Promise<string>;
+    // Aynı çıktıyı parça parça (token delta) üretir.
+    stream: (parts: ProviderPart[]) => AsyncIterable<string>;
+};
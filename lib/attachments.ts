@@ -0,0 +1,162 @@
+// src/lib/attachments.ts
+// Yüklenen orijinaller: byte'lar blob deposunda (lib/storage), özetle bağı Attachment satırında.
+import { createHash } from "node:crypto";
+import { AttachmentKind } from "@prisma/client";
+import type { DocumentFormat } from "@/lib/ingest";
+import { prisma } from "@/lib/prisma";
+import { blobKeyFor, getBlobStore } from "@/lib/storage";
+import type { SummarizeInput } from "@/lib/summarize/pipeline";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export class AttachmentError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "AttachmentError";
+        this.status = status;
+    }
+}
+
+export type OriginalFile = { kind: AttachmentKind; name: string; contentType: string; buffer: Buffer };
+
+export const attachmentSelect = {
+    id: true,
+    kind: true,
+    name: true,
+    contentType: true,
+    size: true,
+    createdAt: true,
+} as const;
+
+const DOCUMENT_TYPES: Record<DocumentFormat, string> = {
+    pdf: "application/pdf",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    epub: "application/epub+zip",
+    html: "text/html; charset=utf-8",
+    markdown: "text/markdown; charset=utf-8",
+    txt: "text/plain; charset=utf-8",
+};
+
+function startsWith(buf: Buffer, sig: number[]) {
+    return sig.every((b, i) => buf[i] === b);
+}
+
+// Tarayıcının bildirdiği tür yerine dosyanın ilk byte'larına bakılır.
+export function imageContentType(buf: Buffer) {
+    if (startsWith(buf, [0xff, 0xd8, 0xff])) return "image/jpeg";
+    if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+    if (buf.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif";
+    if (buf.subarray(0, 4).toString("latin1") === "RIFF" && buf.subarray(8, 12).toString("latin1") === "WEBP") return "image/webp";
+    return "application/octet-stream";
+}
+
+// Tarayıcıda açılması güvenli türler (?inline=1); diğerleri her zaman indirilir.
+export function isInlineSafe(contentType: string) {
+    return contentType === "application/pdf" || /^image\/(jpeg|png|gif|webp)$/.test(contentType);
+}
+
+/**
+ * Saklanacak orijinaller: yüklenen/URL'den indirilen belge ve görseller.
+ * Yapıştırılan metin zaten inputText olarak durduğu için ayrıca saklanmaz.
+ */
+export function inputOriginals(input: Pick<SummarizeInput, "origin" | "document" | "images">): OriginalFile[] {
+    const files: OriginalFile[] = [];
+    if (input.document && input.origin !== "text") {
+        files.push({
+            kind: AttachmentKind.document,
+            name: input.document.name,
+            contentType: DOCUMENT_TYPES[input.document.format],
+            buffer: input.document.buffer,
+        });
+    }
+    for (const img of input.images) {
+        files.push({ kind: AttachmentKind.image, name: img.name, contentType: imageContentType(img.buffer), buffer: img.buffer });
+    }
+    return files;
+}
+
+/**
+ * Dosyaları içerik hash'iyle depoya yazar (zaten varsa yazılmaz) ve özete bağlar.
+ */
+export async function saveAttachments(summaryId: string, files: OriginalFile[]) {
+    if (files.length === 0) return;
+    const store = getBlobStore();
+
+    const rows = [];
+    for (const f of files) {
+        const sha256 = createHash("sha256").update(f.buffer).digest("hex");
+        const storageKey = blobKeyFor(sha256);
+        if (!(await store.has(storageKey))) await store.put(storageKey, f.buffer, f.contentType);
+        rows.push({ summaryId, kind: f.kind, name: f.name, contentType: f.contentType, size: f.buffer.length, sha256, storageKey });
+    }
+
+    await prisma.attachment.createMany({ data: rows });
+}
+
+// Paylaşılan cache'ten kopyalanan özet aynı blob'lara yeni satırlarla bağlanır (byte kopyalanmaz).
+export async function copyAttachments(fromSummaryId: string, toSummaryId: string) {
+    const rows = await prisma.attachment.findMany({
+        where: { summaryId: fromSummaryId },
+        select: { kind: true, name: true, contentType: true, size: true, sha256: true, storageKey: true },
+    });
+    if (rows.length === 0) return;
+    await prisma.attachment.createMany({ data: rows.map((r) => ({ ...r, summaryId: toSummaryId })) });
+}
+
+export async function listAttachments(summaryId: string) {
+    return prisma.attachment.findMany({ where: { summaryId }, orderBy: { createdAt: "asc" }, select: attachmentSelect });
+}
+
+/**
+ * İndirme: erişim, bağlı olduğu özetin okuma yetkisiyle belirlenir.
+ */
+export async function readAttachment(id: string, userId: string) {
+    const row = await prisma.attachment.findUnique({
+        where: { id },
+        select: { summaryId: true, name: true, contentType: true, storageKey: true },
+    });
+    if (!row) throw new AttachmentError("Dosya bulunamadı.", 404);
+
+    const access = await authorizeSummary(row.summaryId, userId, "read");
+    if (!access.ok) throw new AttachmentError(access.error, access.status);
+
+    const body = await getBlobStore().get(row.storageKey);
+    if (!body) throw new AttachmentError("Dosya depoda bulunamadı.", 404);
+    return { name: row.name, contentType: row.contentType, body };
+}
+
+// Silinecek özetlerin blob anahtarları; satırlar cascade ile gider, blob'lar releaseBlobs ile.
+export async function storageKeysFor(summaryIds: string[]) {
+    const rows = await prisma.attachment.findMany({
+        where: { summaryId: { in: summaryIds } },
+        distinct: ["storageKey"],
+        select: { storageKey: true },
+    });
+    return rows.map((r) => r.storageKey);
+}
+
+/**
+ * Artık hiçbir Attachment'ın göstermediği blob'ları siler. Hata özet silmeyi bozmaz;
+ * kalan blob sadece yer kaplar.
+ */
+export async function releaseBlobs(keys: string[]) {
+    if (keys.length === 0) return;
+    const stillUsed = await prisma.attachment.findMany({
+        where: { storageKey: { in: keys } },
+        distinct: ["storageKey"],
+        select: { storageKey: true },
+    });
+    const used = new Set(stillUsed.map((r) => r.storageKey));
+
+    const store = getBlobStore();
+    for (const key of keys) {
+        if (used.has(key)) continue;
+        try {
+            await store.delete(key);
+        } catch (e) {
+            console.error("Blob delete error:", e);
+        }
+    }
+}
@@ -0,0 +1,157 @@
+// src/lib/chat.ts
+import { SummaryMessageRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { SummaryProvider } from "@/lib/ai";
+import { chunkSections, formatPageRef, pagesFromInput, parsePageMap, type PageChunk } from "@/lib/summarize/pages";
+
+// Soru-cevap için belge küçük parçalara bölünür; soruya en yakın TOP_K parça modele gider.
+const CHAT_CHUNK_CHARS = 2500;
+const TOP_K = 4;
+// Modele gönderilen önceki mesaj sayısı (soru-cevap çiftleri dahil)
+const HISTORY_LIMIT = 8;
+
+export const MAX_QUESTION_CHARS = 2000;
+
+export type Citation = { from: number; to: number };
+
+export const messageSelect = {
+    id: true,
+    role: true,
+    content: true,
+    citations: true,
+    createdAt: true,
+} as const;
+
+type ChatTurn = { role: SummaryMessageRole; content: string };
+
+function terms(s: string): string[] {
+    return s.toLocaleLowerCase("tr-TR").match(/[\p{L}\p{N}]{2,}/gu) ?? [];
+}
+
+/**
+ * BM25 benzeri sözcük eşleşmesi: soru terimleri nadir oldukça ve parçada sık geçtikçe puan artar.
+ * Hiçbir parça eşleşmezse (ör. "bu belge ne anlatıyor?") belgenin başı kullanılır.
+ */
+export function rankChunks(chunks: PageChunk[], question: string, k = TOP_K): PageChunk[] {
+    const q = [...new Set(terms(question))];
+    const docs = chunks.map((c) => terms(c.text));
+    const avgLen = docs.reduce((n, d) => n + d.length, 0) / Math.max(1, docs.length);
+
+    const df = new Map<string, number>();
+    for (const d of docs) for (const t of new Set(d)) df.set(t, (df.get(t) ?? 0) + 1);
+
+    const scored = docs.map((d, i) => {
+        const tf = new Map<string, number>();
+        for (const t of d) tf.set(t, (tf.get(t) ?? 0) + 1);
+
+        let score = 0;
+        for (const t of q) {
+            const f = tf.get(t) ?? 0;
+            if (!f) continue;
+            const idf = Math.log(1 + (docs.length - (df.get(t) ?? 0) + 0.5) / ((df.get(t) ?? 0) + 0.5));
+            score += (idf * f * 2.2) / (f + 1.2 * (0.25 + 0.75 * (d.length / (avgLen || 1))));
+        }
+        return { i, score };
+    });
+
+    const hits = scored.filter((s) => s.score > 0).sort((a, b) => b.score - a.score || a.i - b.i);
+    const picked = (hits.length > 0 ? hits : scored).slice(0, k).map((s) => s.i);
+
+    // Modele belge sırasıyla verilir; okuma akışı bozulmaz.
+    return picked.sort((a, b) => a - b).map((i) => chunks[i]);
+}
+
+const CITE_RE = /\[s\. ?(\d+)(?:\s*[–-]\s*(\d+))?\]/g;
+
+export function parseCitations(answer: string): Citation[] {
+    const seen = new Set<string>();
+    const out: Citation[] = [];
+    for (const m of answer.matchAll(CITE_RE)) {
+        const from = Number(m[1]);
+        const to = Number(m[2] ?? m[1]);
+        if (to < from || seen.has(`${from}-${to}`)) continue;
+        seen.add(`${from}-${to}`);
+        out.push({ from, to });
+    }
+    return out;
+}
+
+function buildChatPrompt(excerpts: PageChunk[], history: ChatTurn[], question: string) {
+    const convo = history.map((m) => `${m.role === SummaryMessageRole.user ? "USER" : "ASSISTANT"}: ${m.content}`).join("\n\n");
+    const context = excerpts.map((c, i) => `CHUNK_${i + 1} [${formatPageRef(c.fromPage, c.toPage)}]:\n${c.text}`).join("\n\n");
+
+    return (
+        "You answer questions about a single document using ONLY the excerpts below.\n" +
+        "Answer in the same language as the question. Use Markdown; be concise.\n" +
+        'Excerpts contain page markers like "[s. 12]". After every claim cite the pages it comes from, ' +
+        'e.g. "[s. 4–6]" or "[s. 9]". Never invent page numbers.\n' +
+        "If the excerpts do not contain the answer, say that the document does not say so.\n\n" +
+        (convo ? `CONVERSATION:\n${convo}\n\n` : "") +
+        `EXCERPTS:\n${context}\n\n` +
+        `QUESTION:\n${question}`
+    );
+}
+
+// Sohbet kişiseldir: çalışma alanındaki özette her üye sadece kendi sorularını görür.
+export async function listMessages(summaryId: string, userId: string) {
+    return prisma.summaryMessage.findMany({
+        where: { summaryId, userId },
+        orderBy: { createdAt: "asc" },
+        select: messageSelect,
+    });
+}
+
+/**
+ * Soruyu kayıtlı kaynak metne dayanarak cevaplar; soru ve cevap soran kullanıcı adına birlikte kaydedilir
+ * (model hata verirse cevapsız soru geçmişe yazılmaz).
+ */
+export async function askDocument(
+    provider: SummaryProvider,
+    summary: { id: string; inputText: string | null; pageMap: unknown },
+    userId: string,
+    question: string
+) {
+    const pages = pagesFromInput(summary.inputText ?? "", parsePageMap(summary.pageMap));
+    const chunks = chunkSections(pages, CHAT_CHUNK_CHARS);
+    if (chunks.length === 0) throw new Error("Bu özetin kayıtlı kaynak metni yok; soru sorulamaz.");
+
+    const recent = await prisma.summaryMessage.findMany({
+        where: { summaryId: summary.id, userId },
+        orderBy: { createdAt: "desc" },
+        take: HISTORY_LIMIT,
+        select: { role: true, content: true },
+    });
+
+    const excerpts = rankChunks(chunks, question);
+    const raw = await provider.generate([{ text: buildChatPrompt(excerpts, recent.reverse(), question) }]);
+    const answer = raw.trim();
+    if (!answer) throw new Error("Model boş cevap döndü.");
+
+    // Cevap, sorudan 1 ms sonraya yazılır ki createdAt sıralaması her zaman soru -> cevap olsun.
+    const askedAt = new Date();
+    const [asked, answered] = await prisma.$transaction([
+        prisma.summaryMessage.create({
+            data: {
+                summaryId: summary.id,
+                userId,
+                role: SummaryMessageRole.user,
+                content: question,
+                createdAt: askedAt,
+            },
+            select: messageSelect,
+        }),
+        prisma.summaryMessage.create({
+            data: {
+                summaryId: summary.id,
+                userId,
+                role: SummaryMessageRole.assistant,
+                content: answer,
+                citations: parseCitations(answer),
+                createdAt: new Date(askedAt.getTime() + 1),
+            },
+            select: messageSelect,
+        }),
+    ]);
+
+    return { question: asked, answer: answered };
+}
@@ -0,0 +1,37 @@
+// src/lib/embeddings/gemini.ts
+import type { UsageListener } from "@/lib/ai";
+import { getClient } from "@/lib/ai/gemini";
+import type { EmbeddingKind, EmbeddingProvider } from "./types";
+import { normalize } from "./vector";
+
+const TASK_TYPES: Record<EmbeddingKind, string> = {
+    document: "RETRIEVAL_DOCUMENT",
+    query: "RETRIEVAL_QUERY",
+};
+
+export function createGeminiEmbeddingProvider(onUsage?: UsageListener): EmbeddingProvider {
+    const ai = getClient();
+    const model = process.env.GEMINI_EMBEDDING_MODEL || "gemini-embedding-001";
+    const dimensions = Number(process.env.GEMINI_EMBEDDING_DIMENSIONS ?? 768);
+
+    return {
+        name: "gemini",
+        model: `${model}@${dimensions}`,
+        dimensions,
+        async embed(texts: string[], kind: EmbeddingKind) {
+            const r = await ai.models.embedContent({
+                model,
+                contents: texts,
+                config: { taskType: TASK_TYPES[kind], outputDimensionality: dimensions },
+            });
+
+            const out = (r.embeddings ?? []).map((e) => normalize(e.values ?? []));
+            if (out.length !== texts.length) throw new Error("Gemini embedding sayısı girdiyle eşleşmedi.");
+
+            // embedContent token sayısı döndürmez; ~4 karakter/token tahmini kullanılır.
+            const chars = texts.reduce((n, t) => n + t.length, 0);
+            await onUsage?.({ inputTokens: Math.ceil(chars / 4), outputTokens: 0 }, { provider: "gemini", model });
+            return out;
+        },
+    };
+}
@@ -0,0 +1,39 @@
+// src/lib/embeddings/index.ts
+import type { UsageListener } from "@/lib/ai";
+import { withRetry } from "@/lib/ai/retry";
+import { createGeminiEmbeddingProvider } from "./gemini";
+import { createLocalEmbeddingProvider } from "./local";
+import { createOpenAiEmbeddingProvider } from "./openai";
+import type { EmbeddingProvider, EmbeddingProviderName } from "./types";
+
+export type { EmbeddingKind, EmbeddingProvider, EmbeddingProviderName } from "./types";
+
+export const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = ["local", "openai", "gemini"];
+
+export function isEmbeddingProviderName(v: unknown): v is EmbeddingProviderName {
+    return typeof v === "string" && (EMBEDDING_PROVIDER_NAMES as string[]).includes(v);
+}
+
+/**
+ * EMBEDDING_PROVIDER env'i ile seçilir; verilmezse anahtar gerektirmeyen "local" kullanılır.
+ * Farklı modellerin vektörleri karşılaştırılamaz: sağlayıcı değişirse eski özetler yeniden indekslenmelidir.
+ * onUsage ücretli sağlayıcıların (openai/gemini) her çağrısında token kullanımını bildirir; local ücretsizdir.
+ */
+export function getEmbeddingProvider(name?: EmbeddingProviderName | null, onUsage?: UsageListener): EmbeddingProvider {
+    const envName = process.env.EMBEDDING_PROVIDER;
+    const chosen: EmbeddingProviderName = name ?? (isEmbeddingProviderName(envName) ? envName : "local");
+
+    const provider =
+        chosen === "openai"
+            ? createOpenAiEmbeddingProvider(onUsage)
+            : chosen === "gemini"
+              ? createGeminiEmbeddingProvider(onUsage)
+              : createLocalEmbeddingProvider();
+
+    return { ...provider, embed: (texts, kind) => withRetry(() => provider.embed(texts, kind)) };
+}
+
+// Chunk'ların hangi modelle kodlandığı; arama sadece aynı modelin vektörleri arasında yapılır.
+export function embeddingModelId(provider: EmbeddingProvider) {
+    return `${provider.name}:${provider.model}`;
+}
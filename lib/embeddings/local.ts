@@ -0,0 +1,53 @@
+// src/lib/embeddings/local.ts
+// API anahtarı olmadan çalışan deterministik embedding: kelime + karakter üçlüsü "feature hashing".
+// Anlam modellemez ama aynı girdi için her zaman aynı vektörü verir; çekimli kelimeler (kitap/kitabın)
+// ortak üçlüler sayesinde birbirine yakın düşer. Offline test ve geliştirme içindir.
+import type { EmbeddingProvider } from "./types";
+import { normalize } from "./vector";
+
+const DIMENSIONS = 512;
+
+// FNV-1a 32 bit
+function hash(s: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        h ^= s.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+function addFeature(v: number[], feature: string, weight: number) {
+    const h = hash(feature);
+    // Üst bit işaret olarak kullanılır; çakışmalar birbirini kısmen götürür.
+    v[h % DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+}
+
+export function localEmbedding(text: string): number[] {
+    const v = new Array<number>(DIMENSIONS).fill(0);
+    const words = text.toLocaleLowerCase("tr-TR").match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    const counts = new Map<string, number>();
+    for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1);
+
+    for (const [w, n] of counts) {
+        // Alt-doğrusal terim frekansı: çok tekrar eden kelime vektörü ele geçirmesin
+        const tf = 1 + Math.log(n);
+        addFeature(v, `w:${w}`, tf);
+        const padded = `^${w}$`;
+        for (let i = 0; i + 3 <= padded.length; i++) addFeature(v, `t:${padded.slice(i, i + 3)}`, tf * 0.5);
+    }
+
+    return normalize(v);
+}
+
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+    return {
+        name: "local",
+        model: `hash-v1-${DIMENSIONS}`,
+        dimensions: DIMENSIONS,
+        async embed(texts: string[]) {
+            return texts.map(localEmbedding);
+        },
+    };
+}
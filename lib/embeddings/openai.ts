@@ -0,0 +1,23 @@
+// src/lib/embeddings/openai.ts
+import type { UsageListener } from "@/lib/ai";
+import { getClient } from "@/lib/ai/openai";
+import type { EmbeddingProvider } from "./types";
+import { normalize } from "./vector";
+
+export function createOpenAiEmbeddingProvider(onUsage?: UsageListener): EmbeddingProvider {
+    const ai = getClient();
+    const model = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+    const dimensions = Number(process.env.OPENAI_EMBEDDING_DIMENSIONS ?? 1536);
+
+    return {
+        name: "openai",
+        model: `${model}@${dimensions}`,
+        dimensions,
+        async embed(texts: string[]) {
+            const r = await ai.embeddings.create({ model, input: texts, dimensions });
+            await onUsage?.({ inputTokens: r.usage?.prompt_tokens ?? 0, outputTokens: 0 }, { provider: "openai", model });
+            // Yanıt sırası index alanıyla garanti edilir
+            return [...r.data].sort((a, b) => a.index - b.index).map((d) => normalize(d.embedding));
+        },
+    };
+}
@@ -0,0 +1,63 @@
+// src/lib/embeddings/retrieval.ts
+import { UsageOperation } from "@prisma/client";
+import type { UsageListener } from "@/lib/ai";
+import { prisma } from "@/lib/prisma";
+import { chunkSections, type PageText } from "@/lib/summarize/pages";
+import { recordUsage, requireQuota } from "@/lib/usage";
+import { summaryAccessWhere } from "@/lib/workspaces";
+import { embeddingModelId, getEmbeddingProvider } from "./index";
+import { getVectorStore } from "./store";
+
+// Sağlayıcılara tek istekte gönderilen parça sayısı
+const EMBED_BATCH = 32;
+
+/**
+ * Özetin kaynak metnini özetleme pipeline'ıyla aynı parçalara (chunkSections) bölüp
+ * embedding'leriyle kaydeder. Tekrar çağrılırsa özetin eski parçalarının yerini alır.
+ * Ücretli sağlayıcıda önce kota kontrol edilir (doluysa QuotaError); kullanım onUsage'a, verilmezse
+ * özet sahibinin "index" işlemi olarak yazılır.
+ */
+export async function indexSummaryChunks(summary: { id: string; userId: string }, pages: PageText[], onUsage?: UsageListener) {
+    const chunks = chunkSections(pages);
+    if (chunks.length === 0) return 0;
+
+    const provider = getEmbeddingProvider(
+        null,
+        onUsage ?? recordUsage({ userId: summary.userId, operation: UsageOperation.index, summaryId: summary.id })
+    );
+    if (provider.name !== "local") await requireQuota(summary.userId);
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+        vectors.push(...(await provider.embed(chunks.slice(i, i + EMBED_BATCH).map((c) => c.text), "document")));
+    }
+
+    await getVectorStore().replace(
+        summary,
+        embeddingModelId(provider),
+        chunks.map((c, i) => ({ ordinal: i, fromPage: c.fromPage, toPage: c.toPage, text: c.text, embedding: vectors[i] }))
+    );
+    return chunks.length;
+}
+
+/**
+ * Kullanıcının görebildiği tüm özetlerin (kişisel + üyesi olduğu alanlar) parçaları arasında anlamca en yakın k parça.
+ * Sadece şu anki embedding modeliyle indekslenmiş parçalar aranır.
+ */
+export async function semanticSearch(userId: string, q: string, k: number) {
+    const provider = getEmbeddingProvider(null, recordUsage({ userId, operation: UsageOperation.search }));
+    const [vector] = await provider.embed([q], "query");
+    const matches = await getVectorStore().search(userId, embeddingModelId(provider), vector, k);
+
+    const titles = await prisma.summary.findMany({
+        where: { id: { in: [...new Set(matches.map((m) => m.summaryId))] }, ...summaryAccessWhere(userId, "read") },
+        select: { id: true, title: true },
+    });
+    const titleById = new Map(titles.map((t) => [t.id, t.title]));
+
+    return {
+        model: embeddingModelId(provider),
+        items: matches
+            .filter((m) => titleById.has(m.summaryId))
+            .map((m) => ({ ...m, title: titleById.get(m.summaryId)!, score: Number(m.score) })),
+    };
+}
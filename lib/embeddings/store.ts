@@ -0,0 +1,117 @@
+// src/lib/embeddings/store.ts
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { summaryAccessSql, summaryAccessWhere } from "@/lib/workspaces";
+import { dot } from "./vector";
+
+export type ChunkRecord = { ordinal: number; fromPage: number; toPage: number; text: string; embedding: number[] };
+
+export type ChunkMatch = {
+    id: string;
+    summaryId: string;
+    ordinal: number;
+    fromPage: number;
+    toPage: number;
+    text: string;
+    score: number; // kosinüs benzerliği (-1..1)
+};
+
+export type VectorStoreName = "local" | "pgvector";
+
+/**
+ * Vektörler her iki sürücüde de SummaryChunk.embedding (double precision[]) kolonunda durur;
+ * sürücüler sadece en yakın komşu aramasını nerede yaptıklarıyla ayrılır.
+ */
+export type VectorStore = {
+    name: VectorStoreName;
+    // Özetin eski parçaları silinir, yenileri yazılır.
+    replace: (summary: { id: string; userId: string }, embeddingModel: string, chunks: ChunkRecord[]) => Promise<void>;
+    // userId: arayan kullanıcı; sadece okuma yetkisi olduğu özetlerin parçaları döner.
+    search: (userId: string, embeddingModel: string, vector: number[], k: number) => Promise<ChunkMatch[]>;
+};
+
+async function replaceChunks(summary: { id: string; userId: string }, embeddingModel: string, chunks: ChunkRecord[]) {
+    await prisma.$transaction([
+        prisma.summaryChunk.deleteMany({ where: { summaryId: summary.id } }),
+        prisma.summaryChunk.createMany({
+            data: chunks.map((c) => ({ ...c, summaryId: summary.id, userId: summary.userId, embeddingModel })),
+        }),
+    ]);
+}
+
+const matchSelect = { id: true, summaryId: true, ordinal: true, fromPage: true, toPage: true, text: true } as const;
+
+// Yerel sürücü tarama sınırları: parçalar en yeni özetlerden başlayarak SCAN_BATCH'lik gruplarla okunur,
+// en fazla LOCAL_SCAN_LIMIT parçaya bakılır. Bellekte sadece o ana kadarki en iyi k parça tutulur.
+const SCAN_BATCH = 1000;
+const LOCAL_SCAN_LIMIT = 20_000;
+
+/**
+ * Uygulama içinde kaba kuvvet kosinüs: eklenti gerektirmez, geliştirme ve küçük kurulumlar içindir.
+ * Sınıra ulaşılırsa eski özetler aramaya girmez ve uyarı loglanır; üretimde VECTOR_STORE=pgvector kullanın.
+ */
+function createLocalVectorStore(): VectorStore {
+    return {
+        name: "local",
+        replace: replaceChunks,
+        async search(userId, embeddingModel, vector, k) {
+            let top: Array<{ id: string; score: number }> = [];
+            let scanned = 0;
+            while (scanned < LOCAL_SCAN_LIMIT) {
+                const rows = await prisma.summaryChunk.findMany({
+                    where: { embeddingModel, summary: summaryAccessWhere(userId, "read") },
+                    orderBy: [{ summary: { createdAt: "desc" } }, { id: "asc" }],
+                    skip: scanned,
+                    take: Math.min(SCAN_BATCH, LOCAL_SCAN_LIMIT - scanned),
+                    select: { id: true, embedding: true },
+                });
+                scanned += rows.length;
+
+                top = top
+                    .concat(rows.map((r) => ({ id: r.id, score: dot(vector, r.embedding) })))
+                    .sort((a, b) => b.score - a.score)
+                    .slice(0, k);
+                if (rows.length < SCAN_BATCH) break;
+            }
+            if (scanned >= LOCAL_SCAN_LIMIT) {
+                console.warn(
+                    `Local vector store: ${LOCAL_SCAN_LIMIT} parça sınırına ulaşıldı (userId=${userId}); eski özetler aranmadı. VECTOR_STORE=pgvector önerilir.`
+                );
+            }
+
+            const found = await prisma.summaryChunk.findMany({
+                where: { id: { in: top.map((t) => t.id) } },
+                select: matchSelect,
+            });
+            const byId = new Map(found.map((f) => [f.id, f]));
+            return top.flatMap((t) => {
+                const row = byId.get(t.id);
+                return row ? [{ ...row, score: t.score }] : [];
+            });
+        },
+    };
+}
+
+// pgvector: arama veritabanında yapılır (CREATE EXTENSION vector gerekir). Dizi kolonu sorguda vector'e çevrilir.
+function createPgVectorStore(): VectorStore {
+    return {
+        name: "pgvector",
+        replace: replaceChunks,
+        async search(userId, embeddingModel, vector, k) {
+            const literal = `[${vector.join(",")}]`;
+            return prisma.$queryRaw<ChunkMatch[]>(Prisma.sql`
+                SELECT "id", "summaryId", "ordinal", "fromPage", "toPage", "text",
+                       1 - ("embedding"::vector <=> ${literal}::vector) AS "score"
+                FROM "SummaryChunk"
+                WHERE "embeddingModel" = ${embeddingModel}
+                  AND "summaryId" IN (SELECT "id" FROM "Summary" WHERE ${summaryAccessSql(userId)})
+                ORDER BY "embedding"::vector <=> ${literal}::vector
+                LIMIT ${k}
+            `);
+        },
+    };
+}
+
+export function getVectorStore(): VectorStore {
+    return process.env.VECTOR_STORE === "pgvector" ? createPgVectorStore() : createLocalVectorStore();
+}
@@ -0,0 +1,14 @@
+// src/lib/embeddings/types.ts
+
+export type EmbeddingProviderName = "local" | "openai" | "gemini";
+
+// "document": indekslenen parçalar, "query": arama metni (bazı modeller ikisini farklı kodlar)
+export type EmbeddingKind = "document" | "query";
+
+export type EmbeddingProvider = {
+    name: EmbeddingProviderName;
+    model: string;
+    dimensions: number;
+    // Girdiyle aynı sırada, L2-normalize edilmiş vektörler döner (kosinüs = iç çarpım).
+    embed: (texts: string[], kind: EmbeddingKind) => Promise<number[][]>;
+};
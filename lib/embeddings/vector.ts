@@ -0,0 +1,13 @@
+// src/lib/embeddings/vector.ts
+
+export function normalize(v: number[]): number[] {
+    const norm = Math.sqrt(v.reduce((n, x) => n + x * x, 0));
+    return norm > 0 ? v.map((x) => x / norm) : v;
+}
+
+// İki vektör de normalize olduğu için iç çarpım kosinüs benzerliğidir.
+export function dot(a: number[], b: number[]): number {
+    let s = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) s += a[i] * b[i];
+    return s;
+}
@@ -0,0 +1,34 @@
+// src/lib/export/anki.ts
+
+// Anki'nin "Dosya İçe Aktar" biçimi: sekmeyle ayrılmış düz metin + başlık yönergeleri
+// (https://docs.ankiweb.net/importing/text-files.html). Ön yüz terim, arka yüz tanım (+ sayfa atfı).
+
+export type AnkiCard = { term: string; definition: string; pageRef: string | null };
+
+function field(s: string) {
+    // HTML modunda satır sonu <br>, sekme alan ayırıcı olduğu için boşluğa iner.
+    return s
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/\t/g, " ")
+        .replace(/\r?\n/g, "<br>");
+}
+
+function tag(title: string) {
+    const t = title
+        .toLocaleLowerCase("tr-TR")
+        .replace(/[^\p{L}\p{N}]+/gu, "_")
+        .replace(/^_+|_+$/g, "")
+        .slice(0, 60);
+    return t || "ozet";
+}
+
+export function renderAnki(title: string, cards: AnkiCard[]): string {
+    const lines = ["#separator:tab", "#html:true", "#notetype:Basic", `#deck:${title.replace(/[\t\r\n]/g, " ")}`, "#tags column:3"];
+    for (const c of cards) {
+        const back = c.pageRef ? `${field(c.definition)}<br><small>${field(c.pageRef)}</small>` : field(c.definition);
+        lines.push(`${field(c.term)}\t${back}\t${tag(title)}`);
+    }
+    return lines.join("\n") + "\n";
+}
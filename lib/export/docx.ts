@@ -0,0 +1,101 @@
+// src/lib/export/docx.ts
+import JSZip from "jszip";
+import { formatExportDate, parseMarkdownBlocks, type ExportDocument, type Span } from "./markdown";
+
+// En küçük geçerli WordprocessingML paketi: başlıklar Word'ün yerleşik Title/Heading stilleriyle
+// yazılır ki gezinme bölmesi ve içindekiler tablosu çalışsın.
+
+function xmlEscape(s: string) {
+    return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function runs(spans: Span[]) {
+    return spans
+        .map((s) => `<w:r>${s.bold ? "<w:rPr><w:b/></w:rPr>" : ""}<w:t xml:space="preserve">${xmlEscape(s.text)}</w:t></w:r>`)
+        .join("");
+}
+
+function paragraph(spans: Span[], style?: string, extraPPr = "") {
+    const pPr = style || extraPPr ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ""}${extraPPr}</w:pPr>` : "";
+    return `<w:p>${pPr}${runs(spans)}</w:p>`;
+}
+
+function documentXml(doc: ExportDocument) {
+    const body: string[] = [paragraph([{ text: doc.title, bold: false }], "Title")];
+
+    const meta: Array<[string, string]> = [
+        ["Anahtar kelimeler: ", doc.keywords.join(", ") || "-"],
+        ["Kaynak: ", doc.sourceName],
+        ["Tarih: ", formatExportDate(doc.createdAt)],
+    ];
+    for (const [label, value] of meta) {
+        body.push(paragraph([{ text: label, bold: true }, { text: value, bold: false }], "Meta"));
+    }
+
+    for (const b of parseMarkdownBlocks(doc.summary)) {
+        if (b.kind === "heading") body.push(paragraph(b.spans, `Heading${b.level}`));
+        else if (b.kind === "bullet") {
+            body.push(paragraph([{ text: `${b.marker}\t`, bold: false }, ...b.spans], "ListItem"));
+        } else body.push(paragraph(b.spans));
+    }
+
+    return (
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+        `<w:body>${body.join("")}` +
+        '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>' +
+        "</w:body></w:document>"
+    );
+}
+
+function style(id: string, name: string, pPr: string, rPr: string, outline?: number) {
+    return (
+        `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+        `<w:pPr>${pPr}${outline !== undefined ? `<w:outlineLvl w:val="${outline}"/>` : ""}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`
+    );
+}
+
+const STYLES_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:lang w:val="tr-TR"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    style("Title", "Title", '<w:spacing w:after="200"/>', '<w:b/><w:sz w:val="40"/>') +
+    style("Heading1", "heading 1", '<w:keepNext/><w:spacing w:before="320" w:after="120"/>', '<w:b/><w:sz w:val="32"/>', 0) +
+    style("Heading2", "heading 2", '<w:keepNext/><w:spacing w:before="280" w:after="100"/>', '<w:b/><w:sz w:val="27"/>', 1) +
+    style("Heading3", "heading 3", '<w:keepNext/><w:spacing w:before="200" w:after="80"/>', '<w:b/><w:sz w:val="24"/>', 2) +
+    style("Meta", "Meta", '<w:spacing w:after="40"/>', '<w:color w:val="555555"/><w:sz w:val="19"/>') +
+    style("ListItem", "List Item", '<w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:ind w:left="360" w:hanging="360"/><w:spacing w:after="60"/>', "") +
+    "</w:styles>";
+
+const CONTENT_TYPES_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    "</Types>";
+
+const ROOT_RELS_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    "</Relationships>";
+
+const DOCUMENT_RELS_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    "</Relationships>";
+
+export async function renderDocx(doc: ExportDocument): Promise<Buffer> {
+    const zip = new JSZip();
+    zip.file("[Content_Types].xml", CONTENT_TYPES_XML);
+    zip.file("_rels/.rels", ROOT_RELS_XML);
+    zip.file("word/_rels/document.xml.rels", DOCUMENT_RELS_XML);
+    zip.file("word/styles.xml", STYLES_XML);
+    zip.file("word/document.xml", documentXml(doc));
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
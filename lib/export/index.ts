@@ -0,0 +1,184 @@
+// src/lib/export/index.ts
+import { Buffer } from "buffer";
+import JSZip from "jszip";
+import { prisma } from "@/lib/prisma";
+import { normalizeKeywordsFromJson, toApiSource, type ApiSource } from "@/lib/summaries";
+import { summaryAccessWhere, workspaceFilterWhere } from "@/lib/workspaces";
+import { renderAnki } from "./anki";
+import { renderDocx } from "./docx";
+import { formatExportDate, renderMarkdown, type ExportDocument } from "./markdown";
+import { renderPdf } from "./pdf";
+
+export const EXPORT_FORMATS = ["md", "pdf", "docx", "json", "anki"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Toplu (zip) dışa aktarmada Anki yok: kartı olmayan özetler boş destelere dönüşürdü.
+export const BULK_EXPORT_FORMATS: ExportFormat[] = ["md", "pdf", "docx", "json"];
+
+export type ExportFile = { filename: string; contentType: string; body: Buffer };
+
+export class ExportError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "ExportError";
+        this.status = status;
+    }
+}
+
+export function isExportFormat(v: unknown): v is ExportFormat {
+    return typeof v === "string" && (EXPORT_FORMATS as readonly string[]).includes(v);
+}
+
+export const exportSelect = {
+    id: true,
+    createdAt: true,
+    source: true,
+    title: true,
+    summary: true,
+    keywords: true,
+    pdfName: true,
+    sourceUrl: true,
+    imageCount: true,
+    pageRange: true,
+    templateKey: true,
+    templateVersion: true,
+} as const;
+
+type ExportRow = {
+    id: string;
+    createdAt: Date;
+    source: string;
+    title: string;
+    summary: string;
+    keywords: unknown;
+    pdfName: string | null;
+    sourceUrl: string | null;
+    imageCount: number | null;
+    pageRange: string | null;
+    templateKey: string | null;
+    templateVersion: number | null;
+};
+
+const SOURCE_LABELS: Partial<Record<ApiSource, string>> = {
+    image: "Görsel",
+    text: "Yapıştırılan metin",
+};
+
+function sourceName(row: ExportRow) {
+    if (row.pdfName) return row.pdfName;
+    if (row.sourceUrl) return row.sourceUrl;
+    const source = toApiSource(row.source);
+    const label = SOURCE_LABELS[source] ?? source;
+    return row.imageCount ? `${label} (${row.imageCount} görsel)` : label;
+}
+
+function toExportDocument(row: ExportRow): ExportDocument {
+    return {
+        title: row.title,
+        summary: row.summary,
+        keywords: normalizeKeywordsFromJson(row.keywords),
+        sourceName: sourceName(row),
+        createdAt: row.createdAt,
+    };
+}
+
+// Dosya adı: "2026-03-21-baslik.pdf"; Türkçe harfler ASCII'ye indirilir (Content-Disposition uyumu).
+export function exportFilename(row: { title: string; createdAt: Date }, ext: string) {
+    const slug = row.title
+        .replace(/ı/g, "i")
+        .replace(/İ/g, "I")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 60);
+    return `${formatExportDate(row.createdAt)}-${slug || "ozet"}.${ext}`;
+}
+
+// Kullanıcının yüklediği adlar da gelebilir: düz filename ASCII'ye indirgenir, asıl ad filename* ile gider.
+export function contentDisposition(filename: string, type: "attachment" | "inline" = "attachment") {
+    const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    return `${type}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+export async function exportSummary(row: ExportRow, format: ExportFormat): Promise<ExportFile> {
+    const doc = toExportDocument(row);
+
+    switch (format) {
+        case "md":
+            return {
+                filename: exportFilename(row, "md"),
+                contentType: "text/markdown; charset=utf-8",
+                body: Buffer.from(renderMarkdown(doc), "utf8"),
+            };
+        case "pdf":
+            return { filename: exportFilename(row, "pdf"), contentType: "application/pdf", body: renderPdf(doc) };
+        case "docx":
+            return {
+                filename: exportFilename(row, "docx"),
+                contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+                body: await renderDocx(doc),
+            };
+        case "json": {
+            const { keywords, source, ...rest } = row;
+            const data = { ...rest, source: toApiSource(source), keywords: normalizeKeywordsFromJson(keywords) };
+            return {
+                filename: exportFilename(row, "json"),
+                contentType: "application/json; charset=utf-8",
+                body: Buffer.from(JSON.stringify(data, null, 2), "utf8"),
+            };
+        }
+        case "anki": {
+            const cards = await prisma.flashcard.findMany({
+                where: { summaryId: row.id },
+                orderBy: { createdAt: "asc" },
+                select: { term: true, definition: true, pageRef: true },
+            });
+            if (cards.length === 0) throw new ExportError("Bu özet için henüz kart yok; önce kart üretin.", 409);
+            return {
+                filename: exportFilename(row, "txt"),
+                contentType: "text/plain; charset=utf-8",
+                body: Buffer.from(renderAnki(row.title, cards), "utf8"),
+            };
+        }
+    }
+}
+
+/**
+ * Kullanıcının görebildiği tüm geçmişi (kişisel + çalışma alanları; workspace verilirse sadece o alan)
+ * seçilen biçimde tek zip'e koyar (+ index.json). Özetler 50'lik sayfalarla okunur; inputText hiç çekilmez.
+ */
+export async function exportHistoryZip(userId: string, format: ExportFormat, workspace: string | null = null): Promise<Buffer> {
+    const zip = new JSZip();
+    const index: Array<{ id: string; title: string; createdAt: Date; file: string }> = [];
+    const used = new Set<string>();
+
+    let cursor: string | undefined;
+    for (;;) {
+        const rows = await prisma.summary.findMany({
+            where: { AND: [summaryAccessWhere(userId), workspaceFilterWhere(workspace)] },
+            orderBy: { id: "asc" },
+            take: 50,
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+            select: exportSelect,
+        });
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+            const file = await exportSummary(row, format);
+            // Aynı gün aynı başlık: dosya adına kısa id eklenir.
+            const name = used.has(file.filename) ? file.filename.replace(/(\.\w+)$/, `-${row.id.slice(-6)}$1`) : file.filename;
+            used.add(name);
+            zip.file(name, file.body);
+            index.push({ id: row.id, title: row.title, createdAt: row.createdAt, file: name });
+        }
+        cursor = rows[rows.length - 1].id;
+    }
+
+    index.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    zip.file("index.json", JSON.stringify(index, null, 2));
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
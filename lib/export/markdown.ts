@@ -0,0 +1,94 @@
+// src/lib/export/markdown.ts
+
+// Dışa aktarılan belge: özet Markdown'ı + üst bilgiler (başlık, anahtar kelimeler, kaynak, tarih)
+export type ExportDocument = {
+    title: string;
+    summary: string;
+    keywords: string[];
+    sourceName: string;
+    createdAt: Date;
+};
+
+export type Span = { text: string; bold: boolean };
+
+export type Block =
+    | { kind: "heading"; level: 1 | 2 | 3; spans: Span[] }
+    | { kind: "paragraph"; spans: Span[] }
+    | { kind: "bullet"; marker: string; spans: Span[] };
+
+export function formatExportDate(d: Date) {
+    return d.toISOString().slice(0, 10);
+}
+
+// **kalın** ve __kalın__ işaretleri span'a çevrilir; `kod`, *italik* ve bağlantı işaretleri düz metne iner.
+export function parseInline(s: string): Span[] {
+    const plain = s
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/`([^`]*)`/g, "$1")
+        .replace(/(^|[^*])\*([^*\s][^*]*)\*(?!\*)/g, "$1$2");
+
+    const spans: Span[] = [];
+    let pos = 0;
+    for (const m of plain.matchAll(/\*\*([^*]+)\*\*|__([^_]+)__/g)) {
+        if (m.index > pos) spans.push({ text: plain.slice(pos, m.index), bold: false });
+        spans.push({ text: m[1] ?? m[2], bold: true });
+        pos = m.index + m[0].length;
+    }
+    if (pos < plain.length) spans.push({ text: plain.slice(pos), bold: false });
+    return spans;
+}
+
+/**
+ * Özet Markdown'ını blok listesine çevirir (başlık, paragraf, madde). Şablonların istediği
+ * "## Bölüm" başlıkları korunur; ardışık düz satırlar tek paragrafta birleşir.
+ */
+export function parseMarkdownBlocks(md: string): Block[] {
+    const blocks: Block[] = [];
+    let para: string[] = [];
+
+    const flush = () => {
+        if (para.length > 0) blocks.push({ kind: "paragraph", spans: parseInline(para.join(" ")) });
+        para = [];
+    };
+
+    for (const raw of md.replace(/\r\n?/g, "\n").split("\n")) {
+        const line = raw.trim();
+        if (!line || /^(-{3,}|\*{3,}|```.*)$/.test(line)) {
+            flush();
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+            flush();
+            const level = Math.min(3, heading[1].length) as 1 | 2 | 3;
+            blocks.push({ kind: "heading", level, spans: parseInline(heading[2].replace(/\s+#+$/, "")) });
+            continue;
+        }
+
+        const bullet = line.match(/^([-*+]|\d+[.)])\s+(.*)$/);
+        if (bullet) {
+            flush();
+            const marker = /^\d/.test(bullet[1]) ? `${bullet[1].replace(")", ".")}` : "•";
+            blocks.push({ kind: "bullet", marker, spans: parseInline(bullet[2]) });
+            continue;
+        }
+
+        para.push(line.replace(/^>\s?/, ""));
+    }
+    flush();
+    return blocks;
+}
+
+export function renderMarkdown(doc: ExportDocument): string {
+    return [
+        `# ${doc.title}`,
+        "",
+        `- **Anahtar kelimeler:** ${doc.keywords.join(", ") || "-"}`,
+        `- **Kaynak:** ${doc.sourceName}`,
+        `- **Tarih:** ${formatExportDate(doc.createdAt)}`,
+        "",
+        doc.summary.trim(),
+        "",
+    ].join("\n");
+}
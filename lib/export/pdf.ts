@@ -0,0 +1,260 @@
+// src/lib/export/pdf.ts
+import { Buffer } from "buffer";
+import { formatExportDate, parseMarkdownBlocks, type ExportDocument, type Span } from "./markdown";
+
+// Bağımlılıksız, tek fontlu (Helvetica) basit PDF yazıcısı. Standart 14 font gömülmez;
+// Türkçe karakterler 128-255 aralığına /Differences ile glif adı olarak eşlenir.
+
+const PAGE_W = 595.28; // A4
+const PAGE_H = 841.89;
+const MARGIN = 56;
+const TEXT_W = PAGE_W - MARGIN * 2;
+
+// Helvetica AFM genişlikleri (1/1000 em), ASCII 32..126
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+    556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778,
+    722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+    500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// ASCII dışı karakterler: [karakter, glif adı, genişlik]; sırası 128'den başlayan kodları belirler.
+const EXTRA_GLYPHS: Array<[string, string, number]> = [
+    ["ç", "ccedilla", 500],
+    ["Ç", "Ccedilla", 722],
+    ["ğ", "gbreve", 556],
+    ["Ğ", "Gbreve", 778],
+    ["ı", "dotlessi", 278],
+    ["İ", "Idotaccent", 278],
+    ["ö", "odieresis", 556],
+    ["Ö", "Odieresis", 778],
+    ["ş", "scedilla", 500],
+    ["Ş", "Scedilla", 667],
+    ["ü", "udieresis", 556],
+    ["Ü", "Udieresis", 722],
+    ["â", "acircumflex", 556],
+    ["Â", "Acircumflex", 667],
+    ["î", "icircumflex", 278],
+    ["Î", "Icircumflex", 278],
+    ["û", "ucircumflex", 556],
+    ["Û", "Ucircumflex", 722],
+    ["á", "aacute", 556],
+    ["à", "agrave", 556],
+    ["ä", "adieresis", 556],
+    ["Ä", "Adieresis", 667],
+    ["é", "eacute", 556],
+    ["è", "egrave", 556],
+    ["ê", "ecircumflex", 556],
+    ["É", "Eacute", 667],
+    ["í", "iacute", 278],
+    ["ó", "oacute", 556],
+    ["ú", "uacute", 556],
+    ["ñ", "ntilde", 556],
+    ["ß", "germandbls", 611],
+    ["–", "endash", 556],
+    ["—", "emdash", 1000],
+    ["‘", "quoteleft", 222],
+    ["’", "quoteright", 222],
+    ["“", "quotedblleft", 333],
+    ["”", "quotedblright", 333],
+    ["•", "bullet", 350],
+    ["…", "ellipsis", 1000],
+    ["€", "Euro", 556],
+    ["°", "degree", 400],
+    ["×", "multiply", 584],
+];
+
+const EXTRA_CODES = new Map(EXTRA_GLYPHS.map(([ch, , w], i) => [ch, { code: 128 + i, width: w }]));
+
+// Kalın yazı genişliği yaklaşık olarak ölçülür; satır kırma için yeterli.
+const BOLD_FACTOR = 1.07;
+
+function encodeChar(ch: string): { code: number; width: number } {
+    const extra = EXTRA_CODES.get(ch);
+    if (extra) return extra;
+    const c = ch.charCodeAt(0);
+    if (c >= 32 && c <= 126) return { code: c, width: HELVETICA_WIDTHS[c - 32] };
+    if (ch === "\t") return { code: 32, width: 278 };
+    // Bilinmeyen aksanlı harf -> temel harf, diğerleri -> "?"
+    const base = ch.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    return base.length === 1 && base !== ch ? encodeChar(base) : { code: 63, width: 556 };
+}
+
+function textWidth(s: string, size: number, bold: boolean) {
+    let w = 0;
+    for (const ch of s) w += encodeChar(ch).width;
+    return (w * size * (bold ? BOLD_FACTOR : 1)) / 1000;
+}
+
+function pdfString(s: string) {
+    let out = "";
+    for (const ch of s) {
+        const { code } = encodeChar(ch);
+        if (code === 40 || code === 41 || code === 92) out += `\\${String.fromCharCode(code)}`;
+        else if (code > 126) out += `\\${code.toString(8)}`;
+        else out += String.fromCharCode(code);
+    }
+    return `(${out})`;
+}
+
+type Word = { text: string; bold: boolean };
+type Line = { words: Word[]; indent: number };
+
+function toWords(spans: Span[], forceBold: boolean): Word[] {
+    return spans.flatMap((s) =>
+        s.text
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((text) => ({ text, bold: forceBold || s.bold }))
+    );
+}
+
+function wrap(words: Word[], size: number, width: number): Word[][] {
+    const lines: Word[][] = [];
+    let line: Word[] = [];
+    let w = 0;
+    const space = textWidth(" ", size, false);
+
+    for (const word of words) {
+        const ww = textWidth(word.text, size, word.bold);
+        if (line.length > 0 && w + space + ww > width) {
+            lines.push(line);
+            line = [];
+            w = 0;
+        }
+        w += (line.length > 0 ? space : 0) + ww;
+        line.push(word);
+    }
+    if (line.length > 0) lines.push(line);
+    return lines;
+}
+
+// Sayfa sayfa içerik akışı üretir; satır sığmazsa yeni sayfaya geçer.
+function createPageWriter() {
+    const pages: string[] = [];
+    let ops: string[] = [];
+    let y = PAGE_H - MARGIN;
+
+    const newPage = () => {
+        if (ops.length > 0) pages.push(ops.join("\n"));
+        ops = [];
+        y = PAGE_H - MARGIN;
+    };
+
+    return {
+        space(h: number) {
+            y -= h;
+        },
+        paragraph(lines: Line[], size: number, leading: number, color = "0 0 0") {
+            for (const line of lines) {
+                if (y - leading < MARGIN) newPage();
+                y -= leading;
+
+                let x = MARGIN + line.indent;
+                const parts: string[] = [`${color} rg`, "BT"];
+                for (const [i, word] of line.words.entries()) {
+                    const text = (i > 0 ? " " : "") + word.text;
+                    parts.push(`/${word.bold ? "F2" : "F1"} ${size} Tf 1 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)} Tm ${pdfString(text)} Tj`);
+                    x += textWidth(text, size, word.bold);
+                }
+                parts.push("ET");
+                ops.push(parts.join("\n"));
+            }
+        },
+        finish() {
+            newPage();
+            return pages;
+        },
+    };
+}
+
+const HEADING_SIZES = { 1: 16, 2: 13.5, 3: 12 } as const;
+const BODY_SIZE = 10.5;
+
+function layout(doc: ExportDocument): string[] {
+    const w = createPageWriter();
+    const block = (words: Word[], size: number, indent = 0, color?: string) =>
+        w.paragraph(
+            wrap(words, size, TEXT_W - indent).map((ws) => ({ words: ws, indent })),
+            size,
+            size * 1.4,
+            color
+        );
+
+    block(toWords([{ text: doc.title, bold: true }], false), 20);
+    w.space(6);
+    const meta: Array<[string, string]> = [
+        ["Anahtar kelimeler:", doc.keywords.join(", ") || "-"],
+        ["Kaynak:", doc.sourceName],
+        ["Tarih:", formatExportDate(doc.createdAt)],
+    ];
+    for (const [label, value] of meta) {
+        block([{ text: label, bold: true }, ...toWords([{ text: value, bold: false }], false)], 9.5, 0, "0.3 0.3 0.3");
+    }
+    w.space(10);
+
+    for (const b of parseMarkdownBlocks(doc.summary)) {
+        if (b.kind === "heading") {
+            w.space(8);
+            block(toWords(b.spans, true), HEADING_SIZES[b.level]);
+            w.space(2);
+        } else if (b.kind === "bullet") {
+            const lines = wrap(toWords(b.spans, false), BODY_SIZE, TEXT_W - 16);
+            w.paragraph(
+                lines.map((ws, i) => ({ words: i === 0 ? [{ text: b.marker, bold: false }, ...ws] : ws, indent: i === 0 ? 4 : 16 })),
+                BODY_SIZE,
+                BODY_SIZE * 1.45
+            );
+            w.space(2);
+        } else {
+            block(toWords(b.spans, false), BODY_SIZE);
+            w.space(6);
+        }
+    }
+    return w.finish();
+}
+
+/**
+ * Özeti A4 PDF'e çevirir: başlık, anahtar kelimeler, kaynak, tarih ve Markdown bölüm başlıkları.
+ */
+export function renderPdf(doc: ExportDocument): Buffer {
+    const pages = layout(doc);
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body); // 1'den başlayan nesne numarası
+
+    const differences = `[128 ${EXTRA_GLYPHS.map(([, name]) => `/${name}`).join(" ")}]`;
+    const encoding = add(`<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences ${differences} >>`);
+    const font = (name: string) => add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding ${encoding} 0 R >>`);
+    const regular = font("Helvetica");
+    const bold = font("Helvetica-Bold");
+
+    const pagesId = objects.length + 1 + pages.length * 2;
+    const kids: number[] = [];
+    for (const [i, content] of pages.entries()) {
+        const footer = `0.5 0.5 0.5 rg BT /F1 8 Tf 1 0 0 1 ${(PAGE_W / 2 - 10).toFixed(2)} 30 Tm (${i + 1} / ${pages.length}) Tj ET`;
+        const stream = `${content}\n${footer}`;
+        const contentId = add(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+        kids.push(
+            add(
+                `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+                    `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${contentId} 0 R >>`
+            )
+        );
+    }
+    add(`<< /Type /Pages /Kids [${kids.map((k) => `${k} 0 R`).join(" ")}] /Count ${kids.length} >>`);
+    const catalog = add(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    const info = add(`<< /Title ${pdfString(doc.title)} /Producer (jethulasa) >>`);
+
+    let out = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets: number[] = [];
+    for (const [i, body] of objects.entries()) {
+        offsets.push(Buffer.byteLength(out, "latin1"));
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    }
+    const xref = Buffer.byteLength(out, "latin1");
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(out, "latin1");
+}
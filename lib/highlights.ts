@@ -0,0 +1,149 @@
+// src/lib/highlights.ts
+// PDF görüntüleyicideki kişisel işaretler ve notlar. Özete okuma erişimi yeterlidir (klasör/etiket gibi).
+import { prisma } from "@/lib/prisma";
+import { isRecord } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
+
+export const HIGHLIGHT_COLORS = ["yellow", "green", "blue", "pink"] as const;
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+
+const MAX_QUOTE_CHARS = 2000;
+const MAX_NOTE_CHARS = 5000;
+const MAX_RECTS = 200;
+const MAX_PAGE = 100_000;
+
+export type HighlightRect = { x: number; y: number; w: number; h: number };
+
+export type HighlightInput = { page: number; quote: string; rects: HighlightRect[]; color: HighlightColor; note: string | null };
+
+export type HighlightPatch = { color?: HighlightColor; note?: string | null };
+
+export class HighlightError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "HighlightError";
+        this.status = status;
+    }
+}
+
+export const highlightSelect = {
+    id: true,
+    page: true,
+    quote: true,
+    rects: true,
+    color: true,
+    note: true,
+    createdAt: true,
+    updatedAt: true,
+} as const;
+
+function isColor(v: unknown): v is HighlightColor {
+    return typeof v === "string" && (HIGHLIGHT_COLORS as readonly string[]).includes(v);
+}
+
+function isUnit(v: unknown): v is number {
+    return typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= 1;
+}
+
+function parseRects(v: unknown): HighlightRect[] | null {
+    if (!Array.isArray(v) || v.length === 0 || v.length > MAX_RECTS) return null;
+    const rects: HighlightRect[] = [];
+    for (const r of v) {
+        if (!isRecord(r) || !isUnit(r.x) || !isUnit(r.y) || !isUnit(r.w) || !isUnit(r.h)) return null;
+        rects.push({ x: r.x, y: r.y, w: r.w, h: r.h });
+    }
+    return rects;
+}
+
+// note: boş metin notu siler
+function parseNote(v: unknown): { ok: true; note: string | null } | { ok: false; error: string } {
+    if (v === null || v === undefined) return { ok: true, note: null };
+    if (typeof v !== "string") return { ok: false, error: "note metin olmalı." };
+    const note = v.trim();
+    if (note.length > MAX_NOTE_CHARS) return { ok: false, error: `Not en fazla ${MAX_NOTE_CHARS} karakter olabilir.` };
+    return { ok: true, note: note || null };
+}
+
+/**
+ * POST gövdesi: { page, quote, rects: [{ x, y, w, h }], color?, note? } — rects sayfaya oranla 0-1.
+ */
+export function parseHighlightInput(body: unknown): { ok: true; input: HighlightInput } | { ok: false; error: string } {
+    if (!isRecord(body)) return { ok: false, error: "Geçersiz JSON." };
+
+    const page = body.page;
+    if (typeof page !== "number" || !Number.isInteger(page) || page < 1 || page > MAX_PAGE) {
+        return { ok: false, error: "page pozitif bir tam sayı olmalı." };
+    }
+
+    const quote = typeof body.quote === "string" ? body.quote.replace(/\s+/g, " ").trim() : "";
+    if (!quote || quote.length > MAX_QUOTE_CHARS) return { ok: false, error: `Seçilen metin 1-${MAX_QUOTE_CHARS} karakter olmalı.` };
+
+    const rects = parseRects(body.rects);
+    if (!rects) return { ok: false, error: `rects 1-${MAX_RECTS} adet { x, y, w, h } (0-1 arası) olmalı.` };
+
+    if (body.color !== undefined && !isColor(body.color)) {
+        return { ok: false, error: `Geçersiz renk. İzin verilenler: ${HIGHLIGHT_COLORS.join(", ")}` };
+    }
+
+    const note = parseNote(body.note);
+    if (!note.ok) return note;
+
+    return { ok: true, input: { page, quote, rects, color: isColor(body.color) ? body.color : "yellow", note: note.note } };
+}
+
+/**
+ * PATCH gövdesi: { color?, note? } — en az biri olmalı.
+ */
+export function parseHighlightPatch(body: unknown): { ok: true; patch: HighlightPatch } | { ok: false; error: string } {
+    if (!isRecord(body)) return { ok: false, error: "Geçersiz JSON." };
+    const patch: HighlightPatch = {};
+
+    if (body.color !== undefined) {
+        if (!isColor(body.color)) return { ok: false, error: `Geçersiz renk. İzin verilenler: ${HIGHLIGHT_COLORS.join(", ")}` };
+        patch.color = body.color;
+    }
+    if (body.note !== undefined) {
+        const note = parseNote(body.note);
+        if (!note.ok) return note;
+        patch.note = note.note;
+    }
+
+    if (Object.keys(patch).length === 0) return { ok: false, error: "Değiştirilecek alan yok (color, note)." };
+    return { ok: true, patch };
+}
+
+async function requireReadable(summaryId: string, userId: string) {
+    const access = await authorizeSummary(summaryId, userId, "read");
+    if (!access.ok) throw new HighlightError(access.error, access.status);
+}
+
+async function requireHighlight(summaryId: string, userId: string, highlightId: string) {
+    const row = await prisma.highlight.findFirst({ where: { id: highlightId, summaryId, userId }, select: { id: true } });
+    if (!row) throw new HighlightError("İşaret bulunamadı.", 404);
+}
+
+export async function listHighlights(userId: string, summaryId: string) {
+    await requireReadable(summaryId, userId);
+    return prisma.highlight.findMany({
+        where: { summaryId, userId },
+        orderBy: [{ page: "asc" }, { createdAt: "asc" }],
+        select: highlightSelect,
+    });
+}
+
+export async function createHighlight(userId: string, summaryId: string, input: HighlightInput) {
+    await requireReadable(summaryId, userId);
+    return prisma.highlight.create({ data: { summaryId, userId, ...input }, select: highlightSelect });
+}
+
+export async function updateHighlight(userId: string, summaryId: string, highlightId: string, patch: HighlightPatch) {
+    await requireHighlight(summaryId, userId, highlightId);
+    return prisma.highlight.update({ where: { id: highlightId }, data: patch, select: highlightSelect });
+}
+
+export async function deleteHighlight(userId: string, summaryId: string, highlightId: string) {
+    await requireHighlight(summaryId, userId, highlightId);
+    await prisma.highlight.delete({ where: { id: highlightId } });
+}
@@ -0,0 +1,69 @@
+// src/lib/ingest/docx.ts
+import { decodeEntities } from "./html";
+import type { ExtractedDocument } from "./types";
+import { openZip } from "./zip";
+
+function runText(xml: string) {
+    const parts: string[] = [];
+    for (const m of xml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\/>/g)) {
+        if (m[1] !== undefined) parts.push(decodeEntities(m[1]));
+        else parts.push(m[0] === "<w:tab/>" ? "\t" : "\n");
+    }
+    return parts.join("").trim();
+}
+
+function paragraphToMarkdown(p: string): string {
+    const text = runText(p);
+    if (!text) return "";
+
+    // Word yerleşik başlık stilleri: Heading1..6 / Title (yerelleştirilmiş adlar da "Heading" id'si taşır)
+    const style = p.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? "";
+    const heading = style.match(/^(?:Heading|Balk)(\d)$/i);
+    if (heading) return `${"#".repeat(Math.min(6, Number(heading[1]) + 1))} ${text}`;
+    if (/^Title$/i.test(style)) return `# ${text}`;
+
+    if (/<w:numPr>/.test(p) || /^ListParagraph$/i.test(style)) return `- ${text}`;
+    return text;
+}
+
+function tableToMarkdown(tbl: string): string {
+    const rows = [...tbl.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g)].map((r) =>
+        [...r[0].matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g)].map((c) => runText(c[0]).replace(/\s+/g, " ").replace(/\|/g, "\\|"))
+    );
+    if (rows.length === 0) return "";
+
+    const width = Math.max(...rows.map((r) => r.length));
+    const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill("")].join(" | ")} |`;
+    return [line(rows[0]), `| ${Array(width).fill("---").join(" | ")} |`, ...rows.slice(1).map(line)].join("\n");
+}
+
+/**
+ * word/document.xml gövdesini sırayla Markdown'a çevirir.
+ * DOCX'te sabit sayfa yoktur; elle konmuş sayfa sonları (w:br type="page") sayfa sınırı sayılır.
+ */
+export async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+    const zip = await openZip(buffer);
+    const xml = await zip.text("word/document.xml");
+    if (!xml) throw new Error("DOCX okunamadı (word/document.xml yok).");
+
+    const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? xml;
+
+    const pages: string[][] = [[]];
+    for (const m of body.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b[\s\S]*?<\/w:p>/g)) {
+        const block = m[0];
+        if (block.startsWith("<w:tbl>")) {
+            pages[pages.length - 1].push(tableToMarkdown(block));
+            continue;
+        }
+
+        const md = paragraphToMarkdown(block);
+        if (md) pages[pages.length - 1].push(md);
+        if (/<w:br w:type="page"\/>/.test(block)) pages.push([]);
+    }
+
+    return {
+        format: "docx",
+        unit: "page",
+        pages: pages.map((blocks, i) => ({ page: i + 1, text: blocks.filter(Boolean).join("\n\n") })),
+    };
+}
@@ -0,0 +1,47 @@
+// src/lib/ingest/epub.ts
+import path from "path";
+import { htmlToMarkdown } from "./html";
+import type { ExtractedDocument } from "./types";
+import { openZip } from "./zip";
+
+/**
+ * container.xml -> OPF -> spine sırasıyla XHTML bölümlerini okur.
+ * Her spine öğesi (genelde bir bölüm) bir "sayfa" olur.
+ */
+export async function extractEpub(buffer: Buffer): Promise<ExtractedDocument> {
+    const zip = await openZip(buffer);
+
+    const container = await zip.text("META-INF/container.xml");
+    const opfPath = container?.match(/full-path="([^"]+)"/)?.[1];
+    const opf = opfPath ? await zip.text(opfPath) : undefined;
+    if (!opfPath || !opf) throw new Error("EPUB okunamadı (OPF yok).");
+
+    const manifest = new Map<string, string>();
+    for (const m of opf.matchAll(/<item\b[^>]*>/g)) {
+        const id = m[0].match(/\bid="([^"]+)"/)?.[1];
+        const href = m[0].match(/\bhref="([^"]+)"/)?.[1];
+        if (id && href) manifest.set(id, href);
+    }
+
+    const baseDir = path.posix.dirname(opfPath);
+    const pages = [];
+    for (const m of opf.matchAll(/<itemref\b[^>]*idref="([^"]+)"/g)) {
+        const href = manifest.get(m[1]);
+        if (!href) continue;
+
+        let decoded: string;
+        try {
+            decoded = decodeURIComponent(href);
+        } catch {
+            continue; // bozuk %-kodlamalı href: bu bölüm atlanır, kitabın geri kalanı okunur
+        }
+        const file = path.posix.normalize(path.posix.join(baseDir, decoded));
+        const html = await zip.text(file);
+        if (!html) continue;
+
+        const text = htmlToMarkdown(html);
+        if (text) pages.push({ page: pages.length + 1, text });
+    }
+
+    return { format: "epub", unit: "section", pages };
+}
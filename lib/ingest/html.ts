@@ -0,0 +1,59 @@
+// src/lib/ingest/html.ts
+// Bağımlılıksız, basit HTML -> Markdown dönüştürücü (başlık, liste, paragraf, tablo satırı).
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+    ndash: "–",
+    mdash: "—",
+    hellip: "…",
+    laquo: "«",
+    raquo: "»",
+    rsquo: "’",
+    lsquo: "‘",
+    rdquo: "”",
+    ldquo: "“",
+};
+
+export function decodeEntities(s: string) {
+    return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+        if (e[0] === "#") {
+            const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+        }
+        return NAMED_ENTITIES[e.toLowerCase()] ?? m;
+    });
+}
+
+export function htmlToMarkdown(html: string): string {
+    let s = html
+        .replace(/<!--[\s\S]*?-->/g, "")
+        .replace(/<(script|style|noscript|svg|head|template)\b[\s\S]*?<\/\1>/gi, "");
+
+    s = s
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, lvl: string, inner: string) => `\n\n${"#".repeat(Number(lvl))} ${inner}\n\n`)
+        .replace(/<li\b[^>]*>/gi, "\n- ")
+        .replace(/<\/li>/gi, "")
+        .replace(/<\/(ul|ol)>/gi, "\n\n")
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/(td|th)>/gi, " | ")
+        .replace(/<tr\b[^>]*>/gi, "\n| ")
+        .replace(/<\/(p|div|section|article|header|footer|blockquote|pre|table|tr|figure|h[1-6])>/gi, "\n\n")
+        .replace(/<[^>]+>/g, "");
+
+    return decodeEntities(s)
+        .split("\n")
+        .map((l) => l.replace(/[ \t ]+/g, " ").trim())
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+export function htmlTitle(html: string): string | null {
+    const m = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    return m ? decodeEntities(m[1]).replace(/\s+/g, " ").trim() || null : null;
+}
@@ -0,0 +1,89 @@
+// src/lib/ingest/index.ts
+import { extractDocx } from "./docx";
+import { extractEpub } from "./epub";
+import { extractPptx } from "./pptx";
+import { extractHtml, extractMarkdown, extractText } from "./text";
+import type { DocumentFormat, ExtractedDocument } from "./types";
+import { openZip } from "./zip";
+
+export type { DocumentFormat, ExtractedDocument } from "./types";
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+    "application/pdf": "pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+    "application/epub+zip": "epub",
+    "text/html": "html",
+    "application/xhtml+xml": "html",
+    "text/markdown": "markdown",
+    "text/x-markdown": "markdown",
+    "text/plain": "txt",
+};
+
+const EXT_FORMATS: Record<string, DocumentFormat> = {
+    pdf: "pdf",
+    docx: "docx",
+    pptx: "pptx",
+    epub: "epub",
+    html: "html",
+    htm: "html",
+    xhtml: "html",
+    md: "markdown",
+    markdown: "markdown",
+    txt: "txt",
+    text: "txt",
+};
+
+function startsWith(buf: Buffer, sig: string) {
+    return buf.subarray(0, sig.length).toString("latin1") === sig;
+}
+
+// ZIP tabanlı formatlar (DOCX/PPTX/EPUB) içerdikleri dosyalara göre ayrılır.
+async function detectZipFormat(buf: Buffer): Promise<DocumentFormat | null> {
+    try {
+        const zip = await openZip(buf);
+        if (zip.has("word/document.xml")) return "docx";
+        if (zip.has("ppt/presentation.xml")) return "pptx";
+        const mimetype = await zip.text("mimetype");
+        if (mimetype?.trim() === "application/epub+zip" || zip.has("META-INF/container.xml")) return "epub";
+    } catch {}
+    return null;
+}
+
+function looksLikeText(buf: Buffer) {
+    const sample = buf.subarray(0, 4096);
+    return !sample.includes(0);
+}
+
+/**
+ * Biçimi önce içerikten (magic bytes), sonra MIME türü ve uzantıdan belirler.
+ * İçerik beyan edilen türle çelişirse içerik kazanır (ör. .pdf uzantılı DOCX).
+ */
+export async function detectFormat(name: string, mime: string, buf: Buffer): Promise<DocumentFormat | null> {
+    if (startsWith(buf, "%PDF")) return "pdf";
+    if (startsWith(buf, "PK\x03\x04")) return detectZipFormat(buf);
+    if (!looksLikeText(buf)) return null;
+
+    const ext = name.toLowerCase().split(".").pop() ?? "";
+    const declared = MIME_FORMATS[mime.split(";")[0].trim().toLowerCase()] ?? EXT_FORMATS[ext];
+
+    // Metin dosyası ama beyan edilen tür ikili bir format ise reddet
+    if (declared && ["pdf", "docx", "pptx", "epub"].includes(declared)) return null;
+    if (declared) return declared;
+
+    const head = buf.subarray(0, 512).toString("utf8").trimStart().toLowerCase();
+    if (head.startsWith("<!doctype html") || head.startsWith("<html")) return "html";
+    return "txt";
+}
+
+/**
+ * PDF dışındaki biçimler için metin çıkarıcı; PDF, OCR desteğiyle pipeline'da işlenir.
+ */
+export async function extractDocument(format: Exclude<DocumentFormat, "pdf">, buf: Buffer): Promise<ExtractedDocument> {
+    if (format === "docx") return extractDocx(buf);
+    if (format === "pptx") return extractPptx(buf);
+    if (format === "epub") return extractEpub(buf);
+    if (format === "html") return extractHtml(buf);
+    if (format === "markdown") return extractMarkdown(buf);
+    return extractText(buf);
+}
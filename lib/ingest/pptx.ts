@@ -0,0 +1,49 @@
+// src/lib/ingest/pptx.ts
+import { decodeEntities } from "./html";
+import type { ExtractedDocument } from "./types";
+import { openZip } from "./zip";
+
+function paragraphs(xml: string): string[] {
+    return [...xml.matchAll(/<a:p>[\s\S]*?<\/a:p>/g)]
+        .map((p) => [...p[0].matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)].map((t) => decodeEntities(t[1])).join(""))
+        .map((t) => t.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Her slayt bir "sayfa" olur: başlık yer tutucusu "##", diğer metin kutuları madde olarak.
+ * Konuşmacı notları varsa slaytın sonuna eklenir.
+ */
+export async function extractPptx(buffer: Buffer): Promise<ExtractedDocument> {
+    const zip = await openZip(buffer);
+
+    const slideFiles = zip.names
+        .filter((f) => /^ppt\/slides\/slide\d+\.xml$/.test(f))
+        .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+
+    if (slideFiles.length === 0) throw new Error("PPTX okunamadı (slayt yok).");
+
+    const pages = [];
+    for (let i = 0; i < slideFiles.length; i++) {
+        const xml = (await zip.text(slideFiles[i])) ?? "";
+        const lines: string[] = [];
+
+        for (const sp of xml.matchAll(/<p:sp>[\s\S]*?<\/p:sp>/g)) {
+            const isTitle = /<p:ph type="(?:title|ctrTitle)"/.test(sp[0]);
+            const texts = paragraphs(sp[0]);
+            if (texts.length === 0) continue;
+
+            if (isTitle) lines.unshift(`## ${texts.join(" ")}`);
+            else lines.push(...texts.map((t) => `- ${t}`));
+        }
+
+        const notesFile = slideFiles[i].replace("slides/slide", "notesSlides/notesSlide");
+        const notesXml = await zip.text(notesFile);
+        const notes = notesXml ? paragraphs(notesXml).filter((t) => !/^\d+$/.test(t)) : [];
+        if (notes.length > 0) lines.push(`Notlar: ${notes.join(" ")}`);
+
+        pages.push({ page: i + 1, text: lines.join("\n") });
+    }
+
+    return { format: "pptx", unit: "slide", pages };
+}
@@ -0,0 +1,156 @@
+// src/lib/ingest/readable.ts
+import { decodeEntities, htmlToMarkdown } from "./html";
+
+// Okunabilir metin: önce ana içerik kabı (article/main) seçilir, sonra içindeki kalıp
+// bölümler (menü, paylaşım, yorum, reklam, çerez bandı...) etiket dengesine bakılarak atılır.
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+
+// Her zaman atılan etiketler; header/footer sadece ana kap bulunamazsa atılır (article başlığı header içinde olabilir).
+const DROP_TAGS = new Set(["nav", "aside", "form", "button", "iframe", "dialog", "menu", "select", "noscript", "svg"]);
+const PAGE_CHROME_TAGS = new Set(["header", "footer"]);
+
+const BOILERPLATE_TOKENS = new Set([
+    "ad",
+    "ads",
+    "advert",
+    "advertisement",
+    "banner",
+    "breadcrumb",
+    "breadcrumbs",
+    "comment",
+    "comments",
+    "consent",
+    "cookie",
+    "cookies",
+    "footer",
+    "menu",
+    "modal",
+    "nav",
+    "navbar",
+    "navigation",
+    "newsletter",
+    "pagination",
+    "popup",
+    "promo",
+    "related",
+    "share",
+    "sharing",
+    "sidebar",
+    "social",
+    "subscribe",
+]);
+
+const BOILERPLATE_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search", "dialog"]);
+
+// Açılış etiketinin bittiği yerden, aynı isimli etiketleri sayarak kapanışın sonunu bulur; kapanmıyorsa -1.
+function elementEnd(html: string, tag: string, from: number): number {
+    const re = new RegExp(`<(/?)${tag}\\b[^>]*>`, "gi");
+    re.lastIndex = from;
+    let depth = 1;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(html))) {
+        if (m[1]) depth--;
+        else if (!m[0].endsWith("/>")) depth++;
+        if (depth === 0) return re.lastIndex;
+    }
+    return -1;
+}
+
+function isBoilerplate(attrs: string) {
+    // hidden özniteliği: değerler çıkarılarak aranır ki class="overflow-hidden" eşleşmesin
+    if (/\shidden\b/i.test(attrs.replace(/"[^"]*"|'[^']*'/g, "")) || /aria-hidden\s*=\s*["']?true/i.test(attrs)) return true;
+
+    const role = attrs.match(/\brole\s*=\s*["']?([\w-]+)/i)?.[1]?.toLowerCase();
+    if (role && BOILERPLATE_ROLES.has(role)) return true;
+
+    for (const m of attrs.matchAll(/\b(?:class|id)\s*=\s*["']([^"']*)["']/gi)) {
+        if (m[1].toLowerCase().split(/[\s_-]+/).some((t) => BOILERPLATE_TOKENS.has(t))) return true;
+    }
+    return false;
+}
+
+function removeElements(html: string, shouldDrop: (tag: string, attrs: string) => boolean) {
+    const open = /<([a-z][a-z0-9-]*)\b([^>]*)>/gi;
+    let out = "";
+    let pos = 0;
+    let m: RegExpExecArray | null;
+
+    while ((m = open.exec(html))) {
+        const tag = m[1].toLowerCase();
+        if (VOID_TAGS.has(tag) || m[0].endsWith("/>") || !shouldDrop(tag, m[2])) continue;
+
+        const end = elementEnd(html, tag, open.lastIndex);
+        if (end === -1) continue;
+        // Sınıf adı yanıltıcı olabilir ("has-comments"): asıl içeriği taşıyan bir kabı atma.
+        if (/<(article|main|h1)\b/i.test(html.slice(open.lastIndex, end))) continue;
+
+        out += html.slice(pos, m.index);
+        pos = end;
+        open.lastIndex = end;
+    }
+    return out + html.slice(pos);
+}
+
+function innerOf(html: string, tag: string): string[] {
+    const open = new RegExp(`<${tag}\\b[^>]*>`, "gi");
+    const found: string[] = [];
+    let m: RegExpExecArray | null;
+    while ((m = open.exec(html))) {
+        const end = elementEnd(html, tag, open.lastIndex);
+        const inner = html.slice(open.lastIndex, end === -1 ? html.length : end);
+        found.push(inner);
+        if (end !== -1) open.lastIndex = end;
+    }
+    return found;
+}
+
+function textLength(html: string) {
+    return html.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim().length;
+}
+
+// Birden çok <article> varsa (liste sayfaları) en uzun metinli olan ana içeriktir.
+function mainContainer(html: string): string | null {
+    for (const tag of ["article", "main"]) {
+        const candidates = innerOf(html, tag).filter((c) => textLength(c) > 200);
+        if (candidates.length > 0) {
+            return candidates.reduce((best, c) => (textLength(c) > textLength(best) ? c : best));
+        }
+    }
+    const roleMain = html.match(/<(\w+)\b[^>]*\brole\s*=\s*["']?main\b[^>]*>/i);
+    if (roleMain?.index !== undefined) {
+        const start = roleMain.index + roleMain[0].length;
+        const end = elementEnd(html, roleMain[1].toLowerCase(), start);
+        return html.slice(start, end === -1 ? html.length : end);
+    }
+    return null;
+}
+
+function metaTitle(html: string): string | null {
+    const og =
+        html.match(/<meta[^>]+property\s*=\s*["']og:title["'][^>]*content\s*=\s*["']([^"']+)["']/i) ??
+        html.match(/<meta[^>]+content\s*=\s*["']([^"']+)["'][^>]*property\s*=\s*["']og:title["']/i);
+    if (og) return decodeEntities(og[1]).trim() || null;
+    const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+    return h1 ? decodeEntities(h1[1].replace(/<[^>]+>/g, "")).replace(/\s+/g, " ").trim() || null : null;
+}
+
+export function extractReadableHtml(html: string): { title: string | null; markdown: string } {
+    const cleaned = html
+        .replace(/<!--[\s\S]*?-->/g, "")
+        .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1>/gi, "");
+
+    const container = mainContainer(cleaned);
+    const root = container ?? innerOf(cleaned, "body")[0] ?? cleaned;
+
+    const body = removeElements(
+        root,
+        (tag, attrs) => DROP_TAGS.has(tag) || (!container && PAGE_CHROME_TAGS.has(tag)) || isBoilerplate(attrs)
+    );
+
+    let markdown = htmlToMarkdown(body);
+    const title = metaTitle(html);
+    if (markdown && title && !/^#\s/.test(markdown)) markdown = `# ${title}\n\n${markdown}`;
+
+    return { title, markdown: markdown.trim() };
+}
@@ -0,0 +1,49 @@
+// src/lib/ingest/text.ts
+import { htmlToMarkdown } from "./html";
+import type { ExtractedDocument } from "./types";
+
+// Düz metin / Markdown sabit sayfa taşımaz; uzun metinler ~3000 karakterlik "sayfalara" bölünür
+// ki atıflar ve chunk'lama PDF'le aynı yolu izlesin. Form feed (\f) varsa gerçek sayfa sınırıdır.
+const PSEUDO_PAGE_CHARS = 3000;
+
+export function decodeText(buffer: Buffer) {
+    const s = buffer.toString("utf8");
+    return s.charCodeAt(0) === 0xfeff ? s.slice(1) : s;
+}
+
+function paginate(text: string): string[] {
+    if (text.includes("\f")) return text.split("\f");
+
+    const pages: string[] = [];
+    let current = "";
+    for (const para of text.split(/\n{2,}/)) {
+        if (current && current.length + para.length > PSEUDO_PAGE_CHARS) {
+            pages.push(current);
+            current = "";
+        }
+        current = current ? `${current}\n\n${para}` : para;
+    }
+    if (current) pages.push(current);
+    return pages;
+}
+
+function toDocument(format: ExtractedDocument["format"], text: string): ExtractedDocument {
+    const normalized = text.replace(/\r\n?/g, "\n");
+    return {
+        format,
+        unit: "page",
+        pages: paginate(normalized).map((t, i) => ({ page: i + 1, text: t.trim() })),
+    };
+}
+
+export function extractText(buffer: Buffer): ExtractedDocument {
+    return toDocument("txt", decodeText(buffer));
+}
+
+export function extractMarkdown(buffer: Buffer): ExtractedDocument {
+    return toDocument("markdown", decodeText(buffer));
+}
+
+export function extractHtml(buffer: Buffer): ExtractedDocument {
+    return toDocument("html", htmlToMarkdown(decodeText(buffer)));
+}
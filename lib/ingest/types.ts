@@ -0,0 +1,11 @@
+// src/lib/ingest/types.ts
+import type { PageText } from "@/lib/summarize/pages";
+
+export type DocumentFormat = "pdf" | "docx" | "pptx" | "txt" | "markdown" | "html" | "epub";
+
+export type ExtractedDocument = {
+    format: DocumentFormat;
+    // Atıflardaki numaranın neyi saydığı: PDF/DOCX sayfası, PPTX slaytı, EPUB bölümü
+    unit: "page" | "slide" | "section";
+    pages: PageText[];
+};
@@ -0,0 +1,339 @@
+// src/lib/ingest/url.ts
+import { Buffer } from "buffer";
+import dns, { type LookupAddress, type LookupOptions } from "dns";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import net from "net";
+import zlib from "zlib";
+import { htmlTitle } from "./html";
+import { extractReadableHtml } from "./readable";
+import type { DocumentFormat } from "./types";
+
+// status: istemciye dönecek HTTP kodu (400 geçersiz URL, 403 engelli hedef, 413 boyut, 415 tür...)
+export class UrlFetchError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.status = status;
+    }
+}
+
+export type UrlFetchOptions = {
+    maxBytes: number;
+    timeoutMs: number;
+    // Sadece yerel geliştirme/test için: 127.0.0.1 gibi iç adreslere izin verir.
+    allowPrivate: boolean;
+};
+
+export type UrlDocument = {
+    url: string; // yönlendirmeler sonrası son adres
+    name: string;
+    format: Exclude<DocumentFormat, "docx" | "pptx" | "epub">;
+    buffer: Buffer;
+};
+
+const MAX_REDIRECTS = 5;
+
+const ALLOWED_MIME: Record<string, UrlDocument["format"]> = {
+    "text/html": "html",
+    "application/xhtml+xml": "html",
+    "application/pdf": "pdf",
+    "text/plain": "txt",
+    "text/markdown": "markdown",
+    "text/x-markdown": "markdown",
+};
+
+function envInt(name: string, fallback: number) {
+    const n = Number(process.env[name]);
+    return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function urlFetchOptionsFromEnv(): UrlFetchOptions {
+    return {
+        maxBytes: envInt("URL_FETCH_MAX_BYTES", 10 * 1024 * 1024),
+        timeoutMs: envInt("URL_FETCH_TIMEOUT_MS", 15_000),
+        allowPrivate: process.env.URL_FETCH_ALLOW_PRIVATE === "1",
+    };
+}
+
+// Loopback, özel ağ, link-local (bulut metadata: 169.254.169.254), CGNAT, multicast ve ayrılmış bloklar
+const blockedRanges = new net.BlockList();
+for (const [addr, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.0.2.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["198.51.100.0", 24],
+    ["203.0.113.0", 24],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+] as const) {
+    blockedRanges.addSubnet(addr, prefix, "ipv4");
+}
+for (const [addr, prefix] of [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["2001:db8::", 32],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+] as const) {
+    blockedRanges.addSubnet(addr, prefix, "ipv6");
+}
+
+// ::ffff:127.0.0.1 ve ::ffff:7f00:1 biçimindeki IPv4-mapped adresler IPv4 kurallarıyla denetlenir.
+function mappedIpv4(addr: string): string | null {
+    const dotted = addr.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (dotted) return dotted[1];
+    const hex = addr.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+    if (!hex) return null;
+    const hi = parseInt(hex[1], 16);
+    const lo = parseInt(hex[2], 16);
+    return [hi >> 8, hi & 255, lo >> 8, lo & 255].join(".");
+}
+
+export function isBlockedAddress(addr: string): boolean {
+    const v4 = net.isIPv4(addr) ? addr : mappedIpv4(addr);
+    if (v4) return blockedRanges.check(v4, "ipv4");
+    if (net.isIPv6(addr)) return blockedRanges.check(addr, "ipv6");
+    return true; // IP değilse güvenli tarafta kal
+}
+
+function blockedError() {
+    return new UrlFetchError("Bu adrese erişim engellendi (yerel veya özel ağ adresi).", 403);
+}
+
+/**
+ * DNS çözümlemesi bağlantı anında denetlenir; böylece kontrol ile bağlantı arasında
+ * adresi değiştiren (DNS rebinding) alan adları da iç ağa ulaşamaz.
+ */
+function guardedLookup(
+    hostname: string,
+    options: LookupOptions,
+    callback: (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err, "");
+        if (addresses.length === 0 || addresses.some((a) => isBlockedAddress(a.address))) {
+            return callback(blockedError(), "");
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+function parseHttpUrl(raw: string, base?: URL): URL {
+    let url: URL;
+    try {
+        url = new URL(raw, base);
+    } catch {
+        throw new UrlFetchError("Geçersiz URL.", 400);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new UrlFetchError("Sadece http ve https adresleri desteklenir.", 400);
+    }
+    if (url.username || url.password) {
+        throw new UrlFetchError("Kullanıcı adı/parola içeren URL'ler desteklenmez.", 400);
+    }
+    return url;
+}
+
+// IP yazılmış adreslerde DNS çözümlemesi yapılmaz; lookup atlanacağı için burada denetlenir.
+function assertAllowedHost(url: URL, opts: UrlFetchOptions) {
+    if (opts.allowPrivate) return;
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (net.isIP(host) && isBlockedAddress(host)) throw blockedError();
+    if (host === "localhost" || host.endsWith(".localhost")) throw blockedError();
+}
+
+function parseContentType(header: string | undefined) {
+    const [mime = "", ...params] = (header ?? "").split(";");
+    const charset = params
+        .map((p) => p.trim().match(/^charset\s*=\s*"?([^";]+)"?$/i)?.[1])
+        .find(Boolean);
+    return { mime: mime.trim().toLowerCase(), charset: charset?.toLowerCase() ?? null };
+}
+
+function decoderFor(res: IncomingMessage) {
+    const enc = String(res.headers["content-encoding"] ?? "identity").toLowerCase();
+    if (enc === "gzip" || enc === "x-gzip") return zlib.createGunzip();
+    if (enc === "deflate") return zlib.createInflate();
+    if (enc === "br") return zlib.createBrotliDecompress();
+    if (enc === "identity") return null;
+    throw new UrlFetchError(`Desteklenmeyen içerik kodlaması: ${enc}`, 415);
+}
+
+type Hop =
+    | { kind: "redirect"; location: string }
+    | { kind: "body"; mime: string; charset: string | null; buffer: Buffer };
+
+function requestOnce(url: URL, opts: UrlFetchOptions, signal: AbortSignal): Promise<Hop> {
+    const client = url.protocol === "https:" ? https : http;
+
+    return new Promise<Hop>((resolve, reject) => {
+        const req = client.request(
+            url,
+            {
+                method: "GET",
+                signal,
+                lookup: opts.allowPrivate ? undefined : guardedLookup,
+                headers: {
+                    "user-agent": "Mozilla/5.0 (compatible; jethulasa/0.1; +summarizer)",
+                    accept: "text/html,application/xhtml+xml,application/pdf;q=0.9,text/plain;q=0.8,text/markdown;q=0.8",
+                    "accept-encoding": "gzip, deflate, br",
+                },
+            },
+            (res) => {
+                const status = res.statusCode ?? 0;
+                const fail = (e: Error) => {
+                    res.destroy();
+                    reject(e);
+                };
+
+                if (status >= 300 && status < 400 && res.headers.location) {
+                    res.resume();
+                    return resolve({ kind: "redirect", location: res.headers.location });
+                }
+                if (status < 200 || status >= 300) {
+                    return fail(new UrlFetchError(`Sayfa alınamadı (HTTP ${status}).`, 502));
+                }
+
+                // İçerik türü gövde okunmadan denetlenir; boş/octet-stream ise gövdeden PDF imzası aranır.
+                const { mime, charset } = parseContentType(res.headers["content-type"]);
+                if (mime && mime !== "application/octet-stream" && !ALLOWED_MIME[mime]) {
+                    return fail(new UrlFetchError(`Desteklenmeyen içerik türü: ${mime}`, 415));
+                }
+
+                const declared = Number(res.headers["content-length"]);
+                if (Number.isFinite(declared) && declared > opts.maxBytes) {
+                    return fail(new UrlFetchError("Sayfa çok büyük.", 413));
+                }
+
+                let body: NodeJS.ReadableStream = res;
+                try {
+                    const decoder = decoderFor(res);
+                    if (decoder) {
+                        decoder.on("error", (e) => fail(new UrlFetchError(`Sayfa çözülemedi: ${e.message}`, 502)));
+                        body = res.pipe(decoder);
+                    }
+                } catch (e) {
+                    return fail(e as Error);
+                }
+
+                // Sınır açılmış (decompress edilmiş) byte'lara uygulanır: sıkıştırma bombasına karşı.
+                const chunks: Buffer[] = [];
+                let size = 0;
+                body.on("data", (chunk: Buffer) => {
+                    size += chunk.length;
+                    if (size > opts.maxBytes) return fail(new UrlFetchError("Sayfa çok büyük.", 413));
+                    chunks.push(chunk);
+                });
+                body.on("error", (e) => fail(e));
+                body.on("end", () => resolve({ kind: "body", mime, charset, buffer: Buffer.concat(chunks) }));
+            }
+        );
+
+        req.on("error", reject);
+        req.end();
+    });
+}
+
+function toFetchError(e: unknown): UrlFetchError {
+    if (e instanceof UrlFetchError) return e;
+    const err = e as NodeJS.ErrnoException;
+    if (err?.name === "AbortError" || err?.name === "TimeoutError") {
+        return new UrlFetchError("Sayfa zaman aşımına uğradı.", 504);
+    }
+    if (err?.code === "ENOTFOUND" || err?.code === "EAI_AGAIN") {
+        return new UrlFetchError("Alan adı çözümlenemedi.", 502);
+    }
+    return new UrlFetchError(`Sayfa alınamadı: ${err?.message ?? "bağlantı hatası"}`, 502);
+}
+
+/**
+ * URL'yi boyut/süre sınırı ve iç ağ korumasıyla indirir. Yönlendirmelerin her adımı yeniden denetlenir.
+ */
+export async function fetchUrl(raw: string, opts = urlFetchOptionsFromEnv()) {
+    const signal = AbortSignal.timeout(opts.timeoutMs);
+    let url = parseHttpUrl(raw.trim());
+
+    try {
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            assertAllowedHost(url, opts);
+            const res = await requestOnce(url, opts, signal);
+            if (res.kind === "redirect") {
+                url = parseHttpUrl(res.location, url);
+                continue;
+            }
+            return { url: url.toString(), mime: res.mime, charset: res.charset, buffer: res.buffer };
+        }
+    } catch (e) {
+        throw toFetchError(e);
+    }
+    throw new UrlFetchError("Çok fazla yönlendirme.", 502);
+}
+
+// Başlıkta charset yoksa HTML içindeki <meta charset> kullanılır.
+function decodeBody(buffer: Buffer, charset: string | null) {
+    const sniffed = buffer
+        .subarray(0, 2048)
+        .toString("latin1")
+        .match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1];
+    try {
+        return new TextDecoder(charset ?? sniffed ?? "utf-8").decode(buffer);
+    } catch {
+        return new TextDecoder("utf-8").decode(buffer);
+    }
+}
+
+function nameFromUrl(url: URL) {
+    const raw = url.pathname.split("/").filter(Boolean).pop() ?? "";
+    let last = raw;
+    try {
+        last = decodeURIComponent(raw);
+    } catch {} // bozuk %-kodlama: ham parça kullanılır
+    return last || url.hostname;
+}
+
+/**
+ * URL'yi indirip pipeline'ın işleyebileceği belgeye çevirir.
+ * HTML sayfalarında menü/altbilgi gibi kalıp içerik ayıklanır ve okunabilir metin Markdown olarak verilir.
+ */
+export async function fetchUrlDocument(raw: string, opts = urlFetchOptionsFromEnv()): Promise<UrlDocument> {
+    const res = await fetchUrl(raw, opts);
+    const url = new URL(res.url);
+    const isPdf = res.buffer.subarray(0, 4).toString("latin1") === "%PDF";
+
+    const format = isPdf ? "pdf" : ALLOWED_MIME[res.mime];
+    if (!format || (format === "pdf" && !isPdf)) {
+        throw new UrlFetchError(`Desteklenmeyen içerik türü: ${res.mime || "bilinmiyor"}`, 415);
+    }
+
+    if (format === "pdf") {
+        return { url: res.url, name: nameFromUrl(url), format, buffer: res.buffer };
+    }
+
+    const text = decodeBody(res.buffer, res.charset);
+    if (format !== "html") {
+        return { url: res.url, name: nameFromUrl(url), format, buffer: Buffer.from(text, "utf8") };
+    }
+
+    const readable = extractReadableHtml(text);
+    if (!readable.markdown) {
+        throw new UrlFetchError("Sayfada okunabilir metin bulunamadı.", 422);
+    }
+    return {
+        url: res.url,
+        name: readable.title ?? htmlTitle(text) ?? url.hostname,
+        format: "markdown",
+        buffer: Buffer.from(readable.markdown, "utf8"),
+    };
+}
@@ -0,0 +1,69 @@
+// src/lib/ingest/zip.ts
+// DOCX/PPTX/EPUB için sınırlı ZIP okuma: zip bombası sunucu belleğini tüketmesin.
+import JSZip from "jszip";
+
+export type ZipLimits = { maxEntries: number; maxTotalBytes: number };
+
+export const ZIP_LIMITS: ZipLimits = { maxEntries: 10_000, maxTotalBytes: 200 * 1024 * 1024 };
+
+export type ZipReader = {
+    names: string[];
+    has: (name: string) => boolean;
+    // Dosya yoksa undefined; açılmış toplam boyut sınırı aşılırsa hata fırlatır.
+    text: (name: string) => Promise<string | undefined>;
+};
+
+function tooLarge(): Error {
+    return new Error("Arşiv açıldığında çok büyük; dosya reddedildi.");
+}
+
+// Merkez dizindeki beyan edilen boyut (JSZip'te özel alan)
+function declaredSize(file: JSZip.JSZipObject) {
+    const size = (file as unknown as { _data?: { uncompressedSize?: unknown } })._data?.uncompressedSize;
+    return typeof size === "number" ? size : 0;
+}
+
+// Akış bütçeyi aşınca durdurulur; okunmayan akış geri basınçla açmayı da bekletir.
+function readLimited(stream: NodeJS.ReadableStream, budget: { left: number }): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        const onData = (chunk: string | Buffer) => {
+            const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+            budget.left -= buf.length;
+            if (budget.left < 0) {
+                stream.removeListener("data", onData);
+                stream.pause();
+                reject(tooLarge());
+                return;
+            }
+            chunks.push(buf);
+        };
+        stream.on("data", onData);
+        stream.on("error", reject);
+        stream.on("end", () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+/**
+ * Arşivi açar; giriş sayısı ve beyan edilen toplam boyut baştan kontrol edilir. Başlıklar yalan
+ * söyleyebileceği için okuma sırasında gerçekten açılan byte'lar da aynı bütçeden düşülür.
+ */
+export async function openZip(buffer: Buffer, limits: ZipLimits = ZIP_LIMITS): Promise<ZipReader> {
+    const zip = await JSZip.loadAsync(buffer);
+    const files = Object.values(zip.files).filter((f) => !f.dir);
+
+    if (files.length > limits.maxEntries) throw new Error(`Arşivde çok fazla dosya var (en fazla ${limits.maxEntries}).`);
+    if (files.reduce((sum, f) => sum + declaredSize(f), 0) > limits.maxTotalBytes) throw tooLarge();
+
+    const budget = { left: limits.maxTotalBytes };
+    return {
+        names: files.map((f) => f.name),
+        has: (name) => zip.file(name) !== null,
+        async text(name) {
+            const file = zip.file(name);
+            if (!file) return undefined;
+
+            return (await readLimited(file.nodeStream("nodebuffer"), budget)).toString("utf8");
+        },
+    };
+}
@@ -0,0 +1,114 @@
+// src/lib/jobs.ts
+import { SummaryJobStatus } from "@prisma/client";
+import { releaseBlobs, storageKeysFor } from "@/lib/attachments";
+import { prisma } from "@/lib/prisma";
+import { errorMessage } from "@/lib/summaries";
+import { runSummarize, type SummarizeInput, type SummarizeProgress } from "@/lib/summarize/pipeline";
+
+const ACTIVE_STATUSES: SummaryJobStatus[] = [SummaryJobStatus.queued, SummaryJobStatus.running];
+
+// Çalışan job updatedAt'i bu aralıkla tazeler; STALE_AFTER_MS boyunca tazelenmeyen aktif job ölü sayılır
+// (süreç job running iken kapanmış/yeniden başlamış).
+const HEARTBEAT_MS = 30_000;
+const STALE_AFTER_MS = 5 * 60_000;
+
+export class JobCanceledError extends Error {
+    constructor() {
+        super("İş iptal edildi.");
+    }
+}
+
+export function isActiveStatus(status: SummaryJobStatus) {
+    return ACTIVE_STATUSES.includes(status);
+}
+
+export async function createSummaryJob(userId: string) {
+    return prisma.summaryJob.create({
+        data: { userId, status: SummaryJobStatus.queued, progress: "sırada" },
+        select: { id: true, status: true, createdAt: true },
+    });
+}
+
+// Sadece hâlâ çalışan job güncellenir; iptal edilmişse count 0 döner ve pipeline durdurulur.
+async function reportProgress(jobId: string, p: SummarizeProgress) {
+    const updated = await prisma.summaryJob.updateMany({
+        where: { id: jobId, status: SummaryJobStatus.running },
+        data: { progress: p.step, progressDone: p.done, progressTotal: p.total },
+    });
+    if (updated.count === 0) throw new JobCanceledError();
+}
+
+// Uzun tek bir sağlayıcı çağrısı sırasında ilerleme gelmese de job'un canlı olduğunu gösterir.
+function startHeartbeat(jobId: string) {
+    const timer = setInterval(() => {
+        prisma.summaryJob
+            .updateMany({ where: { id: jobId, status: SummaryJobStatus.running }, data: { updatedAt: new Date() } })
+            .catch((err) => console.error("Summary job heartbeat error:", err));
+    }, HEARTBEAT_MS);
+    timer.unref?.();
+    return () => clearInterval(timer);
+}
+
+/**
+ * Job'u queued -> running -> succeeded/failed olarak ilerletir.
+ * Response döndükten sonra (next/server `after`) çağrılır, bu yüzden hiçbir zaman fırlatmaz.
+ */
+export async function runSummaryJob(jobId: string, input: SummarizeInput) {
+    try {
+        const started = await prisma.summaryJob.updateMany({
+            where: { id: jobId, status: SummaryJobStatus.queued },
+            data: { status: SummaryJobStatus.running, progress: "başladı" },
+        });
+        if (started.count === 0) return; // çalışmadan önce iptal edildi
+
+        const stopHeartbeat = startHeartbeat(jobId);
+        const saved = await runSummarize(input, { onProgress: (p) => reportProgress(jobId, p) }).finally(stopHeartbeat);
+
+        const finished = await prisma.summaryJob.updateMany({
+            where: { id: jobId, status: SummaryJobStatus.running },
+            data: { status: SummaryJobStatus.succeeded, progress: "tamamlandı", summaryId: saved.id },
+        });
+
+        // Son adımda iptal edildiyse üretilen özet de tutulmaz.
+        if (finished.count === 0) {
+            const keys = await storageKeysFor([saved.id]);
+            await prisma.summary.deleteMany({ where: { id: saved.id } });
+            await releaseBlobs(keys);
+        }
+    } catch (e) {
+        if (e instanceof JobCanceledError) return;
+
+        console.error("Summary job error:", e);
+        await prisma.summaryJob
+            .updateMany({
+                where: { id: jobId, status: { in: ACTIVE_STATUSES } },
+                data: { status: SummaryJobStatus.failed, error: errorMessage(e) },
+            })
+            .catch((err) => console.error("Summary job status update error:", err));
+    }
+}
+
+export async function cancelSummaryJob(jobId: string, userId: string) {
+    const canceled = await prisma.summaryJob.updateMany({
+        where: { id: jobId, userId, status: { in: ACTIVE_STATUSES } },
+        data: { status: SummaryJobStatus.canceled, progress: "iptal edildi" },
+    });
+    return canceled.count > 0;
+}
+
+/**
+ * Heartbeat'i STALE_AFTER_MS boyunca gelmeyen queued/running job'u failed yapar; aksi halde süreç
+ * ölünce job sonsuza kadar aktif görünür. Job okunmadan önce çağrılır; güncellendiyse true döner.
+ */
+export async function failStaleSummaryJob(jobId: string, userId: string) {
+    const failed = await prisma.summaryJob.updateMany({
+        where: {
+            id: jobId,
+            userId,
+            status: { in: ACTIVE_STATUSES },
+            updatedAt: { lt: new Date(Date.now() - STALE_AFTER_MS) },
+        },
+        data: { status: SummaryJobStatus.failed, error: "İş yanıt vermeyi bıraktı; lütfen tekrar deneyin." },
+    });
+    return failed.count > 0;
+}
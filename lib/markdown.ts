@@ -0,0 +1,219 @@
+// src/lib/markdown.ts
+// Özet görünümü için küçük Markdown ayrıştırıcısı. Çıktı düz veri ağacıdır; UI bunu React
+// elemanlarına çevirir, yani ham HTML hiçbir zaman DOM'a basılmaz (metin olarak görünür).
+// Bağlantılar sadece http(s)/mailto şemasıyla kabul edilir.
+
+export type Inline =
+    | { type: "text"; text: string }
+    | { type: "strong"; children: Inline[] }
+    | { type: "em"; children: Inline[] }
+    | { type: "code"; text: string }
+    | { type: "link"; href: string; children: Inline[] };
+
+export type MdBlock =
+    | { type: "heading"; level: number; children: Inline[] }
+    | { type: "paragraph"; children: Inline[] }
+    | { type: "list"; ordered: boolean; start: number; items: Inline[][] }
+    | { type: "quote"; children: Inline[] }
+    | { type: "code"; text: string }
+    | { type: "table"; header: Inline[][]; rows: Inline[][][] }
+    | { type: "hr" };
+
+export type MdSection = {
+    id: string;
+    title: string; // giriş bölümü (ilk başlıktan önceki metin) için boş
+    level: number;
+    source: string; // başlık dahil bölümün ham Markdown'ı (kopyalama için)
+    blocks: MdBlock[];
+};
+
+export function safeHref(href: string): string | null {
+    try {
+        const u = new URL(href);
+        return ["http:", "https:", "mailto:"].includes(u.protocol) ? u.toString() : null;
+    } catch {
+        return null;
+    }
+}
+
+// `kod`, **kalın**, __kalın__, *italik*, _italik_ (kelime içi alt çizgi hariç), [metin](url)
+const INLINE_RE =
+    /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<![\p{L}\p{N}])_([^_\s](?:[^_]*[^_\s])?)_(?![\p{L}\p{N}])|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/gu;
+
+export function parseInline(s: string): Inline[] {
+    const out: Inline[] = [];
+    let pos = 0;
+
+    for (const m of s.matchAll(INLINE_RE)) {
+        if (m.index > pos) out.push({ type: "text", text: s.slice(pos, m.index) });
+        pos = m.index + m[0].length;
+
+        if (m[1] !== undefined) out.push({ type: "code", text: m[1] });
+        else if (m[2] !== undefined || m[3] !== undefined) out.push({ type: "strong", children: parseInline(m[2] ?? m[3]) });
+        else if (m[4] !== undefined || m[5] !== undefined) out.push({ type: "em", children: parseInline(m[4] ?? m[5]) });
+        else {
+            const href = safeHref(m[7]);
+            out.push(href ? { type: "link", href, children: parseInline(m[6]) } : { type: "text", text: m[6] });
+        }
+    }
+
+    if (pos < s.length) out.push({ type: "text", text: s.slice(pos) });
+    return out;
+}
+
+export function inlineText(nodes: Inline[]): string {
+    return nodes.map((n) => ("children" in n ? inlineText(n.children) : n.text)).join("");
+}
+
+function tableCells(line: string): string[] {
+    return line
+        .trim()
+        .replace(/^\||\|$/g, "")
+        .split(/(?<!\\)\|/)
+        .map((c) => c.trim().replace(/\\\|/g, "|"));
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const LIST_ITEM = /^\s*([-*+]|(\d+)[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+export function parseMarkdown(md: string): MdBlock[] {
+    const lines = md.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: MdBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const trimmed = line.trim();
+
+        if (!trimmed) {
+            i++;
+            continue;
+        }
+
+        if (trimmed.startsWith("```")) {
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith("```")) body.push(lines[i++]);
+            i++;
+            blocks.push({ type: "code", text: body.join("\n") });
+            continue;
+        }
+
+        const heading = trimmed.match(HEADING);
+        if (heading) {
+            blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+            blocks.push({ type: "hr" });
+            i++;
+            continue;
+        }
+
+        if (trimmed.startsWith("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+            const header = tableCells(trimmed).map(parseInline);
+            const rows: Inline[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].trim().startsWith("|")) rows.push(tableCells(lines[i++]).map(parseInline));
+            blocks.push({ type: "table", header, rows });
+            continue;
+        }
+
+        const item = line.match(LIST_ITEM);
+        if (item) {
+            const ordered = item[2] !== undefined;
+            const items: string[] = [];
+            // Aynı türden ardışık maddeler tek liste; girintili devam satırları önceki maddeye eklenir.
+            while (i < lines.length) {
+                const m = lines[i].match(LIST_ITEM);
+                if (m && (m[2] !== undefined) === ordered) items.push(m[3]);
+                else if (items.length > 0 && /^\s{2,}\S/.test(lines[i]) && !m) items[items.length - 1] += ` ${lines[i].trim()}`;
+                else break;
+                i++;
+            }
+            blocks.push({ type: "list", ordered, start: ordered ? Number(item[2]) : 1, items: items.map(parseInline) });
+            continue;
+        }
+
+        if (trimmed.startsWith(">")) {
+            const body: string[] = [];
+            while (i < lines.length && lines[i].trim().startsWith(">")) body.push(lines[i++].trim().replace(/^>\s?/, ""));
+            blocks.push({ type: "quote", children: parseInline(body.join(" ")) });
+            continue;
+        }
+
+        const para: string[] = [];
+        while (i < lines.length) {
+            const l = lines[i].trim();
+            if (!l || HEADING.test(l) || LIST_ITEM.test(lines[i]) || l.startsWith("```") || l.startsWith(">")) break;
+            if (l.startsWith("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) break;
+            para.push(l);
+            i++;
+        }
+        blocks.push({ type: "paragraph", children: parseInline(para.join(" ")) });
+    }
+
+    return blocks;
+}
+
+function slugify(s: string) {
+    return (
+        s
+            .toLocaleLowerCase("tr-TR")
+            .replace(/[^\p{L}\p{N}]+/gu, "-")
+            .replace(/^-+|-+$/g, "")
+            .slice(0, 60) || "bolum"
+    );
+}
+
+/**
+ * Özeti en üst başlık düzeyine göre bölümlere ayırır (şablonlarda "## Amaç ve Kapsam" gibi).
+ * Alt başlıklar bölümün içinde kalır. İlk başlıktan önceki metin başlıksız giriş bölümüdür.
+ */
+export function splitSections(md: string): MdSection[] {
+    const lines = md.replace(/\r\n?/g, "\n").split("\n");
+
+    let fenced = false;
+    const headingAt: Array<{ index: number; level: number }> = [];
+    for (const [index, line] of lines.entries()) {
+        if (line.trim().startsWith("```")) fenced = !fenced;
+        const m = !fenced && line.trim().match(HEADING);
+        if (m) headingAt.push({ index, level: m[1].length });
+    }
+
+    const top = headingAt.length > 0 ? Math.min(...headingAt.map((h) => h.level)) : 0;
+    const starts = headingAt.filter((h) => h.level === top).map((h) => h.index);
+    if (starts[0] !== 0) starts.unshift(0);
+
+    const used = new Map<string, number>();
+    const sections: MdSection[] = [];
+
+    for (const [n, start] of starts.entries()) {
+        const source = lines
+            .slice(start, starts[n + 1] ?? lines.length)
+            .join("\n")
+            .trim();
+        if (!source) continue;
+
+        const blocks = parseMarkdown(source);
+        const head = blocks[0]?.type === "heading" && blocks[0].level === top ? blocks[0] : null;
+        const title = head ? inlineText(head.children).trim() : "";
+
+        const base = title ? slugify(title) : "giris";
+        const seen = used.get(base) ?? 0;
+        used.set(base, seen + 1);
+
+        sections.push({
+            id: seen > 0 ? `${base}-${seen + 1}` : base,
+            title,
+            level: head ? top : 0,
+            source,
+            blocks: head ? blocks.slice(1) : blocks,
+        });
+    }
+
+    return sections;
+}
@@ -0,0 +1,210 @@
+// src/lib/organize.ts
+// Klasörler ve etiketler: kullanıcının kişisel düzeni. Özete erişim (okuma) yeterlidir;
+// çalışma alanındaki bir özeti klasöre koymak veya etiketlemek başka üyeleri etkilemez.
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { isRecord } from "@/lib/summaries";
+import { authorizeSummary } from "@/lib/workspaces";
+
+const MAX_NAME_CHARS = 60;
+
+export class OrganizeError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "OrganizeError";
+        this.status = status;
+    }
+}
+
+export const folderSelect = { id: true, name: true, createdAt: true, _count: { select: { summaries: true } } } as const;
+
+export const tagSelect = { id: true, name: true, createdAt: true, _count: { select: { summaries: true } } } as const;
+
+function toApiGroup(row: { id: string; name: string; createdAt: Date; _count: { summaries: number } }) {
+    const { _count, ...rest } = row;
+    return { ...rest, summaryCount: _count.summaries };
+}
+
+/**
+ * { name } gövdesi; boşluklar sadeleştirilir.
+ */
+export function parseName(body: unknown): { ok: true; name: string } | { ok: false; error: string } {
+    const name = isRecord(body) && typeof body.name === "string" ? body.name.replace(/\s+/g, " ").trim() : "";
+    if (!name || name.length > MAX_NAME_CHARS) return { ok: false, error: `Ad 1-${MAX_NAME_CHARS} karakter olmalı.` };
+    return { ok: true, name };
+}
+
+function isUniqueViolation(e: unknown) {
+    return e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002";
+}
+
+async function requireReadable(summaryId: string, userId: string) {
+    const access = await authorizeSummary(summaryId, userId, "read");
+    if (!access.ok) throw new OrganizeError(access.error, access.status);
+}
+
+// --- Klasörler ---
+
+export async function listFolders(userId: string) {
+    const rows = await prisma.folder.findMany({ where: { userId }, orderBy: { name: "asc" }, select: folderSelect });
+    return rows.map(toApiGroup);
+}
+
+async function requireFolder(folderId: string, userId: string) {
+    const folder = await prisma.folder.findFirst({ where: { id: folderId, userId }, select: { id: true } });
+    if (!folder) throw new OrganizeError("Klasör bulunamadı.", 404);
+}
+
+export async function createFolder(userId: string, name: string) {
+    try {
+        return toApiGroup(await prisma.folder.create({ data: { userId, name }, select: folderSelect }));
+    } catch (e) {
+        if (isUniqueViolation(e)) throw new OrganizeError("Bu adla bir klasör zaten var.", 409);
+        throw e;
+    }
+}
+
+export async function renameFolder(userId: string, folderId: string, name: string) {
+    await requireFolder(folderId, userId);
+    try {
+        return toApiGroup(await prisma.folder.update({ where: { id: folderId }, data: { name }, select: folderSelect }));
+    } catch (e) {
+        if (isUniqueViolation(e)) throw new OrganizeError("Bu adla bir klasör zaten var.", 409);
+        throw e;
+    }
+}
+
+// Klasör silinir, içindeki özetler silinmez.
+export async function deleteFolder(userId: string, folderId: string) {
+    await requireFolder(folderId, userId);
+    await prisma.folder.delete({ where: { id: folderId } });
+}
+
+// Sürükle-bırak: aynı özet tekrar bırakılırsa bir şey değişmez.
+export async function addToFolder(userId: string, folderId: string, summaryId: string) {
+    await requireFolder(folderId, userId);
+    await requireReadable(summaryId, userId);
+    await prisma.summaryFolder.upsert({
+        where: { folderId_summaryId: { folderId, summaryId } },
+        update: {},
+        create: { folderId, summaryId },
+    });
+}
+
+export async function removeFromFolder(userId: string, folderId: string, summaryId: string) {
+    await requireFolder(folderId, userId);
+    await prisma.summaryFolder.deleteMany({ where: { folderId, summaryId } });
+}
+
+// --- Etiketler ---
+
+export async function listTags(userId: string) {
+    const rows = await prisma.tag.findMany({ where: { userId }, orderBy: { name: "asc" }, select: tagSelect });
+    return rows.map(toApiGroup);
+}
+
+async function requireTag(tagId: string, userId: string) {
+    const tag = await prisma.tag.findFirst({ where: { id: tagId, userId }, select: { id: true } });
+    if (!tag) throw new OrganizeError("Etiket bulunamadı.", 404);
+}
+
+function findTagByName(userId: string, name: string) {
+    return prisma.tag.findFirst({ where: { userId, name: { equals: name, mode: "insensitive" } }, select: tagSelect });
+}
+
+// Ad benzersizliği (büyük/küçük harf duyarsız) veritabanındaki lower(name) index'iyle korunur.
+export async function createTag(userId: string, name: string) {
+    try {
+        return toApiGroup(await prisma.tag.create({ data: { userId, name }, select: tagSelect }));
+    } catch (e) {
+        if (isUniqueViolation(e)) throw new OrganizeError("Bu adla bir etiket zaten var.", 409);
+        throw e;
+    }
+}
+
+export async function renameTag(userId: string, tagId: string, name: string) {
+    await requireTag(tagId, userId);
+    try {
+        return toApiGroup(await prisma.tag.update({ where: { id: tagId }, data: { name }, select: tagSelect }));
+    } catch (e) {
+        if (isUniqueViolation(e)) throw new OrganizeError("Bu adla bir etiket zaten var.", 409);
+        throw e;
+    }
+}
+
+export async function deleteTag(userId: string, tagId: string) {
+    await requireTag(tagId, userId);
+    await prisma.tag.delete({ where: { id: tagId } });
+}
+
+// Özetin bu kullanıcıya ait etiketleri (başka üyelerin etiketleri görünmez)
+export async function listSummaryTags(userId: string, summaryId: string) {
+    await requireReadable(summaryId, userId);
+    const links = await prisma.summaryTag.findMany({
+        where: { summaryId, tag: { userId } },
+        orderBy: { tag: { name: "asc" } },
+        select: { tag: { select: { id: true, name: true } } },
+    });
+    return links.map((l) => l.tag);
+}
+
+/**
+ * Özeti etiketle: { name } — etiket yoksa oluşturulur (anahtar kelimeden tek tıkla etiket).
+ */
+export async function tagSummary(userId: string, summaryId: string, name: string) {
+    await requireReadable(summaryId, userId);
+
+    let tag = await findTagByName(userId, name);
+    if (!tag) {
+        try {
+            tag = await prisma.tag.create({ data: { userId, name }, select: tagSelect });
+        } catch (e) {
+            // Aynı anda iki istek aynı etiketi oluşturduysa mevcut olan kullanılır.
+            if (!isUniqueViolation(e)) throw e;
+            tag = await findTagByName(userId, name);
+            if (!tag) throw e;
+        }
+    }
+
+    await prisma.summaryTag.upsert({
+        where: { tagId_summaryId: { tagId: tag.id, summaryId } },
+        update: {},
+        create: { tagId: tag.id, summaryId },
+    });
+    return { id: tag.id, name: tag.name };
+}
+
+export async function untagSummary(userId: string, summaryId: string, tagId: string) {
+    await requireTag(tagId, userId);
+    await prisma.summaryTag.deleteMany({ where: { tagId, summaryId } });
+}
+
+// --- Geçmiş filtreleri ---
+
+// ?folder=<id>&tag=<id>; başkasının klasörü/etiketi verilirse hiçbir şey eşleşmez.
+export function organizeFilterWhere(userId: string, folder: string | null, tag: string | null): Prisma.SummaryWhereInput {
+    return {
+        ...(folder ? { folders: { some: { folderId: folder, folder: { userId } } } } : {}),
+        ...(tag ? { tags: { some: { tagId: tag, tag: { userId } } } } : {}),
+    };
+}
+
+// Ham SQL sorguları (arama) için organizeFilterWhere karşılığı
+export function organizeFilterSql(userId: string, folder: string | null, tag: string | null): Prisma.Sql[] {
+    const conds: Prisma.Sql[] = [];
+    if (folder) {
+        conds.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "SummaryFolder" sf JOIN "Folder" f ON f."id" = sf."folderId"
+            WHERE sf."summaryId" = "Summary"."id" AND sf."folderId" = ${folder} AND f."userId" = ${userId}
+        )`);
+    }
+    if (tag) {
+        conds.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "SummaryTag" st JOIN "Tag" t ON t."id" = st."tagId"
+            WHERE st."summaryId" = "Summary"."id" AND st."tagId" = ${tag} AND t."userId" = ${userId}
+        )`);
+    }
+    return conds;
+}
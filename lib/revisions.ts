@@ -0,0 +1,259 @@
+// src/lib/revisions.ts
+import { SummaryRevisionKind } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { isRecord, normalizeKeywordsFromJson, summarySelect, toApiSummary } from "@/lib/summaries";
+
+const MAX_TITLE_CHARS = 300;
+const MAX_SUMMARY_CHARS = 200_000;
+const MAX_KEYWORDS = 30;
+const MAX_KEYWORD_CHARS = 100;
+
+// Satır diff'i O(n*m); bundan büyük metinlerde satırlar tek blok olarak değişmiş sayılır.
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type SummaryPatch = { title?: string; summary?: string; keywords?: string[] };
+
+export type SummaryContent = { title: string; summary: string; keywords: string[] };
+
+export class RevisionError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "RevisionError";
+        this.status = status;
+    }
+}
+
+export const revisionSelect = {
+    id: true,
+    number: true,
+    kind: true,
+    title: true,
+    summary: true,
+    keywords: true,
+    restoredFrom: true,
+    createdAt: true,
+    author: { select: { id: true, name: true, email: true } },
+} as const;
+
+type PatchResult = { ok: true; patch: SummaryPatch } | { ok: false; error: string };
+
+/**
+ * PATCH gövdesi: { title?, summary?, keywords? } — en az biri olmalı.
+ */
+export function parseSummaryPatch(body: unknown): PatchResult {
+    if (!isRecord(body)) return { ok: false, error: "Geçersiz JSON." };
+    const patch: SummaryPatch = {};
+
+    if (body.title !== undefined) {
+        const title = typeof body.title === "string" ? body.title.trim() : "";
+        if (!title || title.length > MAX_TITLE_CHARS) {
+            return { ok: false, error: `Başlık 1-${MAX_TITLE_CHARS} karakter olmalı.` };
+        }
+        patch.title = title;
+    }
+
+    if (body.summary !== undefined) {
+        const summary = typeof body.summary === "string" ? body.summary.trim() : "";
+        if (!summary || summary.length > MAX_SUMMARY_CHARS) {
+            return { ok: false, error: `Özet boş olamaz (en fazla ${MAX_SUMMARY_CHARS} karakter).` };
+        }
+        patch.summary = summary;
+    }
+
+    if (body.keywords !== undefined) {
+        if (!Array.isArray(body.keywords) || !body.keywords.every((k) => typeof k === "string")) {
+            return { ok: false, error: "keywords bir metin dizisi olmalı." };
+        }
+        const seen = new Set<string>();
+        const keywords = (body.keywords as string[])
+            .map((k) => k.trim())
+            .filter((k) => {
+                const key = k.toLocaleLowerCase("tr-TR");
+                if (!k || seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            });
+        if (keywords.length > MAX_KEYWORDS || keywords.some((k) => k.length > MAX_KEYWORD_CHARS)) {
+            return { ok: false, error: `En fazla ${MAX_KEYWORDS} anahtar kelime (her biri en fazla ${MAX_KEYWORD_CHARS} karakter).` };
+        }
+        patch.keywords = keywords;
+    }
+
+    if (Object.keys(patch).length === 0) return { ok: false, error: "Değiştirilecek alan yok (title, summary, keywords)." };
+    return { ok: true, patch };
+}
+
+function sameContent(a: SummaryContent, b: SummaryContent) {
+    return a.title === b.title && a.summary === b.summary && JSON.stringify(a.keywords) === JSON.stringify(b.keywords);
+}
+
+/**
+ * Özeti günceller ve yeni hâlini revizyon olarak yazar. İlk düzenlemede modelin ürettiği
+ * hâl "generated" revizyonu olarak saklanır ki geri dönülebilsin. İçerik değişmiyorsa revizyon açılmaz.
+ */
+export async function applySummaryChange(
+    summaryId: string,
+    authorId: string,
+    patch: SummaryPatch,
+    kind: SummaryRevisionKind,
+    restoredFrom: number | null = null
+) {
+    return prisma.$transaction(async (tx) => {
+        // Aynı özete eşzamanlı düzenlemeler sıraya girer (revizyon numarası çakışmasın).
+        await tx.$executeRaw`SELECT 1 FROM "Summary" WHERE "id" = ${summaryId} FOR UPDATE`;
+
+        const current = await tx.summary.findUnique({
+            where: { id: summaryId },
+            select: { userId: true, title: true, summary: true, keywords: true, createdAt: true },
+        });
+        if (!current) throw new RevisionError("Not found", 404);
+
+        const before: SummaryContent = {
+            title: current.title,
+            summary: current.summary,
+            keywords: normalizeKeywordsFromJson(current.keywords),
+        };
+        const after: SummaryContent = { ...before, ...patch };
+
+        const last = await tx.summaryRevision.findFirst({
+            where: { summaryId },
+            orderBy: { number: "desc" },
+            select: { number: true },
+        });
+        let number = last?.number ?? 0;
+
+        if (!sameContent(before, after)) {
+            if (number === 0) {
+                await tx.summaryRevision.create({
+                    data: {
+                        summaryId,
+                        authorId: current.userId,
+                        number: ++number,
+                        kind: SummaryRevisionKind.generated,
+                        ...before,
+                        createdAt: current.createdAt,
+                    },
+                });
+            }
+
+            await tx.summary.update({ where: { id: summaryId }, data: { ...after, editedAt: new Date() } });
+            await tx.summaryRevision.create({
+                data: { summaryId, authorId, number: ++number, kind, ...after, restoredFrom },
+            });
+        }
+
+        const row = await tx.summary.findUniqueOrThrow({ where: { id: summaryId }, select: summarySelect });
+        return toApiSummary(row);
+    });
+}
+
+export async function listRevisions(summaryId: string) {
+    const rows = await prisma.summaryRevision.findMany({
+        where: { summaryId },
+        orderBy: { number: "desc" },
+        select: revisionSelect,
+    });
+    return rows.map((r) => ({ ...r, keywords: normalizeKeywordsFromJson(r.keywords) }));
+}
+
+export async function restoreRevision(summaryId: string, authorId: string, revisionId: string) {
+    const rev = await prisma.summaryRevision.findFirst({
+        where: { id: revisionId, summaryId },
+        select: { number: true, title: true, summary: true, keywords: true },
+    });
+    if (!rev) throw new RevisionError("Revizyon bulunamadı.", 404);
+
+    const patch = { title: rev.title, summary: rev.summary, keywords: normalizeKeywordsFromJson(rev.keywords) };
+    return applySummaryChange(summaryId, authorId, patch, SummaryRevisionKind.restore, rev.number);
+}
+
+// --- Diff ---
+
+export type DiffLine = { op: "equal" | "add" | "remove"; text: string };
+
+export type RevisionDiff = {
+    title: { from: string; to: string } | null;
+    keywords: { added: string[]; removed: string[] };
+    summary: DiffLine[];
+};
+
+// En uzun ortak alt dizi üzerinden satır diff'i (ortak baş/son satırlar önce ayıklanır).
+export function diffLines(a: string, b: string): DiffLine[] {
+    const x = a.split("\n");
+    const y = b.split("\n");
+
+    let head = 0;
+    while (head < x.length && head < y.length && x[head] === y[head]) head++;
+    let tail = 0;
+    while (tail < x.length - head && tail < y.length - head && x[x.length - 1 - tail] === y[y.length - 1 - tail]) tail++;
+
+    const xs = x.slice(head, x.length - tail);
+    const ys = y.slice(head, y.length - tail);
+    const middle: DiffLine[] = [];
+
+    if ((xs.length + 1) * (ys.length + 1) > MAX_DIFF_CELLS) {
+        middle.push(...xs.map((text) => ({ op: "remove" as const, text })), ...ys.map((text) => ({ op: "add" as const, text })));
+    } else {
+        const w = ys.length + 1;
+        const lcs = new Uint32Array((xs.length + 1) * w);
+        for (let i = xs.length - 1; i >= 0; i--) {
+            for (let j = ys.length - 1; j >= 0; j--) {
+                lcs[i * w + j] = xs[i] === ys[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < xs.length && j < ys.length) {
+            if (xs[i] === ys[j]) {
+                middle.push({ op: "equal", text: xs[i] });
+                i++;
+                j++;
+            } else if (lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]) middle.push({ op: "remove", text: xs[i++] });
+            else middle.push({ op: "add", text: ys[j++] });
+        }
+        while (i < xs.length) middle.push({ op: "remove", text: xs[i++] });
+        while (j < ys.length) middle.push({ op: "add", text: ys[j++] });
+    }
+
+    return [
+        ...x.slice(0, head).map((text) => ({ op: "equal" as const, text })),
+        ...middle,
+        ...x.slice(x.length - tail).map((text) => ({ op: "equal" as const, text })),
+    ];
+}
+
+export function diffContent(from: SummaryContent, to: SummaryContent): RevisionDiff {
+    const fromKeys = new Set(from.keywords);
+    const toKeys = new Set(to.keywords);
+    return {
+        title: from.title === to.title ? null : { from: from.title, to: to.title },
+        keywords: {
+            added: to.keywords.filter((k) => !fromKeys.has(k)),
+            removed: from.keywords.filter((k) => !toKeys.has(k)),
+        },
+        summary: diffLines(from.summary, to.summary),
+    };
+}
+
+/**
+ * İki revizyonu (veya revizyonla özetin şu anki hâlini, to="current") karşılaştırır.
+ */
+export async function diffRevisions(summaryId: string, fromId: string, toId: string | "current"): Promise<RevisionDiff> {
+    const load = async (id: string): Promise<SummaryContent> => {
+        const row =
+            id === "current"
+                ? await prisma.summary.findUnique({ where: { id: summaryId }, select: { title: true, summary: true, keywords: true } })
+                : await prisma.summaryRevision.findFirst({
+                      where: { id, summaryId },
+                      select: { title: true, summary: true, keywords: true },
+                  });
+        if (!row) throw new RevisionError("Revizyon bulunamadı.", 404);
+        return { title: row.title, summary: row.summary, keywords: normalizeKeywordsFromJson(row.keywords) };
+    };
+
+    const [from, to] = await Promise.all([load(fromId), load(toId)]);
+    return diffContent(from, to);
+}
@@ -0,0 +1,162 @@
+// src/lib/search.ts
+import { Buffer } from "buffer";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { summarySelect, toApiSummary, toDbSource, type ApiSource } from "@/lib/summaries";
+import { organizeFilterSql } from "@/lib/organize";
+import { summaryAccessSql } from "@/lib/workspaces";
+
+const API_SOURCES: ApiSource[] = ["pdf", "image", "pdf+image", "docx", "pptx", "txt", "markdown", "html", "epub", "url", "text"];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export type SummarySearchQuery = {
+    q: string | null; // title + summary + inputText üzerinde tam metin arama
+    keywords: string[]; // hepsi bulunmalı (büyük/küçük harf duyarsız)
+    sources: ApiSource[];
+    from: Date | null;
+    to: Date | null; // hariç üst sınır
+    cursor: { createdAt: Date; id: string } | null;
+    limit: number;
+    workspace: string | null; // "personal" veya çalışma alanı id'si; null: görülebilen hepsi
+    folder: string | null; // kullanıcının klasör id'si
+    tag: string | null; // kullanıcının etiket id'si
+};
+
+type ParseResult = { ok: true; query: SummarySearchQuery } | { ok: false; error: string };
+
+export function encodeCursor(row: { createdAt: Date; id: string }) {
+    return Buffer.from(`${row.createdAt.toISOString()}|${row.id}`).toString("base64url");
+}
+
+function decodeCursor(raw: string): SummarySearchQuery["cursor"] {
+    const [iso, id] = Buffer.from(raw, "base64url").toString("utf8").split("|");
+    const createdAt = new Date(iso);
+    return id && !Number.isNaN(createdAt.getTime()) ? { createdAt, id } : null;
+}
+
+// "2026-03-01" gibi sadece tarih verilen "to" o günün tamamını kapsar.
+function parseDate(raw: string | null, endOfDay: boolean): Date | null | undefined {
+    if (!raw) return null;
+    const d = new Date(raw);
+    if (Number.isNaN(d.getTime())) return undefined;
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(raw)) d.setUTCDate(d.getUTCDate() + 1);
+    return d;
+}
+
+function listParam(params: URLSearchParams, name: string) {
+    return params
+        .getAll(name)
+        .flatMap((v) => v.split(","))
+        .map((v) => v.trim())
+        .filter(Boolean);
+}
+
+/**
+ * GET ?q=&keyword=a,b&source=pdf&from=2026-01-01&to=2026-03-31&workspace=personal&folder=&tag=&cursor=&limit=
+ */
+export function parseSearchParams(params: URLSearchParams): ParseResult {
+    const sources = listParam(params, "source");
+    const unknown = sources.find((s) => !API_SOURCES.includes(s as ApiSource));
+    if (unknown) return { ok: false, error: `Bilinmeyen kaynak: ${unknown}` };
+
+    const from = parseDate(params.get("from"), false);
+    const to = parseDate(params.get("to"), true);
+    if (from === undefined || to === undefined) return { ok: false, error: "Geçersiz tarih." };
+
+    const cursorRaw = params.get("cursor");
+    const cursor = cursorRaw ? decodeCursor(cursorRaw) : null;
+    if (cursorRaw && !cursor) return { ok: false, error: "Geçersiz cursor." };
+
+    const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+
+    return {
+        ok: true,
+        query: {
+            q: params.get("q")?.trim() || null,
+            keywords: listParam(params, "keyword"),
+            sources: sources as ApiSource[],
+            from,
+            to,
+            cursor,
+            limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT,
+            workspace: params.get("workspace")?.trim() || null,
+            folder: params.get("folder")?.trim() || null,
+            tag: params.get("tag")?.trim() || null,
+        },
+    };
+}
+
+/**
+ * Kullanıcının yazdığı metinden önek eşleşmeli tsquery üretir: "yapay zek" -> "yapay:* & zek:*".
+ * Harf/rakam dışı her şey atıldığı için tsquery söz dizimi hatası oluşmaz.
+ */
+export function toPrefixTsQuery(q: string): string | null {
+    const terms = q
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .slice(0, 12);
+    return terms.length > 0 ? terms.map((t) => `${t}:*`).join(" & ") : null;
+}
+
+// createdAt "timestamp(3)" (saat dilimsiz, UTC) tutulur; parametre de aynı türde gönderilir
+// ki oturumun saat dilimi karşılaştırmayı kaydırmasın.
+function pgTimestamp(d: Date) {
+    return Prisma.sql`${d.toISOString().slice(0, 23)}::timestamp`;
+}
+
+/**
+ * Geçmişte arama (kişisel özetler + üyesi olunan çalışma alanları). Sıralama createdAt (yeni -> eski), sayfalama (createdAt, id) cursor'ı ile.
+ * Tam metin koşulu "searchVector" üretilmiş kolonu ve GIN index'i üzerinden çalışır.
+ */
+export async function searchSummaries(userId: string, query: SummarySearchQuery) {
+    const conds: Prisma.Sql[] = [summaryAccessSql(userId)];
+    if (query.workspace === "personal") conds.push(Prisma.sql`"workspaceId" IS NULL`);
+    else if (query.workspace) conds.push(Prisma.sql`"workspaceId" = ${query.workspace}`);
+    conds.push(...organizeFilterSql(userId, query.folder, query.tag));
+
+    const tsQuery = query.q ? toPrefixTsQuery(query.q) : null;
+    if (tsQuery) conds.push(Prisma.sql`"searchVector" @@ to_tsquery('simple', ${tsQuery})`);
+
+    for (const kw of query.keywords) {
+        conds.push(
+            Prisma.sql`EXISTS (SELECT 1 FROM jsonb_array_elements_text("keywords") k WHERE lower(k) = lower(${kw}))`
+        );
+    }
+
+    if (query.sources.length > 0) {
+        const dbSources = query.sources.map((s) => toDbSource(s) as string);
+        conds.push(Prisma.sql`"source"::text IN (${Prisma.join(dbSources)})`);
+    }
+
+    if (query.from) conds.push(Prisma.sql`"createdAt" >= ${pgTimestamp(query.from)}`);
+    if (query.to) conds.push(Prisma.sql`"createdAt" < ${pgTimestamp(query.to)}`);
+    if (query.cursor) {
+        conds.push(Prisma.sql`("createdAt", "id") < (${pgTimestamp(query.cursor.createdAt)}, ${query.cursor.id})`);
+    }
+
+    // Bir fazlası çekilir: dönen satır sayısı limit'i aşıyorsa sonraki sayfa vardır.
+    const hits = await prisma.$queryRaw<Array<{ id: string; createdAt: Date }>>`
+        SELECT "id", "createdAt" FROM "Summary"
+        WHERE ${Prisma.join(conds, " AND ")}
+        ORDER BY "createdAt" DESC, "id" DESC
+        LIMIT ${query.limit + 1}
+    `;
+
+    const page = hits.slice(0, query.limit);
+    const rows = await prisma.summary.findMany({
+        where: { id: { in: page.map((h) => h.id) } },
+        select: summarySelect,
+    });
+    const byId = new Map(rows.map((r) => [r.id, r]));
+
+    return {
+        items: page.flatMap((h) => {
+            const row = byId.get(h.id);
+            return row ? [toApiSummary(row)] : [];
+        }),
+        nextCursor: hits.length > query.limit ? encodeCursor(page[page.length - 1]) : null,
+    };
+}
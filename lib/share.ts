@@ -0,0 +1,221 @@
+// src/lib/share.ts
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { prisma } from "@/lib/prisma";
+import { isRecord, toApiSource, normalizeKeywordsFromJson } from "@/lib/summaries";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const MAX_EXPIRY_DAYS = 365;
+const MIN_PASSWORD_CHARS = 4;
+const MAX_PASSWORD_CHARS = 200;
+const KEY_BYTES = 32;
+
+// Kilitlenmeden önce izin verilen art arda hatalı deneme; kilit süresi her kilitte ikiye katlanır.
+const MAX_FAILED_ATTEMPTS = 5;
+const BASE_LOCK_MS = 60 * 1000;
+const MAX_LOCK_MS = 60 * 60 * 1000;
+
+export type ShareOptions = { expiresAt: Date | null; password: string | null };
+
+export class ShareError extends Error {
+    status: number;
+    passwordRequired: boolean;
+    retryAfter: string | null;
+
+    constructor(message: string, status: number, passwordRequired = false, retryAfter: string | null = null) {
+        super(message);
+        this.name = "ShareError";
+        this.status = status;
+        this.passwordRequired = passwordRequired;
+        this.retryAfter = retryAfter;
+    }
+}
+
+// Parola hash'i asla dışarı verilmez; sadece parola olup olmadığı.
+const shareRowSelect = {
+    id: true,
+    token: true,
+    passwordHash: true,
+    expiresAt: true,
+    revokedAt: true,
+    viewCount: true,
+    lastViewedAt: true,
+    createdAt: true,
+} as const;
+
+type ShareRow = {
+    id: string;
+    token: string;
+    passwordHash: string | null;
+    expiresAt: Date | null;
+    revokedAt: Date | null;
+    viewCount: number;
+    lastViewedAt: Date | null;
+    createdAt: Date;
+};
+
+function toApiShare({ passwordHash, ...rest }: ShareRow) {
+    return { ...rest, hasPassword: passwordHash !== null };
+}
+
+async function hashPassword(password: string) {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, KEY_BYTES);
+    return `${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+    const [saltHex, keyHex] = stored.split(":");
+    if (!saltHex || !keyHex) return false;
+    const expected = Buffer.from(keyHex, "hex");
+    const key = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+    return timingSafeEqual(key, expected);
+}
+
+type ParseResult = { ok: true; options: ShareOptions } | { ok: false; error: string };
+
+/**
+ * POST gövdesi: { expiresInDays?, password? } — ikisi de isteğe bağlı.
+ */
+export function parseShareOptions(body: unknown): ParseResult {
+    if (body === null || body === undefined) return { ok: true, options: { expiresAt: null, password: null } };
+    if (!isRecord(body)) return { ok: false, error: "Geçersiz JSON." };
+
+    let expiresAt: Date | null = null;
+    if (body.expiresInDays !== undefined && body.expiresInDays !== null) {
+        const days = body.expiresInDays;
+        if (typeof days !== "number" || !Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+            return { ok: false, error: `expiresInDays 0-${MAX_EXPIRY_DAYS} arasında olmalı.` };
+        }
+        expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    }
+
+    let password: string | null = null;
+    if (body.password !== undefined && body.password !== null && body.password !== "") {
+        if (typeof body.password !== "string") return { ok: false, error: "password metin olmalı." };
+        if (body.password.length < MIN_PASSWORD_CHARS || body.password.length > MAX_PASSWORD_CHARS) {
+            return { ok: false, error: `Parola ${MIN_PASSWORD_CHARS}-${MAX_PASSWORD_CHARS} karakter olmalı.` };
+        }
+        password = body.password;
+    }
+
+    return { ok: true, options: { expiresAt, password } };
+}
+
+export async function createShare(summaryId: string, userId: string, options: ShareOptions) {
+    const row = await prisma.summaryShare.create({
+        data: {
+            token: randomBytes(24).toString("base64url"),
+            summaryId,
+            userId,
+            expiresAt: options.expiresAt,
+            passwordHash: options.password ? await hashPassword(options.password) : null,
+        },
+        select: shareRowSelect,
+    });
+    return toApiShare(row);
+}
+
+export async function listShares(summaryId: string) {
+    const rows = await prisma.summaryShare.findMany({
+        where: { summaryId },
+        orderBy: { createdAt: "desc" },
+        select: shareRowSelect,
+    });
+    return rows.map(toApiShare);
+}
+
+// İptal edilen bağlantı istatistik için kalır; token bir daha açılmaz.
+export async function revokeShare(summaryId: string, shareId: string) {
+    const res = await prisma.summaryShare.updateMany({
+        where: { id: shareId, summaryId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+    if (res.count === 0) {
+        const exists = await prisma.summaryShare.findFirst({ where: { id: shareId, summaryId }, select: { id: true } });
+        if (!exists) throw new ShareError("Paylaşım bulunamadı.", 404);
+    }
+}
+
+function lockedError(until: Date) {
+    const seconds = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000));
+    return new ShareError(
+        `Çok fazla hatalı parola denemesi. ${Math.ceil(seconds / 60)} dakika sonra tekrar deneyin.`,
+        429,
+        true,
+        String(seconds)
+    );
+}
+
+/**
+ * Parola denemesi: deneme scrypt'ten önce sayılır ki eşzamanlı tahminler de sınıra takılsın.
+ * Sınır aşılınca bağlantı kilitlenir (1 dk, 2 dk, 4 dk ... en fazla 1 saat); doğru parola sayacı sıfırlar.
+ */
+async function checkSharePassword(share: { id: string; passwordHash: string; lockouts: number }, password: string) {
+    const { failedAttempts } = await prisma.summaryShare.update({
+        where: { id: share.id },
+        data: { failedAttempts: { increment: 1 } },
+        select: { failedAttempts: true },
+    });
+    if (failedAttempts > MAX_FAILED_ATTEMPTS) {
+        const lockedUntil = new Date(Date.now() + Math.min(MAX_LOCK_MS, BASE_LOCK_MS * 2 ** share.lockouts));
+        await prisma.summaryShare.update({
+            where: { id: share.id },
+            data: { failedAttempts: 0, lockouts: { increment: 1 }, lockedUntil },
+        });
+        throw lockedError(lockedUntil);
+    }
+
+    const ok = password.length <= MAX_PASSWORD_CHARS && (await verifyPassword(password, share.passwordHash));
+    if (!ok) throw new ShareError("Parola yanlış.", 401, true);
+
+    await prisma.summaryShare.update({
+        where: { id: share.id },
+        data: { failedAttempts: 0, lockouts: 0, lockedUntil: null },
+    });
+}
+
+/**
+ * Herkese açık görünüm. Bilinmeyen/iptal edilmiş token 404, süresi dolmuş 410;
+ * parola gerekiyorsa veya yanlışsa 401 (passwordRequired), çok fazla hatalı denemede 429 (Retry-After).
+ * Her başarılı açılış görüntülenme sayar.
+ * Sadece okuma için gereken alanlar döner (kaynak metin, sahip bilgisi vb. verilmez).
+ */
+export async function openShare(token: string, password: string | null) {
+    const share = await prisma.summaryShare.findUnique({
+        where: { token },
+        select: {
+            id: true,
+            passwordHash: true,
+            expiresAt: true,
+            revokedAt: true,
+            lockouts: true,
+            lockedUntil: true,
+            summary: { select: { title: true, summary: true, keywords: true, source: true, createdAt: true } },
+        },
+    });
+    if (!share || share.revokedAt) throw new ShareError("Paylaşım bulunamadı.", 404);
+    if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) throw new ShareError("Paylaşımın süresi dolmuş.", 410);
+
+    if (share.passwordHash) {
+        if (!password) throw new ShareError("Bu paylaşım parolalı.", 401, true);
+        if (share.lockedUntil && share.lockedUntil.getTime() > Date.now()) throw lockedError(share.lockedUntil);
+        await checkSharePassword({ id: share.id, passwordHash: share.passwordHash, lockouts: share.lockouts }, password);
+    }
+
+    await prisma.summaryShare.update({
+        where: { id: share.id },
+        data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+    });
+
+    const s = share.summary;
+    return {
+        title: s.title,
+        summary: s.summary,
+        keywords: normalizeKeywordsFromJson(s.keywords),
+        source: toApiSource(s.source),
+        createdAt: s.createdAt,
+        expiresAt: share.expiresAt,
+    };
+}
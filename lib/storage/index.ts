@@ -0,0 +1,15 @@
+// src/lib/storage/index.ts
+import { createLocalBlobStore } from "./local";
+import { createS3BlobStore } from "./s3";
+import type { BlobStore } from "./types";
+
+export type { BlobStore, BlobStoreName } from "./types";
+export { blobKeyFor } from "./keys";
+
+let store: BlobStore | null = null;
+
+// BLOB_STORE=local (varsayılan, BLOB_LOCAL_DIR) | s3 (S3_* env'leri; MinIO gibi uyumlu servisler dahil)
+export function getBlobStore(): BlobStore {
+    if (!store) store = process.env.BLOB_STORE === "s3" ? createS3BlobStore() : createLocalBlobStore();
+    return store;
+}
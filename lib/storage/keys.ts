@@ -0,0 +1,14 @@
+// src/lib/storage/keys.ts
+
+const KEY_RE = /^[a-z0-9]+(?:\/[a-z0-9][a-z0-9._-]*)*$/;
+
+// Anahtar dosya yoluna/URL'ye girer; ".." veya mutlak yol kabul edilmez.
+export function assertValidKey(key: string) {
+    if (!KEY_RE.test(key) || key.split("/").some((part) => part === ".." || part === ".")) {
+        throw new Error(`Geçersiz depo anahtarı: ${key}`);
+    }
+}
+
+export function blobKeyFor(sha256: string) {
+    return `sha256/${sha256.slice(0, 2)}/${sha256}`;
+}
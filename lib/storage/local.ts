@@ -0,0 +1,49 @@
+// src/lib/storage/local.ts
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { assertValidKey } from "./keys";
+import type { BlobStore } from "./types";
+
+function isNotFound(e: unknown) {
+    return (e as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+// Dosya sistemi sürücüsü: BLOB_LOCAL_DIR (varsayılan ./.data/blobs) altında anahtar = göreli yol.
+export function createLocalBlobStore(root = path.resolve(process.env.BLOB_LOCAL_DIR || ".data/blobs")): BlobStore {
+    const fileFor = (key: string) => {
+        assertValidKey(key);
+        return path.join(root, ...key.split("/"));
+    };
+
+    return {
+        name: "local",
+        async put(key, body) {
+            const file = fileFor(key);
+            await mkdir(path.dirname(file), { recursive: true });
+            // Önce geçici dosyaya yazılır; yarım kalan yazma asla tam dosya gibi görünmez.
+            const tmp = `${file}.tmp-${randomBytes(6).toString("hex")}`;
+            await writeFile(tmp, body);
+            await rename(tmp, file);
+        },
+        async get(key) {
+            try {
+                return await readFile(fileFor(key));
+            } catch (e) {
+                if (isNotFound(e)) return null;
+                throw e;
+            }
+        },
+        async has(key) {
+            try {
+                return (await stat(fileFor(key))).isFile();
+            } catch (e) {
+                if (isNotFound(e)) return false;
+                throw e;
+            }
+        },
+        async delete(key) {
+            await rm(fileFor(key), { force: true });
+        },
+    };
+}
@@ -0,0 +1,154 @@
+// src/lib/storage/s3.ts
+// S3 uyumlu sürücü (AWS S3, MinIO, R2...). SDK yerine SigV4 imzalı fetch; sadece PUT/GET/HEAD/DELETE gerekiyor.
+import { createHash, createHmac } from "node:crypto";
+import { assertValidKey } from "./keys";
+import type { BlobStore } from "./types";
+
+export type S3Config = {
+    endpoint: string | null; // ör. http://localhost:9000 (MinIO); yoksa AWS bölge adresi
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+};
+
+type SignInput = {
+    method: string;
+    url: URL;
+    headers: Record<string, string>; // host hariç imzalanacak ek başlıklar
+    payloadHash: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    date?: Date;
+};
+
+function sha256Hex(data: string | Buffer) {
+    return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string) {
+    return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986: encodeURIComponent'in kaçırdığı !'()* de kodlanır
+function encodeSegment(s: string) {
+    return encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * AWS Signature V4 (servis "s3"). İmzalı başlıkları (Authorization, x-amz-date, x-amz-content-sha256 dahil) döner.
+ * url.pathname zaten kodlanmış olmalı; S3 yolu ikinci kez kodlamaz.
+ */
+export function signS3Request(input: SignInput): Record<string, string> {
+    const date = input.date ?? new Date();
+    const amzDate = date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const day = amzDate.slice(0, 8);
+
+    const headers: Record<string, string> = {
+        ...input.headers,
+        "x-amz-content-sha256": input.payloadHash,
+        "x-amz-date": amzDate,
+    };
+    // host fetch tarafından gönderilir ama imzaya girmek zorunda
+    const canonical: Record<string, string> = { host: input.url.host };
+    for (const [k, v] of Object.entries(headers)) canonical[k.toLowerCase()] = v.trim().replace(/\s+/g, " ");
+    const names = Object.keys(canonical).sort();
+    const signedHeaders = names.join(";");
+
+    const query = [...input.url.searchParams.entries()]
+        .map(([k, v]) => `${encodeSegment(k)}=${encodeSegment(v)}`)
+        .sort()
+        .join("&");
+
+    const canonicalRequest = [
+        input.method,
+        input.url.pathname || "/",
+        query,
+        names.map((n) => `${n}:${canonical[n]}\n`).join(""),
+        signedHeaders,
+        input.payloadHash,
+    ].join("\n");
+
+    const scope = `${day}/${input.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+    const kDate = hmac(`AWS4${input.secretAccessKey}`, day);
+    const kSigning = hmac(hmac(hmac(kDate, input.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", kSigning).update(stringToSign).digest("hex");
+
+    return {
+        ...headers,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+}
+
+export function s3ConfigFromEnv(): S3Config {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error("BLOB_STORE=s3 için S3_BUCKET, S3_ACCESS_KEY_ID ve S3_SECRET_ACCESS_KEY gerekli (.env.local).");
+    }
+    return {
+        endpoint: S3_ENDPOINT?.replace(/\/+$/, "") || null,
+        region: S3_REGION || "us-east-1",
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+    };
+}
+
+const EMPTY_HASH = sha256Hex("");
+
+export function createS3BlobStore(config: S3Config = s3ConfigFromEnv()): BlobStore {
+    // Özel endpoint (MinIO vb.) path-style, AWS virtual-hosted style adreslenir.
+    const urlFor = (key: string) => {
+        assertValidKey(key);
+        const path = key.split("/").map(encodeSegment).join("/");
+        return config.endpoint
+            ? new URL(`${config.endpoint}/${encodeSegment(config.bucket)}/${path}`)
+            : new URL(`https://${config.bucket}.s3.${config.region}.amazonaws.com/${path}`);
+    };
+
+    async function send(method: string, key: string, body?: Buffer, headers: Record<string, string> = {}) {
+        const url = urlFor(key);
+        const signed = signS3Request({
+            method,
+            url,
+            headers,
+            payloadHash: body ? sha256Hex(body) : EMPTY_HASH,
+            region: config.region,
+            accessKeyId: config.accessKeyId,
+            secretAccessKey: config.secretAccessKey,
+        });
+        return fetch(url, { method, headers: signed, body: body ? new Uint8Array(body) : undefined });
+    }
+
+    async function fail(res: Response, what: string): Promise<never> {
+        const text = await res.text().catch(() => "");
+        throw new Error(`S3 ${what} başarısız (${res.status}): ${text.slice(0, 200)}`);
+    }
+
+    return {
+        name: "s3",
+        async put(key, body, contentType) {
+            const res = await send("PUT", key, body, { "content-type": contentType });
+            if (!res.ok) await fail(res, "PUT");
+        },
+        async get(key) {
+            const res = await send("GET", key);
+            if (res.status === 404) return null;
+            if (!res.ok) await fail(res, "GET");
+            return Buffer.from(await res.arrayBuffer());
+        },
+        async has(key) {
+            const res = await send("HEAD", key);
+            if (res.status === 404) return false;
+            if (!res.ok) await fail(res, "HEAD");
+            return true;
+        },
+        async delete(key) {
+            const res = await send("DELETE", key);
+            if (!res.ok && res.status !== 404) await fail(res, "DELETE");
+        },
+    };
+}
@@ -0,0 +1,15 @@
+// src/lib/storage/types.ts
+
+export type BlobStoreName = "local" | "s3";
+
+/**
+ * Yüklenen orijinaller için anahtar-değer depo. Anahtarlar içerik hash'inden türetilir
+ * ("sha256/ab/abcd..."), yani aynı dosya bir kez saklanır ve yazmak idempotenttir.
+ */
+export type BlobStore = {
+    name: BlobStoreName;
+    put: (key: string, body: Buffer, contentType: string) => Promise<void>;
+    get: (key: string) => Promise<Buffer | null>; // yoksa null
+    has: (key: string) => Promise<boolean>;
+    delete: (key: string) => Promise<void>; // yoksa sessizce geçer
+};
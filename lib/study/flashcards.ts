@@ -0,0 +1,119 @@
+// src/lib/study/flashcards.ts
+import { prisma } from "@/lib/prisma";
+import type { SummaryProvider } from "@/lib/ai";
+import { summaryAccessWhere } from "@/lib/workspaces";
+import { generateValidated, studyContext, type StudySource } from "./generate";
+import { validateFlashcards } from "./schema";
+import { scheduleReview, type ReviewGrade } from "./srs";
+
+export const DEFAULT_FLASHCARD_COUNT = 15;
+export const MAX_FLASHCARD_COUNT = 50;
+
+const cardSelect = {
+    id: true,
+    term: true,
+    definition: true,
+    pageRef: true,
+    createdAt: true,
+} as const;
+
+const reviewSelect = { ease: true, intervalDays: true, repetitions: true, dueAt: true, lastReviewedAt: true } as const;
+
+type CardRow = { id: string; term: string; definition: string; pageRef: string | null; createdAt: Date };
+type ReviewRow = { ease: number; intervalDays: number; repetitions: number; dueAt: Date; lastReviewedAt: Date | null };
+
+// Kullanıcının tekrar satırı yoksa kart yeni sayılır: varsayılan SM-2 durumu, hemen sırada.
+function withReview(card: CardRow, review: ReviewRow | undefined) {
+    return {
+        ...card,
+        ease: review?.ease ?? 2.5,
+        intervalDays: review?.intervalDays ?? 0,
+        repetitions: review?.repetitions ?? 0,
+        dueAt: review?.dueAt ?? card.createdAt,
+        lastReviewedAt: review?.lastReviewedAt ?? null,
+    };
+}
+
+function flashcardPrompt(context: string, count: number, existing: string[]) {
+    return (
+        "TASK: flashcards\n" +
+        "ONLY return JSON.\n" +
+        'Schema: {"cards":[{"term":string,"definition":string,"source":string}]}\n' +
+        "Write study flashcards in the same language as the document.\n" +
+        `Create exactly ${count} cards. term: a key term or concept (prefer the KEYWORDS); ` +
+        "definition: 1-2 sentences, self-contained, taken from SUMMARY or SOURCE. Never invent facts.\n" +
+        'source: the page marker the card is based on, e.g. "s. 4–6".\n' +
+        (existing.length > 0 ? `Skip these existing terms: ${existing.join(", ")}\n` : "") +
+        "\n" +
+        context
+    );
+}
+
+/**
+ * Yeni kartlar üretir; özetin mevcut kartlarıyla aynı terimler (büyük/küçük harf duyarsız) eklenmez.
+ */
+export async function createFlashcards(provider: SummaryProvider, summary: StudySource & { id: string }, userId: string, count: number) {
+    const existing = await prisma.flashcard.findMany({ where: { summaryId: summary.id }, select: { term: true } });
+    const seen = new Set(existing.map((c) => c.term.toLocaleLowerCase("tr-TR")));
+
+    const generated = await generateValidated(
+        provider,
+        flashcardPrompt(studyContext(summary), count, existing.map((c) => c.term).slice(0, 100)),
+        validateFlashcards
+    );
+
+    const fresh = generated.cards
+        .filter((c) => {
+            const key = c.term.trim().toLocaleLowerCase("tr-TR");
+            if (!key || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, count);
+
+    await prisma.flashcard.createMany({
+        data: fresh.map((c) => ({
+            summaryId: summary.id,
+            userId,
+            term: c.term.trim(),
+            definition: c.definition.trim(),
+            pageRef: c.source || null,
+        })),
+    });
+
+    return listFlashcards(summary.id, userId, false);
+}
+
+// Kartlar özetle paylaşılır, tekrar durumu userId'nin kendisidir. dueOnly: sadece tekrar zamanı gelmiş kartlar (en gecikmiş önce)
+export async function listFlashcards(summaryId: string, userId: string, dueOnly: boolean) {
+    const rows = await prisma.flashcard.findMany({
+        where: { summaryId },
+        orderBy: { createdAt: "asc" },
+        select: { ...cardSelect, reviews: { where: { userId }, select: reviewSelect } },
+    });
+    const cards = rows.map(({ reviews, ...card }) => withReview(card, reviews[0]));
+    if (!dueOnly) return cards;
+
+    const now = Date.now();
+    return cards.filter((c) => c.dueAt.getTime() <= now).sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+// Özeti görebilen herkes (viewer dahil) kendi takvimiyle çalışır; başkalarının tekrar durumuna dokunmaz.
+export async function reviewFlashcard(id: string, userId: string, grade: ReviewGrade) {
+    const card = await prisma.flashcard.findFirst({
+        where: { id, summary: summaryAccessWhere(userId, "read") },
+        select: { ...cardSelect, reviews: { where: { userId }, select: reviewSelect } },
+    });
+    if (!card) return null;
+
+    const { reviews, ...row } = card;
+    const now = new Date();
+    const next = { ...scheduleReview(withReview(row, reviews[0]), grade, now), lastReviewedAt: now };
+    const review = await prisma.flashcardReview.upsert({
+        where: { cardId_userId: { cardId: id, userId } },
+        create: { cardId: id, userId, ...next },
+        update: next,
+        select: reviewSelect,
+    });
+    return withReview(row, review);
+}
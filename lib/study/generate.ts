@@ -0,0 +1,51 @@
+// src/lib/study/generate.ts
+import type { ValidateFunction } from "ajv";
+import type { SummaryProvider } from "@/lib/ai";
+import { rankChunks } from "@/lib/chat";
+import { normalizeKeywordsFromJson } from "@/lib/summaries";
+import { parseJsonObject } from "@/lib/summarize/json";
+import { chunkSections, formatPageRef, pagesFromInput, parsePageMap } from "@/lib/summarize/pages";
+import { schemaErrors } from "./schema";
+
+// Kaynak metinden anahtar kelimelere en yakın bu kadar parça (~2500 karakter) prompt'a girer.
+const CONTEXT_CHUNKS = 4;
+
+export type StudySource = { title: string; summary: string; keywords: unknown; inputText: string | null; pageMap: unknown };
+
+/**
+ * Quiz/kart üretimi için bağlam: başlık, anahtar kelimeler, özet ve kaynak metinden
+ * anahtar kelimelerin en çok geçtiği parçalar (sayfa işaretleriyle).
+ */
+export function studyContext(s: StudySource): string {
+    const keywords = normalizeKeywordsFromJson(s.keywords);
+    const chunks = chunkSections(pagesFromInput(s.inputText ?? "", parsePageMap(s.pageMap)), 2500);
+    const excerpts = rankChunks(chunks, keywords.join(" "), CONTEXT_CHUNKS);
+
+    return (
+        `TITLE: ${s.title}\n` +
+        `KEYWORDS: ${keywords.join(", ")}\n\n` +
+        `SUMMARY:\n${s.summary}\n\n` +
+        (excerpts.length > 0
+            ? `SOURCE:\n${excerpts.map((c) => `[${formatPageRef(c.fromPage, c.toPage)}]\n${c.text}`).join("\n\n")}`
+            : "SOURCE: (none)")
+    );
+}
+
+/**
+ * Modelden JSON ister ve şemaya göre doğrular. Geçersizse hatalar modele bildirilip bir kez daha denenir.
+ */
+export async function generateValidated<T>(provider: SummaryProvider, prompt: string, validate: ValidateFunction<T>): Promise<T> {
+    let text = prompt;
+    let lastError = "";
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const raw = await provider.generate([{ text }]);
+        const value = parseJsonObject(raw);
+        if (validate(value)) return value;
+
+        lastError = value === null ? "JSON değil" : schemaErrors(validate.errors);
+        text = `${prompt}\n\nYour previous output was invalid (${lastError}). Return ONLY JSON matching the schema.`;
+    }
+
+    throw new Error(`Model şemaya uygun JSON dönmedi: ${lastError}`);
+}
@@ -0,0 +1,92 @@
+// src/lib/study/quiz.ts
+import { Prisma, QuizQuestionType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { SummaryProvider } from "@/lib/ai";
+import { generateValidated, studyContext, type StudySource } from "./generate";
+import { validateQuiz, type QuizQuestionJSON } from "./schema";
+
+export const QUIZ_TYPES: QuizQuestionType[] = [QuizQuestionType.multiple_choice, QuizQuestionType.true_false, QuizQuestionType.open];
+
+export const DEFAULT_QUIZ_COUNT = 10;
+export const MAX_QUIZ_COUNT = 30;
+
+export type QuizOptions = { count: number; types: QuizQuestionType[] };
+
+export const quizSelect = {
+    id: true,
+    createdAt: true,
+    questions: {
+        orderBy: { ordinal: "asc" },
+        select: { id: true, ordinal: true, type: true, prompt: true, options: true, answer: true, explanation: true, pageRef: true },
+    },
+} as const;
+
+export function isQuizType(v: unknown): v is QuizQuestionType {
+    return typeof v === "string" && (QUIZ_TYPES as string[]).includes(v);
+}
+
+const TYPE_SCHEMAS: Record<QuizQuestionType, string> = {
+    multiple_choice:
+        '{"type":"multiple_choice","question":string,"options":string[],"answerIndex":number,"explanation":string,"source":string}',
+    true_false: '{"type":"true_false","question":string,"answer":boolean,"explanation":string,"source":string}',
+    open: '{"type":"open","question":string,"answer":string,"explanation":string,"source":string}',
+};
+
+function quizPrompt(context: string, opts: QuizOptions) {
+    return (
+        "TASK: quiz\n" +
+        "ONLY return JSON.\n" +
+        `Schema: {"questions":[${opts.types.map((t) => TYPE_SCHEMAS[t]).join(" | ")}]}\n` +
+        "Write exam-prep questions in the same language as the document.\n" +
+        `Create exactly ${opts.count} questions. Allowed types: ${opts.types.join(", ")}. Mix the allowed types.\n` +
+        "Cover the KEYWORDS; every question must be answerable from SUMMARY or SOURCE. Never invent facts.\n" +
+        "multiple_choice: 4 options, exactly one correct, plausible distractors; answerIndex is 0-based.\n" +
+        "open: answer is a short model answer (1-3 sentences).\n" +
+        'source: the page marker the question is based on, e.g. "s. 4–6".\n\n' +
+        context
+    );
+}
+
+// Şema dışı ama mantıksal hatalı sorular (doğru cevap seçeneklerde yok, istenmeyen tür) atılır.
+function isUsable(q: QuizQuestionJSON, types: QuizQuestionType[]) {
+    if (!isQuizType(q.type) || !types.includes(q.type)) return false;
+    return q.type !== "multiple_choice" || q.answerIndex < q.options.length;
+}
+
+function toAnswer(q: QuizQuestionJSON): Prisma.InputJsonValue {
+    return q.type === "multiple_choice" ? q.answerIndex : q.answer;
+}
+
+export async function createQuiz(provider: SummaryProvider, summary: StudySource & { id: string }, userId: string, opts: QuizOptions) {
+    const generated = await generateValidated(provider, quizPrompt(studyContext(summary), opts), validateQuiz);
+    const questions = generated.questions.filter((q) => isUsable(q, opts.types)).slice(0, opts.count);
+    if (questions.length === 0) throw new Error("Model kullanılabilir soru üretmedi.");
+
+    return prisma.quiz.create({
+        data: {
+            summaryId: summary.id,
+            userId,
+            questions: {
+                create: questions.map((q, i) => ({
+                    ordinal: i,
+                    type: q.type,
+                    prompt: q.question,
+                    options: q.type === "multiple_choice" ? q.options : undefined,
+                    answer: toAnswer(q),
+                    explanation: q.explanation || null,
+                    pageRef: q.source || null,
+                })),
+            },
+        },
+        select: quizSelect,
+    });
+}
+
+export async function listQuizzes(summaryId: string) {
+    return prisma.quiz.findMany({
+        where: { summaryId },
+        orderBy: { createdAt: "desc" },
+        take: 10,
+        select: quizSelect,
+    });
+}
@@ -0,0 +1,102 @@
+// src/lib/study/schema.ts
+import Ajv, { type JSONSchemaType } from "ajv";
+
+export type QuizQuestionJSON =
+    | { type: "multiple_choice"; question: string; options: string[]; answerIndex: number; explanation: string; source?: string }
+    | { type: "true_false"; question: string; answer: boolean; explanation: string; source?: string }
+    | { type: "open"; question: string; answer: string; explanation?: string; source?: string };
+
+export type QuizJSON = { questions: QuizQuestionJSON[] };
+
+export type FlashcardJSON = { term: string; definition: string; source?: string };
+
+export type FlashcardsJSON = { cards: FlashcardJSON[] };
+
+const text = { type: "string", minLength: 1, maxLength: 2000 } as const;
+// Sayfa atfı, ör. "s. 4–6"
+const source = { type: "string", maxLength: 40, nullable: true } as const;
+
+export const quizSchema: JSONSchemaType<QuizJSON> = {
+    type: "object",
+    required: ["questions"],
+    properties: {
+        questions: {
+            type: "array",
+            minItems: 1,
+            maxItems: 50,
+            items: {
+                type: "object",
+                required: ["type", "question"],
+                oneOf: [
+                    {
+                        type: "object",
+                        required: ["type", "question", "options", "answerIndex", "explanation"],
+                        properties: {
+                            type: { type: "string", const: "multiple_choice" },
+                            question: text,
+                            options: { type: "array", minItems: 2, maxItems: 6, items: text },
+                            answerIndex: { type: "integer", minimum: 0, maximum: 5 },
+                            explanation: text,
+                            source,
+                        },
+                    },
+                    {
+                        type: "object",
+                        required: ["type", "question", "answer", "explanation"],
+                        properties: {
+                            type: { type: "string", const: "true_false" },
+                            question: text,
+                            answer: { type: "boolean" },
+                            explanation: text,
+                            source,
+                        },
+                    },
+                    {
+                        type: "object",
+                        required: ["type", "question", "answer"],
+                        properties: {
+                            type: { type: "string", const: "open" },
+                            question: text,
+                            answer: text,
+                            explanation: { ...text, nullable: true },
+                            source,
+                        },
+                    },
+                ],
+            },
+        },
+    },
+} as unknown as JSONSchemaType<QuizJSON>;
+
+export const flashcardsSchema: JSONSchemaType<FlashcardsJSON> = {
+    type: "object",
+    required: ["cards"],
+    properties: {
+        cards: {
+            type: "array",
+            minItems: 1,
+            maxItems: 100,
+            items: {
+                type: "object",
+                required: ["term", "definition"],
+                properties: {
+                    term: { type: "string", minLength: 1, maxLength: 200 },
+                    definition: text,
+                    source,
+                },
+            },
+        },
+    },
+};
+
+const ajv = new Ajv({ allErrors: true });
+
+export const validateQuiz = ajv.compile(quizSchema);
+export const validateFlashcards = ajv.compile(flashcardsSchema);
+
+export function schemaErrors(errors: typeof validateQuiz.errors): string {
+    return (errors ?? [])
+        .slice(0, 5)
+        .map((e) => `${e.instancePath || "/"} ${e.message ?? ""}`.trim())
+        .join("; ");
+}
@@ -0,0 +1,35 @@
+// src/lib/study/srs.ts
+// Aralıklı tekrar: SM-2 (SuperMemo 2). Kart her değerlendirmede yeni aralık ve kolaylık katsayısı alır.
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export type SrsState = { ease: number; intervalDays: number; repetitions: number };
+
+// SM-2'nin 0-5 kalite puanına karşılıkları
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const MIN_EASE = 1.3;
+const RELEARN_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isReviewGrade(v: unknown): v is ReviewGrade {
+    return typeof v === "string" && (REVIEW_GRADES as string[]).includes(v);
+}
+
+export function scheduleReview(state: SrsState, grade: ReviewGrade, now = new Date()): SrsState & { dueAt: Date } {
+    const q = QUALITY[grade];
+    const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+    // Bilinmeyen kart baştan öğrenilir ve kısa süre sonra tekrar sorulur.
+    if (q < 3) {
+        return { ease, intervalDays: 0, repetitions: 0, dueAt: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000) };
+    }
+
+    const repetitions = state.repetitions + 1;
+    const intervalDays =
+        repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.max(1, Math.round(state.intervalDays * ease));
+
+    return { ease, intervalDays, repetitions, dueAt: new Date(now.getTime() + intervalDays * DAY_MS) };
+}
@@ -0,0 +1,96 @@
+// src/lib/summaries.ts
+import { currentUser } from "@clerk/nextjs/server";
+import { SummarySource } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type ApiSource =
+    | "pdf"
+    | "image"
+    | "pdf+image"
+    | "docx"
+    | "pptx"
+    | "txt"
+    | "markdown"
+    | "html"
+    | "epub"
+    | "url"
+    | "text";
+
+export function isRecord(v: unknown): v is Record<string, unknown> {
+    return typeof v === "object" && v !== null;
+}
+
+export function errorMessage(e: unknown, fallback = "Server error"): string {
+    return isRecord(e) && "message" in e && typeof (e as { message?: unknown }).message === "string"
+        ? (e as { message: string }).message
+        : fallback;
+}
+
+// Clerk profilinden e-posta ve ad; çalışma alanı davetleri kullanıcıyı e-postayla bulur.
+async function clerkProfile(userId: string) {
+    const user = await currentUser();
+    if (!user || user.id !== userId) return null;
+    const email = user.primaryEmailAddress?.emailAddress.trim().toLowerCase() || null;
+    const name = user.fullName?.trim() || user.username || null;
+    return { email, name };
+}
+
+/**
+ * User satırını oluşturur; e-postası henüz yoksa Clerk'ten doldurur. Aynı e-posta eski bir
+ * satırda kalmışsa (Clerk'te silinip yeniden açılan hesap) oradan alınır.
+ */
+export async function ensureUserRow(userId: string) {
+    const row = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (row?.email) return;
+
+    const profile = await clerkProfile(userId);
+    if (profile?.email) {
+        await prisma.user.updateMany({ where: { email: profile.email, id: { not: userId } }, data: { email: null } });
+    }
+    const data = { email: profile?.email ?? null, name: profile?.name ?? null };
+    await prisma.user.upsert({
+        where: { id: userId },
+        update: data,
+        create: { id: userId, ...data },
+    });
+}
+
+export function toDbSource(source: ApiSource): SummarySource {
+    if (source === "pdf+image") return SummarySource.pdf_image;
+    return SummarySource[source];
+}
+
+export function toApiSource(source: SummarySource | string): ApiSource {
+    return source === "pdf_image" ? "pdf+image" : (source as Exclude<ApiSource, "pdf+image">);
+}
+
+export function normalizeKeywordsFromJson(v: unknown): string[] {
+    if (Array.isArray(v)) return v.filter((x) => typeof x === "string") as string[];
+    return [];
+}
+
+// UI'ya dönen özet alanları (inputText hariç; büyük olabilir)
+export const summarySelect = {
+    id: true,
+    createdAt: true,
+    source: true,
+    title: true,
+    summary: true,
+    keywords: true,
+    pdfName: true,
+    sourceUrl: true,
+    imageCount: true,
+    templateKey: true,
+    templateVersion: true,
+    ocrPages: true,
+    editedAt: true,
+    workspaceId: true,
+} as const;
+
+export function toApiSummary<T extends { source: SummarySource | string; keywords: unknown }>(row: T) {
+    return {
+        ...row,
+        source: toApiSource(row.source),
+        keywords: normalizeKeywordsFromJson(row.keywords),
+    };
+}
@@ -0,0 +1,103 @@
+// src/lib/summarize/cache.ts
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { summarySelect, toApiSummary } from "@/lib/summaries";
+import { getSummaryProvider, type ProviderName } from "@/lib/ai";
+import { copyAttachments } from "@/lib/attachments";
+import { indexSummaryChunks } from "@/lib/embeddings/retrieval";
+import { pagesFromInput, parsePageMap } from "./pages";
+import type { SummarizeInput } from "./pipeline";
+
+// Ortak prompt (chunk prompt, JSON şeması) değişince artırılmalı; eski cache kayıtları eşleşmez.
+// Şablona özgü değişiklikler şablonun kendi version'ı ile hash'e girer.
+export const PROMPT_VERSION = "v2";
+
+/**
+ * Belge + görsel byte'ları, prompt/şablon sürümü ve sağlayıcıdan sha256 üretir.
+ * Dosya adı hash'e girmez: aynı içerik farklı adla yüklense de eşleşir.
+ */
+export function computeContentHash(
+    input: Pick<SummarizeInput, "document" | "images" | "template" | "pageRange">,
+    provider: ProviderName
+): string {
+    const { template } = input;
+    const h = createHash("sha256");
+    h.update(`v=${PROMPT_VERSION};provider=${provider};`);
+    h.update(`template=${template.id ?? template.key}@${template.version};`);
+    if (input.pageRange) h.update(`pages=${input.pageRange.map((r) => `${r.from}-${r.to}`).join(",")};`);
+
+    if (input.document) {
+        h.update(`${input.document.format}:${input.document.buffer.length}:`);
+        h.update(input.document.buffer);
+    }
+    for (const img of input.images) {
+        h.update(`img:${img.buffer.length}:`);
+        h.update(img.buffer);
+    }
+
+    return h.digest("hex");
+}
+
+function sharedCacheEnabled() {
+    return process.env.SUMMARY_SHARED_CACHE === "1";
+}
+
+/**
+ * Önce kullanıcının aynı alandaki (kişisel veya çalışma alanı) kendi özetlerine, SUMMARY_SHARED_CACHE=1 ise
+ * diğer kullanıcılarınkine bakar. Paylaşılan cache'ten gelen özet kullanıcının kendi satırı olarak kopyalanır.
+ */
+export async function findCachedSummary(userId: string, workspaceId: string | null, contentHash: string) {
+    const own = await prisma.summary.findFirst({
+        where: { userId, workspaceId, contentHash },
+        orderBy: { createdAt: "desc" },
+        select: summarySelect,
+    });
+    if (own) return { ...toApiSummary(own), cached: true };
+
+    if (!sharedCacheEnabled()) return null;
+
+    // Elle düzenlenmiş özetler başka kullanıcıya kopyalanmaz (kişisel notlar içerebilir).
+    const shared = await prisma.summary.findFirst({
+        where: { contentHash, editedAt: null },
+        orderBy: { createdAt: "desc" },
+        select: {
+            id: true,
+            source: true,
+            title: true,
+            summary: true,
+            keywords: true,
+            inputText: true,
+            pageMap: true,
+            pdfName: true,
+            sourceUrl: true,
+            imageCount: true,
+            templateKey: true,
+            templateVersion: true,
+        },
+    });
+    if (!shared) return null;
+
+    const { id: sharedId, ...fields } = shared;
+    const copy = await prisma.summary.create({
+        data: { ...fields, keywords: fields.keywords ?? [], pageMap: fields.pageMap ?? undefined, userId, workspaceId, contentHash },
+        select: summarySelect,
+    });
+
+    // Kopya da kullanıcının semantik arama indeksine girer.
+    try {
+        await indexSummaryChunks({ id: copy.id, userId }, pagesFromInput(shared.inputText ?? "", parsePageMap(shared.pageMap)));
+    } catch (e) {
+        console.error("Embedding index error:", e);
+    }
+    try {
+        await copyAttachments(sharedId, copy.id);
+    } catch (e) {
+        console.error("Attachment store error:", e);
+    }
+    return { ...toApiSummary(copy), cached: true };
+}
+
+export async function findCachedForInput(input: SummarizeInput) {
+    const provider = getSummaryProvider(input.provider);
+    return findCachedSummary(input.userId, input.workspaceId, computeContentHash(input, provider.name));
+}
@@ -0,0 +1,36 @@
+// src/lib/summarize/concurrency.ts
+
+/**
+ * items üzerinde en fazla `limit` eşzamanlı fn çalıştırır, sonuçları girdi sırasıyla döner.
+ * Bir fn hata fırlatırsa yeni iş başlatılmaz ve ilk hata fırlatılır.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+
+    async function worker() {
+        while (!failed && next < items.length) {
+            const i = next++;
+            try {
+                results[i] = await fn(items[i], i);
+            } catch (e) {
+                failed = true;
+                throw e;
+            }
+        }
+    }
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
+export function chunkConcurrencyFromEnv() {
+    const n = Number(process.env.SUMMARY_CHUNK_CONCURRENCY ?? 3);
+    return Number.isFinite(n) && n >= 1 ? Math.floor(n) : 3;
+}
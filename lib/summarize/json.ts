@@ -0,0 +1,99 @@
+// src/lib/summarize/json.ts
+import { isRecord } from "@/lib/summaries";
+
+export type SummaryJSON = { title?: string; summary: string; keywords: string[] };
+
+function extractJson(raw: string): string | null {
+    const s = raw.indexOf("{");
+    const e = raw.lastIndexOf("}");
+    if (s < 0 || e <= s) return null;
+    return raw.slice(s, e + 1);
+}
+
+function normalizeSummary(v: unknown): SummaryJSON | null {
+    if (!isRecord(v)) return null;
+    if (typeof (v as any).summary !== "string") return null;
+
+    const title = typeof (v as any).title === "string" ? (v as any).title : undefined;
+
+    let keywords: string[] = [];
+    if (Array.isArray((v as any).keywords)) {
+        keywords = (v as any).keywords.filter((k: unknown) => typeof k === "string") as string[];
+    }
+    if (keywords.length === 0) keywords = ["summary", "document", "analysis"];
+
+    return { title, summary: (v as any).summary, keywords };
+}
+
+// Model çıktısı önce olduğu gibi, olmazsa ilk "{" ile son "}" arası JSON olarak okunur.
+export function parseJsonObject(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        const sliced = extractJson(raw);
+        if (!sliced) return null;
+        try {
+            return JSON.parse(sliced);
+        } catch {
+            return null;
+        }
+    }
+}
+
+export function parseSummary(raw: string): SummaryJSON | null {
+    return normalizeSummary(parseJsonObject(raw));
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", '"': '"', "\\": "\\", "/": "/" };
+
+// Yarım kalmış JSON içinden "summary" alanının o ana kadar gelen kısmını çözer.
+function partialSummaryField(buf: string): string {
+    const key = buf.match(/"summary"\s*:\s*"/);
+    if (!key || key.index === undefined) return "";
+
+    let out = "";
+    for (let i = key.index + key[0].length; i < buf.length; i++) {
+        const ch = buf[i];
+        if (ch === '"') break;
+        if (ch !== "\\") {
+            out += ch;
+            continue;
+        }
+
+        const next = buf[i + 1];
+        if (next === undefined) break; // kaçış karakteri henüz tamamlanmadı
+        if (next === "u") {
+            const hex = buf.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            out += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            out += JSON_ESCAPES[next] ?? next;
+            i += 1;
+        }
+    }
+    return out;
+}
+
+/**
+ * Model JSON'u token token gelirken, summary alanına eklenen yeni metni döndürür.
+ * Böylece UI ham JSON yerine okunabilir özeti akış halinde gösterebilir.
+ */
+export function createSummaryFieldStreamer() {
+    let buf = "";
+    let emitted = 0;
+
+    return {
+        push(delta: string): string {
+            buf += delta;
+            const text = partialSummaryField(buf);
+            if (text.length <= emitted) return "";
+            const fresh = text.slice(emitted);
+            emitted = text.length;
+            return fresh;
+        },
+        get raw() {
+            return buf;
+        },
+    };
+}
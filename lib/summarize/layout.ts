@@ -0,0 +1,215 @@
+// src/lib/summarize/layout.ts
+// pdfjs text item'larından (konum + font boyutu) Markdown ara formatı üretir:
+// başlıklar, madde listeleri, iki sütunlu okuma sırası ve basit tablolar.
+
+export type RawTextItem = {
+    str?: string;
+    transform?: number[];
+    width?: number;
+    height?: number;
+    fontName?: string;
+};
+
+type Item = { text: string; x: number; y: number; w: number; size: number };
+
+type Line = { items: Item[]; x: number; y: number; size: number; text: string; cells: string[] };
+
+const BULLET_RE = /^[•◦▪‣●○■□➢►\-–*]\s*/;
+const ORDERED_RE = /^(\d{1,3}|[a-zA-Z])[.)]\s+/;
+
+function toItems(raw: RawTextItem[]): Item[] {
+    const out: Item[] = [];
+    for (const r of raw) {
+        if (!r?.str || !r.str.trim() || !Array.isArray(r.transform)) continue;
+        const [, , c, d, e, f] = r.transform;
+        const size = Math.hypot(c ?? 0, d ?? 0) || r.height || 10;
+        out.push({ text: r.str, x: e ?? 0, y: f ?? 0, w: r.width ?? 0, size });
+    }
+    return out;
+}
+
+// Karakter sayısıyla ağırlıklı medyan font boyutu (0.5pt hassasiyet)
+function weightedMedianSize(items: Item[]) {
+    const hist = new Map<number, number>();
+    let total = 0;
+    for (const i of items) {
+        const k = Math.round(i.size * 2) / 2;
+        hist.set(k, (hist.get(k) ?? 0) + i.text.length);
+        total += i.text.length;
+    }
+
+    let seen = 0;
+    for (const [size, count] of [...hist.entries()].sort((a, b) => a[0] - b[0])) {
+        seen += count;
+        if (seen * 2 >= total) return size;
+    }
+    return 0;
+}
+
+/**
+ * Sayfa iki sütunluysa sol sütun önce, sağ sütun sonra okunacak şekilde böler.
+ * Ölçüt: iki yarıda da belirgin metin var ve ortayı kesen öğe çok az.
+ */
+function splitColumns(items: Item[], pageWidth: number): Item[][] {
+    if (items.length < 20 || pageWidth <= 0) return [items];
+
+    const mid = pageWidth / 2;
+    const left = items.filter((i) => i.x + i.w <= mid);
+    const right = items.filter((i) => i.x >= mid);
+    const crossing = items.length - left.length - right.length;
+
+    const balanced = left.length > items.length * 0.25 && right.length > items.length * 0.25;
+    if (!balanced || crossing > items.length * 0.1) return [items];
+
+    // Ortayı kesen öğeler (ör. tam genişlik başlık) üstteyse başa alınır.
+    const spanning = items.filter((i) => i.x + i.w > mid && i.x < mid);
+    return [spanning, left, right].filter((g) => g.length > 0);
+}
+
+function groupLines(items: Item[]): Line[] {
+    const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+    const lines: Item[][] = [];
+
+    for (const it of sorted) {
+        const last = lines[lines.length - 1];
+        if (last && Math.abs(last[0].y - it.y) < Math.max(2, last[0].size * 0.5)) last.push(it);
+        else lines.push([it]);
+    }
+
+    return lines.map((ls) => {
+        const items = ls.sort((a, b) => a.x - b.x);
+        const size = Math.max(...items.map((i) => i.size));
+
+        // Büyük yatay boşluk = tablo hücresi ayrımı
+        const cells: string[] = [];
+        let text = "";
+        let cell = "";
+        let prevEnd: number | null = null;
+        for (const it of items) {
+            const gap = prevEnd === null ? 0 : it.x - prevEnd;
+            if (prevEnd !== null && gap > size * 2) {
+                cells.push(cell.trim());
+                cell = "";
+            }
+            const sep = prevEnd !== null && gap > size * 0.15 && !cell.endsWith(" ") ? " " : "";
+            cell += sep + it.text;
+            text += (prevEnd !== null && gap > size * 0.15 && !text.endsWith(" ") ? " " : "") + it.text;
+            prevEnd = it.x + it.w;
+        }
+        cells.push(cell.trim());
+
+        return { items, x: items[0].x, y: items[0].y, size, text: text.replace(/\s+/g, " ").trim(), cells };
+    });
+}
+
+function escapeCell(s: string) {
+    return s.replace(/\|/g, "\\|");
+}
+
+function renderTable(rows: Line[]): string {
+    const width = Math.max(...rows.map((r) => r.cells.length));
+    const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill("")].map(escapeCell);
+
+    const [head, ...body] = rows;
+    return [
+        `| ${pad(head.cells).join(" | ")} |`,
+        `| ${Array(width).fill("---").join(" | ")} |`,
+        ...body.map((r) => `| ${pad(r.cells).join(" | ")} |`),
+    ].join("\n");
+}
+
+function headingLevel(line: Line, bodySize: number): number {
+    if (bodySize <= 0 || line.text.length > 120) return 0;
+    if (line.size >= bodySize * 1.6) return 2;
+    if (line.size >= bodySize * 1.2) return 3;
+    return 0;
+}
+
+function renderColumn(lines: Line[], bodySize: number): string[] {
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let prev: Line | null = null;
+
+    const flush = () => {
+        if (paragraph.length > 0) blocks.push(paragraph.join(" "));
+        paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Art arda en az 2 satır, aynı sayıda (>=2) hücre -> tablo
+        if (line.cells.length >= 2) {
+            let j = i;
+            while (j + 1 < lines.length && lines[j + 1].cells.length === line.cells.length) j++;
+            if (j > i) {
+                flush();
+                blocks.push(renderTable(lines.slice(i, j + 1)));
+                i = j;
+                prev = lines[j];
+                continue;
+            }
+        }
+
+        const level = headingLevel(line, bodySize);
+        if (level > 0) {
+            flush();
+            blocks.push(`${"#".repeat(level)} ${line.text}`);
+        } else if (BULLET_RE.test(line.text)) {
+            flush();
+            blocks.push(`- ${line.text.replace(BULLET_RE, "")}`);
+        } else if (ORDERED_RE.test(line.text)) {
+            flush();
+            const m = line.text.match(ORDERED_RE);
+            const marker = m && /^\d+$/.test(m[1]) ? `${m[1]}.` : "-";
+            blocks.push(`${marker} ${line.text.replace(ORDERED_RE, "")}`);
+        } else {
+            // Satırlar arası büyük dikey boşluk yeni paragraf demek
+            const gap = prev ? prev.y - line.y : 0;
+            if (prev && gap > line.size * 1.8) flush();
+
+            // Önceki blok liste maddesiyse ve girinti devam ediyorsa maddeye ekle
+            const lastBlock = blocks[blocks.length - 1];
+            if (paragraph.length === 0 && lastBlock && /^(- |\d+\. )/.test(lastBlock) && prev && gap <= line.size * 1.8 && line.x > prev.x - 1) {
+                blocks[blocks.length - 1] = `${lastBlock} ${line.text}`;
+            } else {
+                paragraph.push(line.text);
+            }
+        }
+        prev = line;
+    }
+
+    flush();
+    return blocks;
+}
+
+/**
+ * Bir sayfanın text item'larını Markdown'a çevirir.
+ * bodySize verilmezse sayfadaki karakter ağırlıklı medyan font boyutu kullanılır.
+ */
+export function pageItemsToMarkdown(raw: RawTextItem[], pageWidth: number, bodySize?: number): string {
+    const items = toItems(raw);
+    if (items.length === 0) return "";
+
+    const body = bodySize ?? weightedMedianSize(items);
+
+    const blocks: string[] = [];
+    for (const column of splitColumns(items, pageWidth)) {
+        blocks.push(...renderColumn(groupLines(column), body));
+    }
+
+    const LIST_ITEM = /^(- |\d+\. )/;
+    const cleaned = blocks.map((b) => b.replace(/[ \t]+/g, " ").trim()).filter(Boolean);
+
+    // Ardışık liste maddeleri tek liste olarak (tek satır arayla) birleştirilir.
+    return cleaned.reduce((md, b, i) => {
+        if (i === 0) return b;
+        const sep = LIST_ITEM.test(b) && LIST_ITEM.test(cleaned[i - 1]) ? "\n" : "\n\n";
+        return md + sep + b;
+    }, "");
+}
+
+// Tüm belgedeki gövde font boyutu (başlık tespiti sayfalar arası tutarlı olsun diye)
+export function documentBodySize(pages: RawTextItem[][]): number {
+    return weightedMedianSize(pages.flatMap(toItems));
+}
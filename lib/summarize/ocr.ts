@@ -0,0 +1,75 @@
+// src/lib/summarize/ocr.ts
+import { Buffer } from "buffer";
+import sharp from "sharp";
+import { createWorker } from "tesseract.js";
+import { selectPages, type PageRange, type PageText } from "./pages";
+
+export type OcrPage = { page: number; confidence: number; chars: number };
+
+export type OcrResult = { texts: PageText[]; pages: OcrPage[] };
+
+export const DEFAULT_OCR_LANGS = "tur+eng";
+
+// tesseract dil kodları: "tur", "eng", "tur+eng", "chi_sim" ...
+export function isValidOcrLangs(v: string) {
+    return /^[a-z]{3}(_[a-z]+)?(\+[a-z]{3}(_[a-z]+)?)*$/.test(v);
+}
+
+export function ocrLangsFromEnv() {
+    const v = process.env.OCR_LANGS;
+    return v && isValidOcrLangs(v) ? v : DEFAULT_OCR_LANGS;
+}
+
+function ocrMaxPagesFromEnv() {
+    const n = Number(process.env.OCR_MAX_PAGES ?? 300);
+    return Number.isFinite(n) && n >= 1 ? Math.floor(n) : 300;
+}
+
+async function countPdfPages(pdfBuffer: Buffer) {
+    try {
+        const meta = await sharp(pdfBuffer).metadata();
+        return typeof meta.pages === "number" && meta.pages > 0 ? meta.pages : 1;
+    } catch {
+        return 1;
+    }
+}
+
+// OCR için yüksek çözünürlük + gri ton daha iyi sonuç verir.
+async function renderPageForOcr(pdfBuffer: Buffer, pageIndex: number) {
+    return sharp(pdfBuffer, { density: 220, page: pageIndex }).rotate().grayscale().png().toBuffer();
+}
+
+/**
+ * Taranmış PDF'in (aralıktaki) her sayfasını render edip tesseract ile okur.
+ * Sayfa metinleri ve her sayfanın güveni (0-100) ayrı ayrı döner.
+ */
+export async function ocrPdf(
+    pdfBuffer: Buffer,
+    langs: string,
+    range: PageRange | null,
+    onPage?: (page: number, total: number) => Promise<void> | void
+): Promise<OcrResult> {
+    const selected = selectPages(await countPdfPages(pdfBuffer), range).slice(0, ocrMaxPagesFromEnv());
+    const worker = await createWorker(langs);
+
+    try {
+        const texts: PageText[] = [];
+        const pages: OcrPage[] = [];
+
+        for (let i = 0; i < selected.length; i++) {
+            const pageNo = selected[i];
+            await onPage?.(i + 1, selected.length);
+
+            const png = await renderPageForOcr(pdfBuffer, pageNo - 1);
+            const { data } = await worker.recognize(png);
+            const text = (data.text || "").replace(/[ \t]+/g, " ").trim();
+
+            texts.push({ page: pageNo, text });
+            pages.push({ page: pageNo, confidence: Math.round(data.confidence * 10) / 10, chars: text.length });
+        }
+
+        return { texts, pages };
+    } finally {
+        await worker.terminate();
+    }
+}
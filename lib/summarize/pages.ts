@@ -0,0 +1,179 @@
+// src/lib/summarize/pages.ts
+
+export type PageText = { page: number; text: string };
+
+// inputText içinde her sayfanın [start, end) karakter aralığı
+export type PageSpan = { page: number; start: number; end: number };
+
+export type PageRange = Array<{ from: number; to: number }>;
+
+export type PageChunk = { text: string; fromPage: number; toPage: number };
+
+/**
+ * "3-17, 22" biçimindeki sayfa aralığını çözer (1 tabanlı, uçlar dahil).
+ * Boş girdi null (tüm sayfalar); geçersiz sözdizimi hata fırlatır.
+ */
+export function parsePageRange(spec: string): PageRange | null {
+    const t = spec.trim();
+    if (!t) return null;
+
+    const out: PageRange = [];
+    for (const part of t.split(",")) {
+        const m = part.trim().match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/);
+        if (!m) throw new Error(`Geçersiz sayfa aralığı: "${part.trim()}"`);
+
+        const from = Number(m[1]);
+        const to = m[2] ? Number(m[2]) : from;
+        if (from < 1 || to < from) throw new Error(`Geçersiz sayfa aralığı: "${part.trim()}"`);
+        out.push({ from, to });
+    }
+    return out;
+}
+
+export function inPageRange(range: PageRange | null, page: number) {
+    return !range || range.some((r) => page >= r.from && page <= r.to);
+}
+
+export function selectPages(total: number, range: PageRange | null): number[] {
+    const out: number[] = [];
+    for (let p = 1; p <= total; p++) if (inPageRange(range, p)) out.push(p);
+    return out;
+}
+
+export function formatPageRef(from: number, to: number) {
+    return from === to ? `s. ${from}` : `s. ${from}–${to}`;
+}
+
+/**
+ * Sayfaları tek metinde birleştirir ve her sayfanın bu metindeki konumunu döner.
+ * Summary.inputText + Summary.pageMap olarak saklanır.
+ */
+export function joinPages(pages: PageText[]): { text: string; pageMap: PageSpan[] } {
+    let text = "";
+    const pageMap: PageSpan[] = [];
+
+    for (const p of pages) {
+        const body = p.text.trim();
+        if (!body) continue;
+        if (text) text += "\n\n";
+        pageMap.push({ page: p.page, start: text.length, end: text.length + body.length });
+        text += body;
+    }
+
+    return { text, pageMap };
+}
+
+// Model sayfa atıfı yapabilsin diye her sayfanın başına "[s. N]" işareti konur.
+function withPageMarkers(pages: PageText[]) {
+    return pages.map((p) => `[${formatPageRef(p.page, p.page)}]\n${p.text}`).join("\n\n");
+}
+
+type Block = { page: number; text: string; heading: boolean };
+
+const HEADING_RE = /^#{1,6}\s/;
+
+// Markdown sayfalarını paragraf/başlık/tablo bloklarına ayırır (sayfa numarası korunur).
+function toBlocks(pages: PageText[]): Block[] {
+    const out: Block[] = [];
+    for (const p of pages) {
+        for (const b of p.text.split(/\n{2,}/)) {
+            const text = b.trim();
+            if (text) out.push({ page: p.page, text, heading: HEADING_RE.test(text) });
+        }
+    }
+    return out;
+}
+
+// Blokları sayfa değiştikçe "[s. N]" işaretiyle birleştirir.
+function renderBlocks(blocks: Block[]): PageChunk {
+    const parts: string[] = [];
+    let lastPage = -1;
+    for (const b of blocks) {
+        if (b.page !== lastPage) parts.push(`[${formatPageRef(b.page, b.page)}]`);
+        parts.push(b.text);
+        lastPage = b.page;
+    }
+    return { text: parts.join("\n\n"), fromPage: blocks[0].page, toPage: blocks[blocks.length - 1].page };
+}
+
+function blocksSize(blocks: Block[]) {
+    return blocks.reduce((n, b) => n + b.text.length, 0);
+}
+
+/**
+ * Markdown metni başlıklara göre bölümlere ayırıp bölüm sınırlarında chunk'lar.
+ * Bölümler chunkSize'a sığdığı sürece birlikte paketlenir; tek bölüm chunkSize'ı aşarsa
+ * blok sınırlarında bölünür ve devam parçalarına bölüm başlığı "(devam)" ile eklenir.
+ */
+export function chunkSections(pages: PageText[], chunkSize = 9000): PageChunk[] {
+    const sections: Block[][] = [];
+    for (const b of toBlocks(pages)) {
+        if (b.heading || sections.length === 0) sections.push([b]);
+        else sections[sections.length - 1].push(b);
+    }
+
+    const out: PageChunk[] = [];
+    let current: Block[] = [];
+
+    const flush = () => {
+        if (current.length > 0) out.push(renderBlocks(current));
+        current = [];
+    };
+
+    for (const section of sections) {
+        const size = blocksSize(section);
+
+        if (size <= chunkSize) {
+            if (blocksSize(current) + size > chunkSize) flush();
+            current.push(...section);
+            continue;
+        }
+
+        // Büyük bölüm: kendi başına, blok blok paketlenir
+        flush();
+        const heading = section[0].heading ? section[0] : null;
+        for (const b of section) {
+            const pieces: Block[] = [];
+            for (let i = 0; i < b.text.length; i += chunkSize) pieces.push({ ...b, text: b.text.slice(i, i + chunkSize) });
+
+            for (const piece of pieces) {
+                // Sadece "(devam)" başlığı içeren chunk tek başına gönderilmez
+                const onlyContinuation = current.length === 1 && current[0] !== heading && current[0].heading;
+                if (!onlyContinuation && blocksSize(current) + piece.text.length > chunkSize) {
+                    flush();
+                    if (heading && piece !== heading) current.push({ ...heading, page: piece.page, text: `${heading.text} (devam)` });
+                }
+                current.push(piece);
+            }
+        }
+        flush();
+    }
+
+    flush();
+    return out;
+}
+
+// Tek seferlik (kısa belge) yolda kullanılan, sayfa işaretli ve kırpılmış metin.
+export function markedText(pages: PageText[], maxChars: number) {
+    return withPageMarkers(pages.filter((p) => p.text.trim())).slice(0, maxChars);
+}
+
+export function pagesInSpan(pageMap: PageSpan[], start: number, end: number) {
+    return pageMap.filter((s) => s.start < end && s.end > start).map((s) => s.page);
+}
+
+// Summary.pageMap (Json) doğrulanarak okunur; bozuk girdiler atlanır.
+export function parsePageMap(v: unknown): PageSpan[] {
+    if (!Array.isArray(v)) return [];
+    return v.filter(
+        (x): x is PageSpan =>
+            typeof x === "object" && x !== null && typeof x.page === "number" && typeof x.start === "number" && typeof x.end === "number"
+    );
+}
+
+// joinPages'in tersi: kayıtlı inputText + pageMap'ten sayfaları geri kurar.
+// pageMap yoksa (eski kayıtlar) tüm metin tek sayfa sayılır.
+export function pagesFromInput(inputText: string, pageMap: PageSpan[]): PageText[] {
+    if (pageMap.length === 0) return inputText.trim() ? [{ page: 1, text: inputText }] : [];
+    return pageMap.map((s) => ({ page: s.page, text: inputText.slice(s.start, s.end) }));
+}
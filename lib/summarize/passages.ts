@@ -0,0 +1,49 @@
+// src/lib/summarize/passages.ts
+import { parseCitations, rankChunks } from "@/lib/chat";
+import { splitSections } from "@/lib/markdown";
+import { pagesFromInput, parsePageMap, type PageChunk, type PageText } from "./pages";
+import { findSection } from "./refine";
+
+const MAX_PASSAGES = 8;
+const MIN_PASSAGE_CHARS = 20;
+
+export type SourcePassage = { page: number; text: string };
+
+export type PassageSource = { summary: string; inputText: string | null; pageMap: unknown };
+
+// Sayfa metnini cümlelere böler; başlık, sayfa numarası gibi kısa parçalar atlanır.
+function sentenceChunks(pages: PageText[]): PageChunk[] {
+    return pages.flatMap((p) =>
+        p.text
+            .split(/(?<=[.!?…])\s+|\n\s*\n/)
+            .map((t) => t.replace(/\s+/g, " ").trim())
+            .filter((t) => t.length >= MIN_PASSAGE_CHARS)
+            .map((text) => ({ text, fromPage: p.page, toPage: p.page }))
+    );
+}
+
+/**
+ * Bölümün dayandığı kaynak cümleler: bölümdeki "[s. 4–6]" atıflarının sayfalarında bölüm metnine
+ * en çok benzeyenler (atıf yoksa tüm belge). Görüntüleyici bunları PDF üzerinde işaretler.
+ * Bölüm bulunamazsa null.
+ */
+export function findSourcePassages(s: PassageSource, wanted: string) {
+    const target = findSection(splitSections(s.summary), wanted);
+    if (!target) return null;
+
+    const cited = parseCitations(target.source);
+    const inCited = (page: number) => cited.length === 0 || cited.some((c) => page >= c.from && page <= c.to);
+    const pages = pagesFromInput(s.inputText ?? "", parsePageMap(s.pageMap)).filter((p) => inCited(p.page));
+
+    const query = target.source.replace(/\[s\.[^\]]*\]/g, " ").replace(/^#{1,6}\s+/gm, "");
+    const passages: SourcePassage[] = rankChunks(sentenceChunks(pages), query, MAX_PASSAGES).map((c) => ({
+        page: c.fromPage,
+        text: c.text,
+    }));
+
+    return {
+        section: target.title,
+        pages: [...new Set(passages.map((p) => p.page))].sort((a, b) => a - b),
+        passages,
+    };
+}
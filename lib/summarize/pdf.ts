@@ -0,0 +1,98 @@
+// src/lib/summarize/pdf.ts
+import { Buffer } from "buffer";
+import sharp from "sharp";
+import { isRecord } from "@/lib/summaries";
+import { documentBodySize, pageItemsToMarkdown, type RawTextItem } from "./layout";
+import type { PageText } from "./pages";
+
+/**
+ * PDF'in metin katmanını sayfa sayfa Markdown olarak çıkarır (başlık, liste, tablo, sütun sırası).
+ * Metin katmanı olmayan sayfalar boş metinle döner; sayfa numaraları korunur.
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<PageText[]> {
+    const pdfjs: unknown = await import("pdfjs-dist/legacy/build/pdf.mjs");
+
+    if (!isRecord(pdfjs) || typeof (pdfjs as any).getDocument !== "function") {
+        throw new Error("pdfjs yüklenemedi (getDocument yok).");
+    }
+
+    const getDocument = (pdfjs as any).getDocument as (opts: {
+        data: Uint8Array;
+        disableWorker: boolean;
+    }) => { promise: Promise<unknown> };
+
+    const loadingTask = getDocument({
+        data: new Uint8Array(buffer),
+        disableWorker: true,
+    });
+
+    const pdfUnknown = await loadingTask.promise;
+
+    if (
+        !isRecord(pdfUnknown) ||
+        typeof (pdfUnknown as any).numPages !== "number" ||
+        typeof (pdfUnknown as any).getPage !== "function"
+    ) {
+        throw new Error("PDF parse başarısız.");
+    }
+
+    const pdf = pdfUnknown as {
+        numPages: number;
+        getPage: (n: number) => Promise<{
+            view: number[];
+            getTextContent: () => Promise<{ items: RawTextItem[] }>;
+        }>;
+    };
+
+    const raw: Array<{ items: RawTextItem[]; width: number }> = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const tc = await page.getTextContent();
+        const [x0 = 0, , x1 = 0] = page.view ?? [];
+        raw.push({ items: tc.items, width: x1 - x0 });
+    }
+
+    // Başlık tespiti için gövde font boyutu tüm belgeden hesaplanır.
+    const bodySize = documentBodySize(raw.map((r) => r.items));
+
+    return raw.map((r, i) => ({ page: i + 1, text: pageItemsToMarkdown(r.items, r.width, bodySize) }));
+}
+
+export async function compressImageToJpegBase64(input: Buffer): Promise<{ mime: string; b64: string }> {
+    const out = await sharp(input)
+        .rotate()
+        .resize({ width: 1400, withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+
+    return { mime: "image/jpeg", b64: out.toString("base64") };
+}
+
+export async function pdfBufferToJpegPagesBase64(
+    pdfBuffer: Buffer,
+    maxPages = 2
+): Promise<Array<{ mime: string; b64: string }>> {
+    let totalPages = 1;
+
+    try {
+        const meta = await sharp(pdfBuffer, { density: 160 }).metadata();
+        if (typeof meta.pages === "number" && meta.pages > 0) totalPages = meta.pages;
+    } catch {
+        totalPages = 1;
+    }
+
+    const pagesToRender = Math.min(totalPages, maxPages);
+    const out: Array<{ mime: string; b64: string }> = [];
+
+    for (let i = 0; i < pagesToRender; i++) {
+        const jpg = await sharp(pdfBuffer, { density: 160, page: i })
+            .rotate()
+            .resize({ width: 1400, withoutEnlargement: true })
+            .jpeg({ quality: 80 })
+            .toBuffer();
+
+        out.push({ mime: "image/jpeg", b64: jpg.toString("base64") });
+    }
+
+    return out;
+}
@@ -0,0 +1,331 @@
+// src/lib/summarize/pipeline.ts
+import { Buffer } from "buffer";
+import { UsageOperation } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSummaryProvider, type ProviderName, type ProviderPart, type SummaryProvider } from "@/lib/ai";
+import { inputOriginals, saveAttachments } from "@/lib/attachments";
+import { indexSummaryChunks } from "@/lib/embeddings/retrieval";
+import { extractDocument, type DocumentFormat, type ExtractedDocument } from "@/lib/ingest";
+import { recordUsage, requireQuota } from "@/lib/usage";
+import { errorMessage, summarySelect, toApiSummary, toDbSource, type ApiSource } from "@/lib/summaries";
+import { computeContentHash } from "./cache";
+import { chunkConcurrencyFromEnv, mapWithConcurrency } from "./concurrency";
+import { createSummaryFieldStreamer, parseSummary } from "./json";
+import { ocrPdf, type OcrPage } from "./ocr";
+import { chunkSections, formatPageRef, inPageRange, joinPages, markedText, type PageRange, type PageText } from "./pages";
+import { compressImageToJpegBase64, extractPdfPages, pdfBufferToJpegPagesBase64 } from "./pdf";
+import { buildGuide, lengthGuidance, type ResolvedTemplate } from "./templates";
+
+export type UploadedFile = { name: string; buffer: Buffer };
+
+export type SummarizeInput = {
+    userId: string;
+    workspaceId: string | null; // özet bu çalışma alanına kaydedilir; null: kişisel
+    provider: ProviderName | null;
+    origin: "upload" | "url" | "text"; // belgenin nereden geldiği; kaynak türünü belirler
+    sourceUrl: string | null; // origin "url" ise yönlendirmeler sonrası adres
+    document: (UploadedFile & { format: DocumentFormat }) | null;
+    images: UploadedFile[];
+    template: ResolvedTemplate;
+    ocrLangs: string; // tesseract dilleri, ör. "tur+eng"
+    pageRange: PageRange | null; // null: tüm sayfalar
+    pageRangeSpec: string | null; // kullanıcının yazdığı hali, ör. "3-17, 22"
+};
+
+export type SummarizeProgress = { step: string; done: number; total: number };
+
+export type SummarizeHooks = {
+    // Her adımda çağrılır; hata fırlatırsa (ör. iptal) pipeline durur.
+    onProgress?: (p: SummarizeProgress) => Promise<void> | void;
+    // Verilirse final özet akış (stream) ile üretilir ve summary metni parça parça iletilir.
+    onToken?: (delta: string) => Promise<void> | void;
+};
+
+const UNIT_NAMES: Record<ExtractedDocument["unit"], string> = { page: "page", slide: "slide", section: "chapter" };
+
+// Her bölüm sonunda kaynak sayfa atfı istenir; UI bu işaretleri kaynağa bağlar.
+function citationRule(unit: ExtractedDocument["unit"]) {
+    return (
+        `Source text contains ${UNIT_NAMES[unit]} markers like "[s. 12]". ` +
+        'End every section with the markers it is based on, e.g. "[s. 4–6]" or "[s. 9]". Never invent numbers.'
+    );
+}
+
+async function summarizeTextChunk(provider: SummaryProvider, text: string) {
+    const parts = [
+        {
+            text:
+                "ONLY return JSON.\n" +
+                'Schema: {"summary":string,"keywords":string[]}\n' +
+                "Write in the same language as the text.\n" +
+                "The text is Markdown extracted from a document: keep its section structure, lists and tables in mind.\n" +
+                "Write a detailed chunk summary.\n" +
+                "summary: 10-14 sentences.\n" +
+                "Must include key definitions/terms mentioned in this chunk.\n" +
+                "Keep page citations like [s. 4–6] next to the claims they support.\n" +
+                "keywords: 6-10.\n\n" +
+                `TEXT:\n${text}`,
+        },
+    ];
+
+    return await provider.generate(parts);
+}
+
+// Final özet: onToken varsa stream edilir, yoksa tek seferde üretilir.
+async function generateFinal(provider: SummaryProvider, parts: ProviderPart[], hooks: SummarizeHooks) {
+    if (!hooks.onToken) return await provider.generate(parts);
+
+    const streamer = createSummaryFieldStreamer();
+    for await (const delta of provider.stream(parts)) {
+        const fresh = streamer.push(delta);
+        if (fresh) await hooks.onToken(fresh);
+    }
+    return streamer.raw;
+}
+
+async function finalSummary(
+    provider: SummaryProvider,
+    template: ResolvedTemplate,
+    unit: ExtractedDocument["unit"],
+    partials: string,
+    summaryLength: string,
+    hooks: SummarizeHooks
+) {
+    const parts = [
+        {
+            text:
+                `${buildGuide(template)}\n` +
+                `${citationRule(unit)}\n` +
+                `Length guidance (sentences): ${summaryLength}.\n` +
+                "Merge the chunk summaries into ONE coherent summary following the structure above.\n" +
+                "Remove duplicates but keep depth.\n\n" +
+                `CHUNK_SUMMARIES:\n${partials}`,
+        },
+    ];
+
+    return await generateFinal(provider, parts, hooks);
+}
+
+type ChunkResult = { status: "ok"; raw: string } | { status: "skipped"; reason: string };
+
+// Bölümlerin en fazla bu oranı atlanabilir; fazlası özeti anlamsız kılar.
+const MAX_SKIPPED_RATIO = 0.25;
+
+async function summarizeLongText(
+    provider: SummaryProvider,
+    template: ResolvedTemplate,
+    pages: PageText[],
+    unit: ExtractedDocument["unit"],
+    summaryLength: string,
+    userId: string,
+    hooks: SummarizeHooks
+) {
+    const chunks = chunkSections(pages, 9000);
+    if (chunks.length === 0) throw new Error("PDF metni boş.");
+
+    // chunk'lar + final birleştirme adımı
+    const total = chunks.length + 1;
+    let finished = 0;
+
+    await hooks.onProgress?.({ step: `chunk 0/${chunks.length}`, done: 0, total });
+
+    const results = await mapWithConcurrency(chunks, chunkConcurrencyFromEnv(), async (chunk, i) => {
+        // Uzun belge kotayı tek istekte çok aşmasın: her parçadan önce yeniden kontrol (hata işi durdurur)
+        await requireQuota(userId);
+
+        let result: ChunkResult;
+        try {
+            // Geçici hatalar sağlayıcı katmanında zaten yeniden denendi.
+            const raw = await summarizeTextChunk(provider, chunk.text);
+            result = parseSummary(raw) ? { status: "ok", raw } : { status: "skipped", reason: "JSON dönmedi" };
+        } catch (e) {
+            console.error(`Chunk ${i + 1} error:`, e);
+            result = { status: "skipped", reason: errorMessage(e) };
+        }
+
+        finished++;
+        await hooks.onProgress?.({ step: `chunk ${finished}/${chunks.length}`, done: finished, total });
+        return result;
+    });
+
+    const skipped = results.filter((r) => r.status === "skipped").length;
+    if (skipped === chunks.length || skipped > Math.floor(chunks.length * MAX_SKIPPED_RATIO)) {
+        const firstReason = results.find((r) => r.status === "skipped");
+        throw new Error(
+            `${chunks.length} bölümden ${skipped} tanesi özetlenemedi` +
+                (firstReason?.status === "skipped" ? ` (${firstReason.reason}).` : ".")
+        );
+    }
+
+    const partialJsons = results.flatMap((r, i) =>
+        r.status === "ok" ? [`CHUNK_${i + 1} [${formatPageRef(chunks[i].fromPage, chunks[i].toPage)}]: ${r.raw}`] : []
+    );
+
+    await hooks.onProgress?.({ step: "birleştiriliyor", done: chunks.length, total });
+    await requireQuota(userId);
+    return await finalSummary(provider, template, unit, partialJsons.join("\n\n"), summaryLength, hooks);
+}
+
+/**
+ * PDF/görsel girdisinden seçilen şablona göre özet üretir ve Summary satırını kaydeder.
+ * Hem senkron route'tan hem de arka plan job'larından çağrılır.
+ */
+export async function runSummarize(input: SummarizeInput, hooks: SummarizeHooks = {}) {
+    const provider = getSummaryProvider(input.provider, recordUsage({ userId: input.userId, operation: UsageOperation.summarize }));
+    const { document: doc, images } = input;
+    const pdf = doc?.format === "pdf" ? doc : null;
+
+    await hooks.onProgress?.({ step: "Belge okunuyor", done: 0, total: 1 });
+
+    let pages: PageText[] = [];
+    let unit: ExtractedDocument["unit"] = "page";
+    if (pdf) {
+        try {
+            pages = await extractPdfPages(pdf.buffer);
+        } catch {
+            pages = [];
+        }
+    } else if (doc) {
+        const extracted = await extractDocument(doc.format as Exclude<DocumentFormat, "pdf">, doc.buffer);
+        pages = extracted.pages;
+        unit = extracted.unit;
+    }
+    pages = pages.filter((p) => inPageRange(input.pageRange, p.page));
+    let pdfText = pages.map((p) => p.text).join("");
+
+    // Taranmış PDF (text layer yok): tüm sayfalar OCR'dan geçer, metin normal chunk yolunu izler.
+    let ocrPages: OcrPage[] | null = null;
+    if (pdf && pdfText.trim().length === 0) {
+        // İlerleme hook'unun hatası (ör. iptal) yutulmamalı; OCR hatası ise görsel yola düşer.
+        let hookError: unknown = null;
+        try {
+            const ocr = await ocrPdf(pdf.buffer, input.ocrLangs, input.pageRange, async (page, total) => {
+                try {
+                    await hooks.onProgress?.({ step: `OCR sayfa ${page}/${total}`, done: page - 1, total });
+                } catch (e) {
+                    hookError = e;
+                    throw e;
+                }
+            });
+            pages = ocr.texts;
+            pdfText = pages.map((p) => p.text).join("");
+            ocrPages = ocr.pages;
+        } catch (e) {
+            if (hookError) throw hookError;
+            console.error("OCR error:", e);
+        }
+    }
+
+    if (doc && !pdf && pdfText.trim().length === 0 && images.length === 0) {
+        throw new Error("Belgeden metin çıkarılamadı.");
+    }
+
+    if (doc && input.pageRange && pages.length === 0 && images.length === 0) {
+        throw new Error(`Seçilen sayfa aralığında (${input.pageRangeSpec}) sayfa yok.`);
+    }
+
+    const joined = joinPages(pages);
+    pdfText = joined.text;
+
+    const summaryLength = lengthGuidance(input.template, pdfText.length);
+
+    let autoPdfImages: Array<{ mime: string; b64: string }> = [];
+
+    // OCR de metin çıkaramadıysa ilk sayfalar görsel olarak modele gönderilir.
+    if (pdf && pdfText.trim().length === 0 && images.length === 0) {
+        try {
+            autoPdfImages = await pdfBufferToJpegPagesBase64(pdf.buffer, 2);
+        } catch (e) {
+            console.error("Auto PDF->Image error:", e);
+            throw new Error(
+                "Bu PDF taranmış (text layer yok). Otomatik sayfa görseli çıkarılamadı. Çözüm: PDF sayfasının ekran görüntüsünü / sayfa görselini 'Görsel ekle' ile yükle (Gemini görselden özet çıkarır)."
+            );
+        }
+
+        if (autoPdfImages.length === 0) {
+            throw new Error(
+                "Bu PDF taranmış (text layer yok) ve otomatik görsel çıkarma başarısız oldu. Çözüm: PDF sayfasının ekran görüntüsünü / sayfa görselini 'Görsel ekle' ile yükle."
+            );
+        }
+    }
+
+    const hasAnyImages = images.length > 0 || autoPdfImages.length > 0;
+
+    let raw = "";
+    if (pdfText && pdfText.length > 12000 && !hasAnyImages) {
+        raw = await summarizeLongText(provider, input.template, pages, unit, summaryLength, input.userId, hooks);
+    } else {
+        await hooks.onProgress?.({ step: "özetleniyor", done: 0, total: 1 });
+
+        const parts: ProviderPart[] = [];
+
+        parts.push({
+            text:
+                `${buildGuide(input.template)}\n` +
+                (pdfText ? `${citationRule(unit)}\n` : "") +
+                `Length guidance (sentences): ${summaryLength}.\n\n` +
+                (pdfText ? `DOCUMENT TEXT:\n${markedText(pages, 12000)}\n\n` : "DOCUMENT TEXT: (none / scanned)\n\n") +
+                (hasAnyImages ? "IMAGES attached below.\n" : "IMAGES: (none)\n"),
+        });
+
+        for (const img of images.slice(0, 4)) {
+            const { mime, b64 } = await compressImageToJpegBase64(img.buffer);
+            parts.push({ inlineData: { mimeType: mime, data: b64 } });
+        }
+
+        for (const a of autoPdfImages.slice(0, 4)) {
+            parts.push({ inlineData: { mimeType: a.mime, data: a.b64 } });
+        }
+
+        raw = await generateFinal(provider, parts, hooks);
+    }
+
+    const parsed = parseSummary(raw);
+    if (!parsed) {
+        throw new Error(`Model JSON dönmedi. (${raw.slice(0, 300)})`);
+    }
+
+    const sourceUI: ApiSource =
+        input.origin !== "upload" ? input.origin : pdf && hasAnyImages ? "pdf+image" : doc ? doc.format : "image";
+
+    const saved = await prisma.summary.create({
+        data: {
+            userId: input.userId,
+            workspaceId: input.workspaceId,
+            source: toDbSource(sourceUI),
+            title: parsed.title?.slice(0, 140) || input.template.name,
+            summary: parsed.summary,
+            keywords: parsed.keywords,
+            inputText: pdfText || "",
+            pageMap: joined.pageMap.length > 0 ? joined.pageMap : undefined,
+            pageRange: input.pageRangeSpec,
+            pdfName: doc?.name ?? null, // tarihsel ad: PDF dışı belgelerin adı da burada
+            sourceUrl: input.sourceUrl,
+            imageCount: images.length > 0 ? images.length : autoPdfImages.length,
+            contentHash: computeContentHash(input, provider.name),
+            templateKey: input.template.key,
+            templateVersion: input.template.version,
+            templateId: input.template.id,
+            ocrPages: ocrPages ?? undefined,
+        },
+        select: summarySelect,
+    });
+
+    // Semantik arama indeksi: hata özeti bozmaz, sadece bu özet aramada çıkmaz.
+    try {
+        await indexSummaryChunks({ id: saved.id, userId: input.userId }, pages);
+    } catch (e) {
+        console.error("Embedding index error:", e);
+    }
+
+    // Orijinaller blob deposuna: hata özeti bozmaz, sadece dosya indirilemez.
+    try {
+        await saveAttachments(saved.id, inputOriginals(input));
+    } catch (e) {
+        console.error("Attachment store error:", e);
+    }
+
+    return { ...toApiSummary(saved), cached: false };
+}
+
+export type SummarizeResult = Awaited<ReturnType<typeof runSummarize>>;
@@ -0,0 +1,166 @@
+// src/lib/summarize/refine.ts
+import type { SummaryProvider } from "@/lib/ai";
+import { rankChunks } from "@/lib/chat";
+import { splitSections, type MdSection } from "@/lib/markdown";
+import type { SummaryPatch } from "@/lib/revisions";
+import { isRecord, normalizeKeywordsFromJson } from "@/lib/summaries";
+import { parseJsonObject } from "./json";
+import { chunkSections, formatPageRef, pagesFromInput, parsePageMap } from "./pages";
+import { buildGuide, DEFAULT_TEMPLATE_KEY, getBuiltinTemplate, resolveTemplate } from "./templates";
+
+export const MAX_INSTRUCTION_CHARS = 1000;
+
+// Kaynak metinden isteğe en yakın bu kadar parça (~2500 karakter) prompt'a girer.
+const EXCERPT_CHUNKS = 6;
+
+const CITATION_RULE =
+    'Source excerpts contain page markers like "[s. 12]". End every section with the markers it is based on, ' +
+    'e.g. "[s. 4–6]" or "[s. 9]". Never invent numbers.';
+
+export type RefineRequest = { section: string | null; instruction: string | null };
+
+export type RefineSource = {
+    id: string;
+    userId: string;
+    title: string;
+    summary: string;
+    keywords: unknown;
+    inputText: string | null;
+    pageMap: unknown;
+    templateKey: string | null;
+    templateId: string | null;
+};
+
+export class RefineError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "RefineError";
+        this.status = status;
+    }
+}
+
+type ParseResult = { ok: true; request: RefineRequest } | { ok: false; error: string };
+
+/**
+ * { section?, instruction? } — en az biri gerekli. Sadece section: o bölüm yeniden üretilir;
+ * sadece instruction: tüm özet talimata göre düzeltilir; ikisi birden: bölüm talimata göre yeniden yazılır.
+ */
+export function parseRefineRequest(body: unknown): ParseResult {
+    if (!isRecord(body)) return { ok: false, error: "Geçersiz JSON." };
+
+    const section = typeof body.section === "string" ? body.section.trim() : "";
+    const instruction = typeof body.instruction === "string" ? body.instruction.trim() : "";
+    if (body.section !== undefined && typeof body.section !== "string") return { ok: false, error: "section metin olmalı." };
+    if (body.instruction !== undefined && typeof body.instruction !== "string") {
+        return { ok: false, error: "instruction metin olmalı." };
+    }
+    if (!section && !instruction) return { ok: false, error: "section veya instruction gerekli." };
+    if (instruction.length > MAX_INSTRUCTION_CHARS) {
+        return { ok: false, error: `Talimat çok uzun (en fazla ${MAX_INSTRUCTION_CHARS} karakter).` };
+    }
+
+    return { ok: true, request: { section: section || null, instruction: instruction || null } };
+}
+
+function headingKey(s: string) {
+    return s
+        .toLocaleLowerCase("tr-TR")
+        .replace(/\(.*?\)/g, " ")
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim();
+}
+
+// Şablondaki ad ("Karşılaştırma (belgede varsa)"), modelin yazdığı başlık veya bölüm id'si kabul edilir.
+export function findSection(sections: MdSection[], wanted: string): MdSection | null {
+    const key = headingKey(wanted);
+    const titled = sections.filter((s) => s.title);
+    return (
+        titled.find((s) => s.id === wanted) ??
+        titled.find((s) => headingKey(s.title) === key) ??
+        titled.find((s) => key && (headingKey(s.title).startsWith(key) || key.startsWith(headingKey(s.title)))) ??
+        null
+    );
+}
+
+function excerptsFor(s: RefineSource, query: string) {
+    const chunks = chunkSections(pagesFromInput(s.inputText ?? "", parsePageMap(s.pageMap)), 2500);
+    return rankChunks(chunks, query, EXCERPT_CHUNKS)
+        .map((c) => `[${formatPageRef(c.fromPage, c.toPage)}]\n${c.text}`)
+        .join("\n\n");
+}
+
+async function refineSection(provider: SummaryProvider, s: RefineSource, wanted: string, instruction: string | null) {
+    const sections = splitSections(s.summary);
+    const target = findSection(sections, wanted);
+    if (!target) {
+        const names = sections.filter((x) => x.title).map((x) => x.title);
+        throw new RefineError(`Bölüm bulunamadı: ${wanted}. Mevcut bölümler: ${names.join(", ") || "(yok)"}`, 400);
+    }
+
+    const headingLine = target.source.split("\n")[0];
+    const currentBody = target.source.slice(headingLine.length).trim();
+
+    const prompt =
+        "TASK: refine-section\n" +
+        "ONLY return JSON. No markdown fences. No extra text.\n" +
+        'Schema: {"section":string}\n' +
+        "Rewrite ONLY the section named below, using the EXCERPTS from the original document. " +
+        "Write in the same language as the summary. Markdown is allowed inside the string; do NOT repeat the heading.\n" +
+        "Keep it consistent with the rest of the summary; do not repeat other sections.\n" +
+        `${CITATION_RULE}\n` +
+        (instruction ? `INSTRUCTION: ${instruction}\n` : "Make it more accurate and complete than the current version.\n") +
+        `\nFULL SUMMARY (context):\n${s.summary}\n\n` +
+        `SECTION: ${headingLine}\n${currentBody || "(empty)"}\n\n` +
+        `EXCERPTS:\n${excerptsFor(s, `${target.title} ${currentBody} ${instruction ?? ""}`)}`;
+
+    const value = parseJsonObject(await provider.generate([{ text: prompt }]));
+    const body = isRecord(value) && typeof value.section === "string" ? value.section.trim() : "";
+    if (!body) throw new RefineError("Model geçerli bir bölüm dönmedi.", 502);
+
+    // Model başlığı yine de yazdıysa tekrarlanmasın.
+    const cleaned = body.replace(/^#{1,6}\s+.*\n+/, (line) => (headingKey(line.replace(/^#+/, "")) === headingKey(target.title) ? "" : line));
+
+    const summary = sections.map((x) => (x.id === target.id ? `${headingLine}\n${cleaned}` : x.source)).join("\n\n");
+    return { summary } satisfies SummaryPatch;
+}
+
+async function refineWhole(provider: SummaryProvider, s: RefineSource, instruction: string) {
+    const template =
+        (await resolveTemplate(s.userId, s.templateId ?? s.templateKey)) ?? getBuiltinTemplate(DEFAULT_TEMPLATE_KEY)!;
+    const keywords = normalizeKeywordsFromJson(s.keywords);
+
+    const prompt =
+        "TASK: refine\n" +
+        `${buildGuide(template)}\n` +
+        `${CITATION_RULE}\n` +
+        "Revise the CURRENT SUMMARY according to the INSTRUCTION. Keep its headings and structure unless the instruction asks otherwise.\n" +
+        "Every statement must stay grounded in the EXCERPTS; never invent facts.\n\n" +
+        `INSTRUCTION: ${instruction}\n\n` +
+        `CURRENT SUMMARY:\nTITLE: ${s.title}\nKEYWORDS: ${keywords.join(", ")}\n${s.summary}\n\n` +
+        `EXCERPTS:\n${excerptsFor(s, `${instruction} ${keywords.join(" ")}`)}`;
+
+    const value = parseJsonObject(await provider.generate([{ text: prompt }]));
+    if (!isRecord(value) || typeof value.summary !== "string" || !value.summary.trim()) {
+        throw new RefineError("Model geçerli bir özet dönmedi.", 502);
+    }
+
+    const patch: SummaryPatch = { summary: value.summary.trim() };
+    if (typeof value.title === "string" && value.title.trim()) patch.title = value.title.trim();
+    // Anahtar kelime dönmezse mevcutlar korunur.
+    const newKeywords = normalizeKeywordsFromJson(value.keywords).map((k) => k.trim()).filter(Boolean);
+    if (newKeywords.length > 0) patch.keywords = [...new Set(newKeywords)].slice(0, 30);
+    return patch;
+}
+
+/**
+ * Kayıtlı kaynak metni (inputText) kullanarak tek bölümü yeniden üretir ya da özeti talimata göre düzeltir.
+ * Sonuç kaydedilmez; çağıran taraf yeni revizyon olarak yazar.
+ */
+export async function refineSummary(provider: SummaryProvider, s: RefineSource, req: RefineRequest): Promise<SummaryPatch> {
+    if (!s.inputText?.trim()) throw new RefineError("Bu özetin kayıtlı kaynak metni yok; yeniden üretilemez.", 409);
+
+    if (req.section) return refineSection(provider, s, req.section, req.instruction);
+    return refineWhole(provider, s, req.instruction!);
+}
@@ -0,0 +1,145 @@
+// src/lib/summarize/request.ts
+import { Buffer } from "buffer";
+import { getSummaryProvider, isProviderName } from "@/lib/ai";
+import { detectFormat } from "@/lib/ingest";
+import { fetchUrlDocument, UrlFetchError } from "@/lib/ingest/url";
+import type { SummarizeInput, UploadedFile } from "./pipeline";
+import { isValidOcrLangs, ocrLangsFromEnv } from "./ocr";
+import { parsePageRange, type PageRange } from "./pages";
+import { resolveTemplate } from "./templates";
+import { checkQuota, type QuotaExceeded } from "@/lib/usage";
+import { memberRole } from "@/lib/workspaces";
+
+type ReadResult =
+    | { ok: true; input: SummarizeInput; force: boolean }
+    // quota/retryAfter sadece 429'da
+    | { ok: false; status: number; error: string; quota?: QuotaExceeded; retryAfter?: string };
+
+// Yapıştırılan metin için üst sınır (karakter)
+const MAX_TEXT_CHARS = 500_000;
+
+async function toUploadedFile(file: File): Promise<UploadedFile> {
+    return { name: file.name, buffer: Buffer.from(await file.arrayBuffer()) };
+}
+
+/**
+ * /api/summarize ve /api/summarize/stream için ortak form okuma + doğrulama.
+ * Dosyalar belleğe alınır; request gövdesi sonradan okunamaz. URL kaynağında kota, indirmeden önce kontrol edilir.
+ */
+export async function readSummarizeForm(req: Request, userId: string): Promise<ReadResult> {
+    const form = await req.formData();
+    // "file": her biçim; "pdf": eski istemciler için
+    const docFile = (form.get("file") ?? form.get("pdf")) as File | null;
+    const images = form.getAll("images").filter(Boolean) as File[];
+    const urlField = form.get("url");
+    const textField = form.get("text");
+    const url = typeof urlField === "string" && urlField.trim() ? urlField.trim() : null;
+    const text = typeof textField === "string" && textField.trim() ? textField.trim() : null;
+
+    // Sağlayıcı istek bazında seçilebilir; verilmezse SUMMARY_PROVIDER env'i kullanılır.
+    const providerField = form.get("provider");
+    if (providerField && !isProviderName(providerField)) {
+        return { ok: false, status: 400, error: `Bilinmeyen sağlayıcı: ${String(providerField)}` };
+    }
+    const providerName = isProviderName(providerField) ? providerField : null;
+
+    // Anahtar eksikse işe başlamadan hata fırlatır.
+    getSummaryProvider(providerName);
+
+    if ([docFile, url, text].filter(Boolean).length > 1) {
+        return { ok: false, status: 400, error: "Tek kaynak seç: belge, URL veya metin." };
+    }
+    if (!docFile && !url && !text && images.length === 0) {
+        return { ok: false, status: 400, error: "Belge, URL veya metin gir ya da en az 1 görsel yükle." };
+    }
+    if (text && text.length > MAX_TEXT_CHARS) {
+        return { ok: false, status: 413, error: `Metin çok uzun (en fazla ${MAX_TEXT_CHARS} karakter).` };
+    }
+
+    // Ucuz doğrulamalar (şablon, çalışma alanı, OCR dili, sayfa aralığı) kaynak okunmadan/indirilmeden önce
+    // Yerleşik profil anahtarı ("academic", "meeting"...) veya kullanıcı şablonu id'si
+    const templateField = form.get("template");
+    const template = await resolveTemplate(userId, typeof templateField === "string" ? templateField.trim() : null);
+    if (!template) {
+        return { ok: false, status: 400, error: `Şablon bulunamadı: ${String(templateField)}` };
+    }
+
+    // Çalışma alanına kaydetmek için orada owner/editor olmak gerekir
+    const workspaceField = form.get("workspaceId");
+    const workspaceId = typeof workspaceField === "string" && workspaceField.trim() ? workspaceField.trim() : null;
+    if (workspaceId) {
+        const role = await memberRole(workspaceId, userId);
+        if (!role) return { ok: false, status: 404, error: "Çalışma alanı bulunamadı." };
+        if (role === "viewer") return { ok: false, status: 403, error: "Bu çalışma alanına özet ekleme yetkin yok." };
+    }
+
+    // Taranmış PDF'ler için OCR dilleri (tesseract formatı), ör. "tur+eng"
+    const ocrField = form.get("ocrLangs");
+    const ocrLangs = typeof ocrField === "string" && ocrField.trim() ? ocrField.trim() : ocrLangsFromEnv();
+    if (!isValidOcrLangs(ocrLangs)) {
+        return { ok: false, status: 400, error: `Geçersiz OCR dili: ${ocrLangs}` };
+    }
+
+    // Sadece belirli sayfalar özetlenecekse, ör. "3-17, 22"
+    const pagesField = form.get("pages");
+    const pageRangeSpec = typeof pagesField === "string" && pagesField.trim() ? pagesField.trim() : null;
+    let pageRange: PageRange | null = null;
+    try {
+        pageRange = pageRangeSpec ? parsePageRange(pageRangeSpec) : null;
+    } catch (e) {
+        return { ok: false, status: 400, error: (e as Error).message };
+    }
+
+    let origin: SummarizeInput["origin"] = "upload";
+    let sourceUrl: string | null = null;
+    let document: SummarizeInput["document"] = null;
+    if (url) {
+        // URL indirmesi pahalı: kota doluysa hiç indirilmez (önbellekte olsa bile URL içeriği bilinmeden eşlenemez).
+        const quota = await checkQuota(userId);
+        if (!quota.ok) {
+            return { ok: false, status: 429, error: quota.error, quota: quota.exceeded, retryAfter: quota.retryAfter };
+        }
+        try {
+            const fetched = await fetchUrlDocument(url);
+            origin = "url";
+            sourceUrl = fetched.url;
+            document = { name: fetched.name, buffer: fetched.buffer, format: fetched.format };
+        } catch (e) {
+            if (e instanceof UrlFetchError) return { ok: false, status: e.status, error: e.message };
+            throw e;
+        }
+    } else if (text) {
+        origin = "text";
+        document = { name: "Yapıştırılan metin", buffer: Buffer.from(text, "utf8"), format: "txt" };
+    } else if (docFile) {
+        const uploaded = await toUploadedFile(docFile);
+        const format = await detectFormat(docFile.name, docFile.type, uploaded.buffer);
+        if (!format) {
+            return {
+                ok: false,
+                status: 415,
+                error: "Desteklenmeyen dosya türü. PDF, DOCX, PPTX, TXT, Markdown, HTML veya EPUB yükle.",
+            };
+        }
+        document = { ...uploaded, format };
+    }
+
+    return {
+        ok: true,
+        // force=1: önbellekteki özet yok sayılır ve yeniden üretilir
+        force: form.get("force") === "1" || form.get("force") === "true",
+        input: {
+            userId,
+            workspaceId,
+            provider: providerName,
+            origin,
+            sourceUrl,
+            document,
+            images: await Promise.all(images.map(toUploadedFile)),
+            template,
+            ocrLangs,
+            pageRange,
+            pageRangeSpec,
+        },
+    };
+}
@@ -0,0 +1,162 @@
+// src/lib/summarize/templates.ts
+import { prisma } from "@/lib/prisma";
+
+export type ResolvedTemplate = {
+    key: string; // yerleşik profil anahtarı veya "custom"
+    id: string | null; // kullanıcı şablonuysa SummaryTemplate.id
+    name: string;
+    version: number;
+    style: string;
+    sections: string[];
+    lengthRule: string | null; // ör. "10-15"; null ise belge uzunluğuna göre seçilir
+    keywordRule: string;
+};
+
+type BuiltinTemplate = Omit<ResolvedTemplate, "id">;
+
+// Yerleşik profiller. Metin değişirse version artırılmalı (cache ve Summary kaydı buna bakar).
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+    {
+        key: "academic",
+        name: "Akademik",
+        version: 2,
+        style: "Write an ACADEMIC summary suitable for a course assignment. Keep technical terms as they are.",
+        sections: [
+            "Amaç ve Kapsam",
+            "Temel Kavramlar ve Tanımlar (belgedeki terimleri kısa tanımla)",
+            "Yöntem / Çalışma Mantığı (adım adım)",
+            "Bileşenler ve Örnekler",
+            "Karşılaştırma (belgede varsa)",
+            "Sonuç (ana çıkarımlar, neden önemli?)",
+        ],
+        lengthRule: null,
+        keywordRule: "8-12 adet, ders için anlamlı terimler.",
+    },
+    {
+        key: "executive",
+        name: "Yönetici Özeti",
+        version: 1,
+        style: "Write a concise EXECUTIVE BRIEF for a decision maker. Lead with the conclusion; no filler.",
+        sections: ["Yönetici Özeti", "Ana Bulgular", "Riskler", "Öneriler", "Sonraki Adımlar"],
+        lengthRule: "8-12",
+        keywordRule: "5-8 adet, iş açısından önemli terimler.",
+    },
+    {
+        key: "meeting",
+        name: "Toplantı Notları",
+        version: 1,
+        style: "Write MEETING NOTES. Prefer bullet lists; name owners and dates when the text gives them.",
+        sections: ["Toplantı Bilgisi", "Gündem", "Alınan Kararlar", "Aksiyonlar (kim / ne / ne zaman)", "Açık Sorular"],
+        lengthRule: "10-16",
+        keywordRule: "5-8 adet, konu ve proje adları.",
+    },
+    {
+        key: "legal",
+        name: "Hukuki Sözleşme",
+        version: 1,
+        style: "Summarize a LEGAL CONTRACT neutrally. Quote clause numbers when present. Do not give legal advice.",
+        sections: [
+            "Taraflar",
+            "Sözleşmenin Konusu",
+            "Yükümlülükler",
+            "Süre ve Fesih",
+            "Ödeme Koşulları",
+            "Dikkat Edilmesi Gereken Maddeler",
+        ],
+        lengthRule: null,
+        keywordRule: "6-10 adet, hukuki terimler ve madde konuları.",
+    },
+    {
+        key: "research",
+        name: "Araştırma Makalesi",
+        version: 1,
+        style: "Summarize a RESEARCH PAPER for a literature review. Report numbers and effect sizes exactly.",
+        sections: ["Araştırma Sorusu", "Yöntem", "Bulgular", "Tartışma", "Sınırlılıklar", "Katkı"],
+        lengthRule: null,
+        keywordRule: "8-12 adet, yöntem ve alan terimleri.",
+    },
+    {
+        key: "lecture",
+        name: "Ders Notları",
+        version: 1,
+        style: "Write LECTURE NOTES a student can revise from. Define every term; keep examples short.",
+        sections: [
+            "Dersin Konusu",
+            "Temel Kavramlar",
+            "Açıklamalar ve Örnekler",
+            "Formüller / Kurallar (varsa)",
+            "Sınav İçin Önemli Noktalar",
+        ],
+        lengthRule: null,
+        keywordRule: "8-12 adet, ders için anlamlı terimler.",
+    },
+];
+
+export const DEFAULT_TEMPLATE_KEY = "academic";
+
+export function getBuiltinTemplate(key: string): ResolvedTemplate | null {
+    const t = BUILTIN_TEMPLATES.find((x) => x.key === key);
+    return t ? { ...t, id: null } : null;
+}
+
+export function normalizeSections(v: unknown): string[] {
+    if (!Array.isArray(v)) return [];
+    return v
+        .filter((x) => typeof x === "string")
+        .map((x) => (x as string).trim())
+        .filter(Boolean)
+        .slice(0, 12);
+}
+
+/**
+ * `template` parametresini çözer: yerleşik anahtar ("academic") veya kullanıcının şablon id'si.
+ * Boşsa akademik profil döner; bulunamazsa null.
+ */
+export async function resolveTemplate(userId: string, template: string | null): Promise<ResolvedTemplate | null> {
+    if (!template) return getBuiltinTemplate(DEFAULT_TEMPLATE_KEY);
+
+    const builtin = getBuiltinTemplate(template);
+    if (builtin) return builtin;
+
+    const row = await prisma.summaryTemplate.findFirst({ where: { id: template, userId } });
+    if (!row) return null;
+
+    return {
+        key: "custom",
+        id: row.id,
+        name: row.name,
+        version: row.version,
+        style: row.instructions?.trim() || "Write a clear, structured summary.",
+        sections: normalizeSections(row.sections),
+        lengthRule: row.lengthRule,
+        keywordRule: "6-10 adet, belge için anlamlı terimler.",
+    };
+}
+
+// Final özet prompt'unun şablona bağlı kısmı (eski ACADEMIC_GUIDE'ın yerini alır).
+export function buildGuide(t: ResolvedTemplate): string {
+    const lines = [
+        "ONLY return JSON. No markdown fences. No extra text.",
+        'Schema: {"title"?:string,"summary":string,"keywords":string[]}',
+        "Write in the same language as the document.",
+        t.style,
+        "Use a structured format INSIDE the summary field (Markdown headings are allowed inside the string).",
+    ];
+
+    if (t.sections.length > 0) {
+        lines.push("Required structure inside summary (translate headings if the document is not Turkish):");
+        t.sections.forEach((s, i) => lines.push(`${i + 1}) ## ${s}`));
+    }
+
+    lines.push("Avoid tekrar/boş cümle.", `keywords: ${t.keywordRule}`);
+    return lines.join("\n");
+}
+
+// Şablonun uzunluk kuralı yoksa belge uzunluğuna göre cümle aralığı seçilir.
+export function lengthGuidance(t: ResolvedTemplate, textLength: number): string {
+    if (t.lengthRule) return t.lengthRule;
+    if (textLength <= 0) return "18-24";
+    if (textLength < 10000) return "16-22";
+    if (textLength < 40000) return "24-34";
+    return "34-45";
+}
@@ -0,0 +1,307 @@
+// src/lib/usage.ts
+// Sağlayıcı çağrılarının token/maliyet muhasebesi ve kullanıcı kotaları (günlük/aylık, UTC).
+import { randomUUID } from "node:crypto";
+import type { UsageOperation } from "@prisma/client";
+import type { TokenUsage, UsageListener } from "@/lib/ai";
+import { prisma } from "@/lib/prisma";
+import { isRecord } from "@/lib/summaries";
+
+export const USAGE_METRICS = ["requests", "tokens", "costUsd"] as const;
+export const USAGE_PERIODS = ["daily", "monthly"] as const;
+
+export type UsageMetric = (typeof USAGE_METRICS)[number];
+export type UsagePeriod = (typeof USAGE_PERIODS)[number];
+export type Usage = Record<UsageMetric, number>;
+export type Limits = Partial<Record<UsageMetric, number>>;
+export type PlanLimits = Partial<Record<UsagePeriod, Limits>>;
+
+export type QuotaExceeded = { period: UsagePeriod; metric: UsageMetric; limit: number; used: number; resetAt: string };
+
+type QuotaResult = { ok: true } | { ok: false; error: string; exceeded: QuotaExceeded; retryAfter: string };
+
+export class QuotaError extends Error {
+    status: number;
+    exceeded: QuotaExceeded;
+    retryAfter: string;
+
+    constructor(message: string, exceeded: QuotaExceeded, retryAfter: string) {
+        super(message);
+        this.name = "QuotaError";
+        this.status = 429;
+        this.exceeded = exceeded;
+        this.retryAfter = retryAfter;
+    }
+}
+
+// USD / 1M token: [girdi, çıktı]. MODEL_PRICES env'i ({"model": [girdi, çıktı]}) bunları ezer veya yenisini ekler.
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+    "gemini-3-flash-preview": [0.5, 3],
+    "gemini-2.5-flash": [0.3, 2.5],
+    "gemini-2.5-pro": [1.25, 10],
+    "gpt-4o-mini": [0.15, 0.6],
+    "gpt-4o": [2.5, 10],
+    "text-embedding-3-small": [0.02, 0],
+    "text-embedding-3-large": [0.13, 0],
+    "gemini-embedding-001": [0.15, 0],
+    "mock-1": [0, 0],
+};
+
+// USAGE_PLANS env'i ({"plan": { daily?: {...}, monthly?: {...} }}) bunları ezer veya yenisini ekler.
+const DEFAULT_PLANS: Record<string, PlanLimits> = {
+    free: {
+        daily: { requests: 50, tokens: 1_000_000 },
+        monthly: { requests: 500, tokens: 10_000_000, costUsd: 5 },
+    },
+    unlimited: {},
+};
+
+const PERIOD_NAMES: Record<UsagePeriod, string> = { daily: "Günlük", monthly: "Aylık" };
+const METRIC_NAMES: Record<UsageMetric, string> = { requests: "istek", tokens: "token", costUsd: "maliyet" };
+
+function envJson(name: string): unknown {
+    const raw = process.env[name];
+    if (!raw?.trim()) return null;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        throw new Error(`${name} geçerli JSON değil (.env.local).`);
+    }
+}
+
+function isAmount(v: unknown): v is number {
+    return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+// Bilinmeyen alanlar ve geçersiz değerler yok sayılır.
+export function parsePlanLimits(v: unknown): PlanLimits {
+    if (!isRecord(v)) return {};
+    const out: PlanLimits = {};
+    for (const period of USAGE_PERIODS) {
+        const p = v[period];
+        if (!isRecord(p)) continue;
+        const limits: Limits = {};
+        for (const metric of USAGE_METRICS) if (isAmount(p[metric])) limits[metric] = p[metric];
+        out[period] = limits;
+    }
+    return out;
+}
+
+function modelPrices(): Record<string, [number, number]> {
+    const env = envJson("MODEL_PRICES");
+    const prices = { ...DEFAULT_PRICES };
+    if (isRecord(env)) {
+        for (const [model, p] of Object.entries(env)) {
+            if (Array.isArray(p) && p.length === 2 && isAmount(p[0]) && isAmount(p[1])) prices[model] = [p[0], p[1]];
+        }
+    }
+    return prices;
+}
+
+function plans(): Record<string, PlanLimits> {
+    const env = envJson("USAGE_PLANS");
+    const out = { ...DEFAULT_PLANS };
+    if (isRecord(env)) for (const [name, limits] of Object.entries(env)) out[name] = parsePlanLimits(limits);
+    return out;
+}
+
+// Fiyatı bilinmeyen model 0 sayılır; token'lar yine kotaya girer.
+export function costMicros(model: string, usage: TokenUsage) {
+    const price = modelPrices()[model];
+    if (!price) return 0;
+    return Math.round(usage.inputTokens * price[0] + usage.outputTokens * price[1]);
+}
+
+/**
+ * Sağlayıcıya verilecek dinleyici: her çağrıyı UsageEvent olarak yazar. Aynı dinleyiciden geçen
+ * çağrılar tek istek (requestId) sayılır. Kayıt hatası çağrıyı bozmaz.
+ */
+export function recordUsage(ctx: { userId: string; operation: UsageOperation; summaryId?: string | null }): UsageListener {
+    const requestId = randomUUID();
+    return async (usage, meta) => {
+        try {
+            await prisma.usageEvent.create({
+                data: {
+                    userId: ctx.userId,
+                    operation: ctx.operation,
+                    requestId,
+                    summaryId: ctx.summaryId ?? null,
+                    provider: meta.provider,
+                    model: meta.model,
+                    inputTokens: usage.inputTokens,
+                    outputTokens: usage.outputTokens,
+                    costMicros: costMicros(meta.model, usage),
+                },
+            });
+        } catch (e) {
+            console.error("Usage record error:", e);
+        }
+    };
+}
+
+// --- Dönemler ---
+
+export function periodStart(period: UsagePeriod, now = new Date()) {
+    return period === "daily"
+        ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function periodReset(period: UsagePeriod, now = new Date()) {
+    return period === "daily"
+        ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+async function usageSince(userId: string, since: Date): Promise<Usage> {
+    const [row] = await prisma.$queryRaw<Array<{ requests: bigint; tokens: bigint | null; cost: bigint | null }>>`
+        SELECT COUNT(DISTINCT "requestId") AS requests,
+               SUM("inputTokens" + "outputTokens") AS tokens,
+               SUM("costMicros") AS cost
+        FROM "UsageEvent"
+        WHERE "userId" = ${userId} AND "createdAt" >= ${since}
+    `;
+    return {
+        requests: Number(row?.requests ?? 0),
+        tokens: Number(row?.tokens ?? 0),
+        costUsd: Number(row?.cost ?? 0) / 1e6,
+    };
+}
+
+/**
+ * Kullanıcının planı ve limitleri: UsageQuota satırı yoksa USAGE_DEFAULT_PLAN (varsayılan "free").
+ * Satırdaki limits planın limitlerinin üstüne yazılır.
+ */
+export async function resolveQuota(userId: string) {
+    const row = await prisma.usageQuota.findUnique({ where: { userId }, select: { plan: true, limits: true } });
+    const all = plans();
+    const fallback = process.env.USAGE_DEFAULT_PLAN || "free";
+    const plan = row && all[row.plan] ? row.plan : all[fallback] ? fallback : "free";
+    if (row && !all[row.plan]) console.error(`Bilinmeyen plan "${row.plan}" (kullanıcı ${userId}); ${plan} uygulanıyor.`);
+
+    const base = all[plan] ?? {};
+    const override = parsePlanLimits(row?.limits);
+    const limits: PlanLimits = {};
+    for (const period of USAGE_PERIODS) limits[period] = { ...base[period], ...override[period] };
+    return { plan, limits };
+}
+
+function formatAmount(metric: UsageMetric, n: number) {
+    return metric === "costUsd" ? `$${n.toFixed(2)}` : n.toLocaleString("tr-TR");
+}
+
+/**
+ * İş başlamadan önce çağrılır. Önce aylık, sonra günlük limitler; herhangi biri dolmuşsa 429 için
+ * yapılandırılmış bilgi ve Retry-After (saniye) döner. İstek limiti bu istek de sayılarak uygulanır.
+ *
+ * Limitler yumuşaktır: kullanım çağrı bittikten sonra yazıldığı için o an süren çağrılar ve aynı anda
+ * kontrolden geçen istekler limiti birer çağrı kadar aşabilir. Çok çağrılı işler (uzun belge) araya
+ * requireQuota koyarak aşımı tek parçayla sınırlar.
+ */
+export async function checkQuota(userId: string, now = new Date()): Promise<QuotaResult> {
+    const { limits } = await resolveQuota(userId);
+
+    for (const period of ["monthly", "daily"] as const) {
+        const periodLimits = limits[period] ?? {};
+        if (Object.keys(periodLimits).length === 0) continue;
+
+        const used = await usageSince(userId, periodStart(period, now));
+        for (const metric of USAGE_METRICS) {
+            const limit = periodLimits[metric];
+            if (limit === undefined || used[metric] < limit) continue;
+
+            const resetAt = periodReset(period, now);
+            const exceeded: QuotaExceeded = { period, metric, limit, used: used[metric], resetAt: resetAt.toISOString() };
+            return {
+                ok: false,
+                error:
+                    `${PERIOD_NAMES[period]} ${METRIC_NAMES[metric]} kotası doldu ` +
+                    `(${formatAmount(metric, used[metric])} / ${formatAmount(metric, limit)}). ` +
+                    `${resetAt.toISOString().slice(0, 16).replace("T", " ")} UTC'de yenilenir.`,
+                exceeded,
+                retryAfter: String(Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000))),
+            };
+        }
+    }
+    return { ok: true };
+}
+
+// Çok adımlı işlerde adımlar arasında: kota dolduysa QuotaError fırlatır.
+export async function requireQuota(userId: string) {
+    const quota = await checkQuota(userId);
+    if (!quota.ok) throw new QuotaError(quota.error, quota.exceeded, quota.retryAfter);
+}
+
+// --- Kullanım sayfası ---
+
+const REPORT_DAYS = 30;
+
+/**
+ * Plan/limitler, dönem tüketimi, bu ayın model ve işlem kırılımı ve son 30 günün günlük serisi.
+ */
+export async function getUsageReport(userId: string, now = new Date()) {
+    const { plan, limits } = await resolveQuota(userId);
+    const monthStart = periodStart("monthly", now);
+
+    const periods = await Promise.all(
+        USAGE_PERIODS.map(async (period) => ({
+            period,
+            since: periodStart(period, now),
+            resetAt: periodReset(period, now),
+            used: await usageSince(userId, periodStart(period, now)),
+            limits: limits[period] ?? {},
+        }))
+    );
+
+    const byModel = await prisma.usageEvent.groupBy({
+        by: ["provider", "model"],
+        where: { userId, createdAt: { gte: monthStart } },
+        _sum: { inputTokens: true, outputTokens: true, costMicros: true },
+        _count: { _all: true },
+    });
+
+    const byOperation = await prisma.$queryRaw<Array<{ operation: UsageOperation; requests: bigint; tokens: bigint; cost: bigint }>>`
+        SELECT "operation", COUNT(DISTINCT "requestId") AS requests,
+               SUM("inputTokens" + "outputTokens") AS tokens, SUM("costMicros") AS cost
+        FROM "UsageEvent"
+        WHERE "userId" = ${userId} AND "createdAt" >= ${monthStart}
+        GROUP BY "operation"
+        ORDER BY tokens DESC
+    `;
+
+    const daysStart = new Date(periodStart("daily", now).getTime() - (REPORT_DAYS - 1) * 24 * 60 * 60 * 1000);
+    const days = await prisma.$queryRaw<Array<{ day: Date; requests: bigint; tokens: bigint; cost: bigint }>>`
+        SELECT date_trunc('day', "createdAt") AS day, COUNT(DISTINCT "requestId") AS requests,
+               SUM("inputTokens" + "outputTokens") AS tokens, SUM("costMicros") AS cost
+        FROM "UsageEvent"
+        WHERE "userId" = ${userId} AND "createdAt" >= ${daysStart}
+        GROUP BY day
+        ORDER BY day
+    `;
+
+    return {
+        plan,
+        periods,
+        byModel: byModel
+            .map((r) => ({
+                provider: r.provider,
+                model: r.model,
+                calls: r._count._all,
+                inputTokens: r._sum.inputTokens ?? 0,
+                outputTokens: r._sum.outputTokens ?? 0,
+                costUsd: (r._sum.costMicros ?? 0) / 1e6,
+            }))
+            .sort((a, b) => b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens)),
+        byOperation: byOperation.map((r) => ({
+            operation: r.operation,
+            requests: Number(r.requests),
+            tokens: Number(r.tokens),
+            costUsd: Number(r.cost) / 1e6,
+        })),
+        days: days.map((r) => ({
+            day: r.day.toISOString().slice(0, 10),
+            requests: Number(r.requests),
+            tokens: Number(r.tokens),
+            costUsd: Number(r.cost) / 1e6,
+        })),
+    };
+}
@@ -0,0 +1,282 @@
+// src/lib/workspaces.ts
+import { Prisma, WorkspaceRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { isRecord, summarySelect, toApiSummary } from "@/lib/summaries";
+
+const MAX_NAME_CHARS = 100;
+
+export const WORKSPACE_ROLES = Object.values(WorkspaceRole);
+
+const WRITE_ROLES: WorkspaceRole[] = [WorkspaceRole.owner, WorkspaceRole.editor];
+
+// read: görüntüleme; write: düzenleme ve özet üzerinde üretim (quiz, sohbet, paylaşım...); delete: silme
+export type SummaryAccess = "read" | "write" | "delete";
+
+export class WorkspaceError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "WorkspaceError";
+        this.status = status;
+    }
+}
+
+export function isWorkspaceRole(v: unknown): v is WorkspaceRole {
+    return typeof v === "string" && (WORKSPACE_ROLES as string[]).includes(v);
+}
+
+// --- Özet yetkileri ---
+
+/**
+ * Kullanıcının görebildiği (read) veya düzenleyebildiği (write) özetler:
+ * kendi kişisel özetleri + üyesi olduğu çalışma alanlarındakiler (write için owner/editor).
+ */
+export function summaryAccessWhere(userId: string, access: "read" | "write" = "read"): Prisma.SummaryWhereInput {
+    const member = access === "write" ? { userId, role: { in: WRITE_ROLES } } : { userId };
+    return { OR: [{ userId, workspaceId: null }, { workspace: { members: { some: member } } }] };
+}
+
+// Ham SQL sorguları (arama) için summaryAccessWhere(userId, "read") karşılığı
+export function summaryAccessSql(userId: string) {
+    return Prisma.sql`(("userId" = ${userId} AND "workspaceId" IS NULL) OR "workspaceId" IN (
+        SELECT "workspaceId" FROM "WorkspaceMember" WHERE "userId" = ${userId}
+    ))`;
+}
+
+// Geçmiş listelerinde ?workspace= filtresi: "personal" veya çalışma alanı id'si; yoksa hepsi.
+export function workspaceFilterWhere(workspace: string | null): Prisma.SummaryWhereInput {
+    if (!workspace) return {};
+    return { workspaceId: workspace === "personal" ? null : workspace };
+}
+
+type AccessResult =
+    | { ok: true; role: WorkspaceRole; workspaceId: string | null }
+    | { ok: false; status: 403 | 404; error: string };
+
+/**
+ * Özet üzerinde yetki kontrolü. Görme yetkisi yoksa özetin varlığı da açığa çıkmasın diye 404,
+ * görebildiği ama yetkisinin yetmediği işlemler için 403 döner. Kişisel özetin sahibi "owner" sayılır.
+ */
+export async function authorizeSummary(summaryId: string, userId: string, access: SummaryAccess): Promise<AccessResult> {
+    const row = await prisma.summary.findUnique({
+        where: { id: summaryId },
+        select: {
+            userId: true,
+            workspaceId: true,
+            workspace: { select: { members: { where: { userId }, select: { role: true } } } },
+        },
+    });
+
+    const role = !row
+        ? null
+        : row.workspaceId
+          ? (row.workspace?.members[0]?.role ?? null)
+          : row.userId === userId
+            ? WorkspaceRole.owner
+            : null;
+    if (!row || !role) return { ok: false, status: 404, error: "Not found" };
+
+    if (access === "write" && !WRITE_ROLES.includes(role)) {
+        return { ok: false, status: 403, error: "Bu özette düzenleme yetkin yok." };
+    }
+    // Editör sadece kendi eklediği özeti silebilir; alanın sahibi hepsini.
+    if (access === "delete" && role !== WorkspaceRole.owner && !(role === WorkspaceRole.editor && row.userId === userId)) {
+        return { ok: false, status: 403, error: "Bu özeti silme yetkin yok." };
+    }
+
+    return { ok: true, role, workspaceId: row.workspaceId };
+}
+
+export async function memberRole(workspaceId: string, userId: string) {
+    const m = await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId, userId } },
+        select: { role: true },
+    });
+    return m?.role ?? null;
+}
+
+/**
+ * Özeti bir çalışma alanına taşır (workspaceId=null: oluşturanın kişisel alanına geri alır).
+ * Taşımak özeti kaynak alandan çıkardığı için kaynakta silme yetkisi (oluşturan editör veya alan sahibi),
+ * hedef alanda owner/editor olmak gerekir; kişisel alana sadece özeti oluşturan alabilir.
+ */
+export async function moveSummary(summaryId: string, userId: string, workspaceId: string | null) {
+    const access = await authorizeSummary(summaryId, userId, "delete");
+    if (!access.ok) throw new WorkspaceError(access.error, access.status);
+
+    if (workspaceId) {
+        const role = await memberRole(workspaceId, userId);
+        if (!role) throw new WorkspaceError("Çalışma alanı bulunamadı.", 404);
+        if (!WRITE_ROLES.includes(role)) throw new WorkspaceError("Bu çalışma alanına özet ekleme yetkin yok.", 403);
+    } else {
+        const owner = await prisma.summary.findUnique({ where: { id: summaryId }, select: { userId: true } });
+        if (owner?.userId !== userId) throw new WorkspaceError("Özeti kişisel alana sadece oluşturan alabilir.", 403);
+    }
+
+    const row = await prisma.summary.update({ where: { id: summaryId }, data: { workspaceId }, select: summarySelect });
+    return toApiSummary(row);
+}
+
+// --- Clerk organizasyonları ---
+
+// Varsayılan Clerk rolleri: org:admin -> owner, org:member -> editor; diğer (özel) roller salt okunur.
+function roleFromClerk(orgRole: string | null | undefined): WorkspaceRole {
+    if (orgRole === "org:admin") return WorkspaceRole.owner;
+    if (orgRole === "org:member") return WorkspaceRole.editor;
+    return WorkspaceRole.viewer;
+}
+
+/**
+ * Oturumdaki aktif Clerk organizasyonunu çalışma alanı olarak eşitler (yoksa oluşturur)
+ * ve kullanıcının rolünü Clerk'teki rolüne göre günceller. Organizasyon yoksa bir şey yapmaz.
+ */
+export async function syncClerkOrganization(
+    userId: string,
+    org: { orgId?: string | null; orgRole?: string | null; orgSlug?: string | null }
+) {
+    if (!org.orgId) return;
+
+    const workspace = await prisma.workspace.upsert({
+        where: { clerkOrgId: org.orgId },
+        update: {},
+        create: { clerkOrgId: org.orgId, name: org.orgSlug || "Organizasyon" },
+        select: { id: true },
+    });
+
+    const role = roleFromClerk(org.orgRole);
+    await prisma.workspaceMember.upsert({
+        where: { workspaceId_userId: { workspaceId: workspace.id, userId } },
+        update: { role },
+        create: { workspaceId: workspace.id, userId, role },
+    });
+}
+
+// --- Çalışma alanları ve üyeler ---
+
+export const memberSelect = {
+    role: true,
+    createdAt: true,
+    user: { select: { id: true, name: true, email: true } },
+} as const;
+
+export function parseWorkspaceName(body: unknown): { ok: true; name: string } | { ok: false; error: string } {
+    const name = isRecord(body) && typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_NAME_CHARS) return { ok: false, error: `Ad 1-${MAX_NAME_CHARS} karakter olmalı.` };
+    return { ok: true, name };
+}
+
+export async function listWorkspaces(userId: string) {
+    const rows = await prisma.workspaceMember.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+        select: {
+            role: true,
+            workspace: { select: { id: true, name: true, clerkOrgId: true, createdAt: true, _count: { select: { members: true } } } },
+        },
+    });
+    return rows.map(({ role, workspace: { _count, clerkOrgId, ...w } }) => ({
+        ...w,
+        role,
+        managedByClerk: clerkOrgId !== null,
+        memberCount: _count.members,
+    }));
+}
+
+export async function createWorkspace(userId: string, name: string) {
+    const workspace = await prisma.workspace.create({
+        data: { name, members: { create: { userId, role: WorkspaceRole.owner } } },
+        select: { id: true, name: true, createdAt: true },
+    });
+    return { ...workspace, role: WorkspaceRole.owner, managedByClerk: false, memberCount: 1 };
+}
+
+async function requireRole(workspaceId: string, userId: string, needed: "member" | "owner") {
+    const role = await memberRole(workspaceId, userId);
+    if (!role) throw new WorkspaceError("Çalışma alanı bulunamadı.", 404);
+    if (needed === "owner" && role !== WorkspaceRole.owner) {
+        throw new WorkspaceError("Bu işlem için çalışma alanı sahibi olmalısın.", 403);
+    }
+    return role;
+}
+
+// Clerk'ten gelen alanlarda üyelik Clerk'te yönetilir; burada değiştirilirse bir sonraki eşitlemede ezilirdi.
+async function requireLocalMembership(workspaceId: string) {
+    const ws = await prisma.workspace.findUnique({ where: { id: workspaceId }, select: { clerkOrgId: true } });
+    if (ws?.clerkOrgId) throw new WorkspaceError("Bu alanın üyeleri Clerk organizasyonundan yönetilir.", 409);
+}
+
+// Alanda en az bir owner kalmalı.
+async function assertOwnerRemains(workspaceId: string, userId: string) {
+    const owners = await prisma.workspaceMember.count({
+        where: { workspaceId, role: WorkspaceRole.owner, userId: { not: userId } },
+    });
+    if (owners === 0) throw new WorkspaceError("Alanın en az bir sahibi olmalı.", 409);
+}
+
+// Alan silinince özetleri silinmez; oluşturanlarının kişisel alanına döner.
+export async function deleteWorkspace(workspaceId: string, userId: string) {
+    await requireRole(workspaceId, userId, "owner");
+    await prisma.workspace.delete({ where: { id: workspaceId } });
+}
+
+export async function listMembers(workspaceId: string, userId: string) {
+    await requireRole(workspaceId, userId, "member");
+    return prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        orderBy: { createdAt: "asc" },
+        select: memberSelect,
+    });
+}
+
+/**
+ * Üye ekle: { email, role? } (varsayılan rol editor). Kullanıcı uygulamaya en az bir kez giriş yapmış olmalı.
+ */
+export async function addMember(workspaceId: string, userId: string, body: unknown) {
+    await requireRole(workspaceId, userId, "owner");
+    await requireLocalMembership(workspaceId);
+
+    const email = isRecord(body) && typeof body.email === "string" ? body.email.trim() : "";
+    if (!email) throw new WorkspaceError("email gerekli.", 400);
+    const role = isRecord(body) && body.role !== undefined ? body.role : WorkspaceRole.editor;
+    if (!isWorkspaceRole(role)) throw new WorkspaceError(`role şunlardan biri olmalı: ${WORKSPACE_ROLES.join(", ")}`, 400);
+
+    const user = await prisma.user.findFirst({
+        where: { email: { equals: email, mode: "insensitive" } },
+        select: { id: true },
+    });
+    if (!user) throw new WorkspaceError("Kullanıcı bulunamadı; önce uygulamaya bir kez giriş yapmalı.", 404);
+
+    const exists = await memberRole(workspaceId, user.id);
+    if (exists) throw new WorkspaceError("Kullanıcı zaten üye.", 409);
+
+    return prisma.workspaceMember.create({ data: { workspaceId, userId: user.id, role }, select: memberSelect });
+}
+
+export async function updateMemberRole(workspaceId: string, userId: string, memberId: string, role: unknown) {
+    await requireRole(workspaceId, userId, "owner");
+    await requireLocalMembership(workspaceId);
+    if (!isWorkspaceRole(role)) throw new WorkspaceError(`role şunlardan biri olmalı: ${WORKSPACE_ROLES.join(", ")}`, 400);
+
+    const current = await memberRole(workspaceId, memberId);
+    if (!current) throw new WorkspaceError("Üye bulunamadı.", 404);
+    if (current === WorkspaceRole.owner && role !== WorkspaceRole.owner) await assertOwnerRemains(workspaceId, memberId);
+
+    return prisma.workspaceMember.update({
+        where: { workspaceId_userId: { workspaceId, userId: memberId } },
+        data: { role },
+        select: memberSelect,
+    });
+}
+
+// Sahip herkesi çıkarabilir; üyeler sadece kendilerini (alandan ayrılma).
+export async function removeMember(workspaceId: string, userId: string, memberId: string) {
+    await requireRole(workspaceId, userId, memberId === userId ? "member" : "owner");
+    await requireLocalMembership(workspaceId);
+
+    const current = await memberRole(workspaceId, memberId);
+    if (!current) throw new WorkspaceError("Üye bulunamadı.", 404);
+    if (current === WorkspaceRole.owner) await assertOwnerRemains(workspaceId, memberId);
+
+    await prisma.workspaceMember.delete({ where: { workspaceId_userId: { workspaceId, userId: memberId } } });
+}
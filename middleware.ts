@@ -1,6 +1,16 @@
-import { clerkMiddleware } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 
-export default clerkMiddleware();
+// Paylaşım sayfası ve onun API'si oturumsuz açılır; diğer API'ler route içinde de userId kontrol eder.
+const isPublicRoute = createRouteMatcher(["/s/(.*)", "/api/share/(.*)"]);
+const isApiRoute = createRouteMatcher(["/api/(.*)", "/trpc/(.*)"]);
+
+export default clerkMiddleware(async (auth, req) => {
+    if (isPublicRoute(req) || !isApiRoute(req)) return;
+
+    const { userId } = await auth();
+    if (!userId) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+});
 
 export const config = {
     matcher: [
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SummaryJobStatus" AS ENUM ('queued', 'running', 'succeeded', 'failed', 'canceled');
+
+-- CreateTable
+CREATE TABLE "SummaryJob" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "SummaryJobStatus" NOT NULL DEFAULT 'queued',
+    "progress" TEXT,
+    "progressDone" INTEGER NOT NULL DEFAULT 0,
+    "progressTotal" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "summaryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryJob_userId_createdAt_idx" ON "SummaryJob"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SummaryJob" ADD CONSTRAINT "SummaryJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryJob" ADD CONSTRAINT "SummaryJob_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "contentHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Summary_userId_contentHash_idx" ON "Summary"("userId", "contentHash");
+
+-- CreateIndex
+CREATE INDEX "Summary_contentHash_idx" ON "Summary"("contentHash");
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "templateId" TEXT,
+ADD COLUMN     "templateKey" TEXT,
+ADD COLUMN     "templateVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "SummaryTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "instructions" TEXT,
+    "sections" JSONB NOT NULL,
+    "lengthRule" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryTemplate_userId_createdAt_idx" ON "SummaryTemplate"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Summary" ADD CONSTRAINT "Summary_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "SummaryTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryTemplate" ADD CONSTRAINT "SummaryTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "pageMap" JSONB,
+ADD COLUMN     "pageRange" TEXT;
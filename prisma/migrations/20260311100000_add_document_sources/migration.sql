@@ -0,0 +1,14 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "SummarySource" ADD VALUE 'docx';
+ALTER TYPE "SummarySource" ADD VALUE 'pptx';
+ALTER TYPE "SummarySource" ADD VALUE 'txt';
+ALTER TYPE "SummarySource" ADD VALUE 'markdown';
+ALTER TYPE "SummarySource" ADD VALUE 'html';
+ALTER TYPE "SummarySource" ADD VALUE 'epub';
@@ -0,0 +1,10 @@
+-- AlterTable
+-- Prisma üretilmiş kolonları ifade edemez; şemada Unsupported("tsvector") olarak durur.
+ALTER TABLE "Summary" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("summary", '')), 'B') ||
+    setweight(to_tsvector('simple', left(coalesce("inputText", ''), 200000)), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Summary_searchVector_idx" ON "Summary" USING GIN ("searchVector");
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "SummaryMessageRole" AS ENUM ('user', 'assistant');
+
+-- CreateTable
+CREATE TABLE "SummaryMessage" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "SummaryMessageRole" NOT NULL,
+    "content" TEXT NOT NULL,
+    "citations" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryMessage_summaryId_createdAt_idx" ON "SummaryMessage"("summaryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SummaryMessage" ADD CONSTRAINT "SummaryMessage_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryMessage" ADD CONSTRAINT "SummaryMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "SummaryChunk" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "ordinal" INTEGER NOT NULL,
+    "fromPage" INTEGER NOT NULL,
+    "toPage" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryChunk_summaryId_ordinal_key" ON "SummaryChunk"("summaryId", "ordinal");
+
+-- CreateIndex
+CREATE INDEX "SummaryChunk_userId_embeddingModel_idx" ON "SummaryChunk"("userId", "embeddingModel");
+
+-- AddForeignKey
+ALTER TABLE "SummaryChunk" ADD CONSTRAINT "SummaryChunk_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryChunk" ADD CONSTRAINT "SummaryChunk_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SummaryRevisionKind" AS ENUM ('generated', 'edit', 'restore');
+
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "editedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SummaryRevision" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "kind" "SummaryRevisionKind" NOT NULL,
+    "title" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "keywords" JSONB NOT NULL,
+    "restoredFrom" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryRevision_summaryId_number_key" ON "SummaryRevision"("summaryId", "number");
+
+-- AddForeignKey
+ALTER TABLE "SummaryRevision" ADD CONSTRAINT "SummaryRevision_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryRevision" ADD CONSTRAINT "SummaryRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
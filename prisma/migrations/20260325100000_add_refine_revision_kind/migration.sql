@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SummaryRevisionKind" ADD VALUE 'refine';
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "SummaryShare" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryShare_token_key" ON "SummaryShare"("token");
+
+-- CreateIndex
+CREATE INDEX "SummaryShare_summaryId_createdAt_idx" ON "SummaryShare"("summaryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SummaryShare" ADD CONSTRAINT "SummaryShare_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryShare" ADD CONSTRAINT "SummaryShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "AttachmentKind" AS ENUM ('document', 'image');
+
+-- CreateTable
+CREATE TABLE "Attachment" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "kind" "AttachmentKind" NOT NULL,
+    "name" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Attachment_summaryId_idx" ON "Attachment"("summaryId");
+
+-- CreateIndex
+CREATE INDEX "Attachment_storageKey_idx" ON "Attachment"("storageKey");
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "Highlight" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "page" INTEGER NOT NULL,
+    "quote" TEXT NOT NULL,
+    "rects" JSONB NOT NULL,
+    "color" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Highlight_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Highlight_summaryId_userId_page_idx" ON "Highlight"("summaryId", "userId", "page");
+
+-- AddForeignKey
+ALTER TABLE "Highlight" ADD CONSTRAINT "Highlight_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Highlight" ADD CONSTRAINT "Highlight_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "FlashcardReview" (
+    "cardId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "ease" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "intervalDays" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReviewedAt" TIMESTAMP(3),
+
+    CONSTRAINT "FlashcardReview_pkey" PRIMARY KEY ("cardId","userId")
+);
+
+-- Mevcut tekrar durumu kartı oluşturanın satırına taşınır
+INSERT INTO "FlashcardReview" ("cardId", "userId", "ease", "intervalDays", "repetitions", "dueAt", "lastReviewedAt")
+SELECT "id", "userId", "ease", "intervalDays", "repetitions", "dueAt", "lastReviewedAt"
+FROM "Flashcard"
+WHERE "lastReviewedAt" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "Flashcard_userId_dueAt_idx";
+
+-- AlterTable
+ALTER TABLE "Flashcard" DROP COLUMN "ease",
+DROP COLUMN "intervalDays",
+DROP COLUMN "repetitions",
+DROP COLUMN "dueAt",
+DROP COLUMN "lastReviewedAt";
+
+-- CreateIndex
+CREATE INDEX "FlashcardReview_userId_dueAt_idx" ON "FlashcardReview"("userId", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "FlashcardReview" ADD CONSTRAINT "FlashcardReview_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Flashcard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlashcardReview" ADD CONSTRAINT "FlashcardReview_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Büyük/küçük harf farkıyla çiftlenmiş etiketler en eskisinde birleştirilir
+WITH ranked AS (
+    SELECT "id", first_value("id") OVER (PARTITION BY "userId", lower("name") ORDER BY "createdAt", "id") AS "keepId"
+    FROM "Tag"
+)
+INSERT INTO "SummaryTag" ("tagId", "summaryId", "addedAt")
+SELECT r."keepId", st."summaryId", st."addedAt"
+FROM "SummaryTag" st
+JOIN ranked r ON r."id" = st."tagId"
+WHERE r."id" <> r."keepId"
+ON CONFLICT ("tagId", "summaryId") DO NOTHING;
+
+DELETE FROM "Tag" t
+USING (
+    SELECT "id", first_value("id") OVER (PARTITION BY "userId", lower("name") ORDER BY "createdAt", "id") AS "keepId"
+    FROM "Tag"
+) r
+WHERE t."id" = r."id" AND r."id" <> r."keepId";
+
+-- CreateIndex (ifade index'i Prisma şemasında tanımlanamaz)
+CREATE UNIQUE INDEX "Tag_userId_lower_name_key" ON "Tag"("userId", lower("name"));
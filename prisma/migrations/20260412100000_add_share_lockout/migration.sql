@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "SummaryShare" ADD COLUMN "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lockouts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lockedUntil" TIMESTAMP(3);
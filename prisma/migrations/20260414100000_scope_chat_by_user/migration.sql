@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "SummaryMessage_summaryId_createdAt_idx";
+
+-- CreateIndex
+CREATE INDEX "SummaryMessage_summaryId_userId_createdAt_idx" ON "SummaryMessage"("summaryId", "userId", "createdAt");
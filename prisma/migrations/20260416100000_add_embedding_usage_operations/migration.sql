@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "UsageOperation" ADD VALUE 'index';
+ALTER TYPE "UsageOperation" ADD VALUE 'search';
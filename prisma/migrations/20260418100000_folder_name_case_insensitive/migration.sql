@@ -0,0 +1,21 @@
+-- Büyük/küçük harf farkıyla çiftlenmiş klasörler en eskisinde birleştirilir
+WITH ranked AS (
+    SELECT "id", first_value("id") OVER (PARTITION BY "userId", lower("name") ORDER BY "createdAt", "id") AS "keepId"
+    FROM "Folder"
+)
+INSERT INTO "SummaryFolder" ("folderId", "summaryId", "addedAt")
+SELECT r."keepId", sf."summaryId", sf."addedAt"
+FROM "SummaryFolder" sf
+JOIN ranked r ON r."id" = sf."folderId"
+WHERE r."id" <> r."keepId"
+ON CONFLICT ("folderId", "summaryId") DO NOTHING;
+
+DELETE FROM "Folder" f
+USING (
+    SELECT "id", first_value("id") OVER (PARTITION BY "userId", lower("name") ORDER BY "createdAt", "id") AS "keepId"
+    FROM "Folder"
+) r
+WHERE f."id" = r."id" AND r."id" <> r."keepId";
+
+-- CreateIndex (ifade index'i Prisma şemasında tanımlanamaz)
+CREATE UNIQUE INDEX "Folder_userId_lower_name_key" ON "Folder"("userId", lower("name"));